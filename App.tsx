@@ -1,3 +1,5 @@
+// Polyfills WalletConnect needs, so it has to load first
+import '@walletconnect/react-native-compat';
 import React, { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { QueryClientProvider } from '@tanstack/react-query';
@@ -8,8 +10,17 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { apolloClient } from './src/services/api';
 import { AuthProvider } from './src/contexts/AuthContext';
 import { GroupProvider } from './src/contexts/GroupContext';
+import { TimezoneProvider } from './src/contexts/TimezoneContext';
+import { SyncProvider } from './src/contexts/SyncContext';
+import { ReminderProvider } from './src/contexts/ReminderContext';
+import { CalendarSyncProvider } from './src/contexts/CalendarSyncContext';
 import AppNavigator from './src/navigation/AppNavigator';
-import { createQueryClient, setupPersistence } from './src/services/caching';
+import {
+  createQueryClient,
+  setupOnlineManager,
+  setupPersistence,
+} from './src/services/caching';
+import { configureNotifications } from './src/services/reminders';
 
 // Create a client with optimized caching
 const queryClient = createQueryClient();
@@ -18,6 +29,8 @@ export default function App() {
   useEffect(() => {
     // Setup persistence for React Query cache
     setupPersistence(queryClient);
+    setupOnlineManager();
+    configureNotifications();
   }, []);
 
   return (
@@ -27,8 +40,16 @@ export default function App() {
           <QueryClientProvider client={queryClient}>
             <AuthProvider>
               <GroupProvider>
-                <AppNavigator />
-                <StatusBar style="auto" />
+                <TimezoneProvider>
+                  <SyncProvider>
+                    <ReminderProvider>
+                      <CalendarSyncProvider>
+                        <AppNavigator />
+                        <StatusBar style="auto" />
+                      </CalendarSyncProvider>
+                    </ReminderProvider>
+                  </SyncProvider>
+                </TimezoneProvider>
               </GroupProvider>
             </AuthProvider>
           </QueryClientProvider>
@@ -13,7 +13,8 @@ interface BadgeProps {
     | 'ongoing'
     | 'upcoming'
     | 'hosting'
-    | 'joining';
+    | 'joining'
+    | 'conflict';
   style?: ViewStyle;
   textStyle?: TextStyle;
 }
@@ -117,4 +118,12 @@ const styles = StyleSheet.create({
   joiningText: {
     color: colors.primaryDark,
   },
+
+  // Conflict
+  conflictBadge: {
+    backgroundColor: colors.status.errorBg,
+  },
+  conflictText: {
+    color: colors.status.error,
+  },
 });
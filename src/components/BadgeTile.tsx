@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../utils/colors';
+
+// A collectible badge (proof of attendance etc.), not the status pill in Badge.tsx
+interface BadgeTileProps {
+  title: string;
+  imageUrl: string | null;
+  subtitle?: string;
+  onPress?: () => void;
+  size?: number;
+}
+
+export default function BadgeTile({
+  title,
+  imageUrl,
+  subtitle,
+  onPress,
+  size = 72,
+}: BadgeTileProps) {
+  const imageStyle = { width: size, height: size, borderRadius: size / 2 };
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, { width: size + 24 }]}
+      onPress={onPress}
+      disabled={!onPress}
+    >
+      {imageUrl ? (
+        <Image
+          source={{ uri: imageUrl, cache: 'force-cache' }}
+          style={[styles.image, imageStyle]}
+          resizeMode="cover"
+        />
+      ) : (
+        <View style={[styles.image, styles.placeholder, imageStyle]}>
+          <Ionicons
+            name="ribbon-outline"
+            size={size / 2}
+            color={colors.text.tertiary}
+          />
+        </View>
+      )}
+      <Text style={styles.title} numberOfLines={2}>
+        {title}
+      </Text>
+      {!!subtitle && (
+        <Text style={styles.subtitle} numberOfLines={1}>
+          {subtitle}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 16,
+  },
+  image: {
+    backgroundColor: colors.background.tertiary,
+    marginBottom: 8,
+  },
+  placeholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+});
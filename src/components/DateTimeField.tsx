@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+import { colors } from '../utils/colors';
+
+interface DateTimeFieldProps {
+  label: string;
+  value: Date;
+  onChange: (date: Date) => void;
+  minimumDate?: Date;
+}
+
+export default function DateTimeField({
+  label,
+  value,
+  onChange,
+  minimumDate,
+}: DateTimeFieldProps) {
+  const [showIOSPicker, setShowIOSPicker] = useState(false);
+
+  const openPicker = () => {
+    if (Platform.OS !== 'android') {
+      setShowIOSPicker((visible) => !visible);
+      return;
+    }
+
+    // Android has no combined date/time mode, so ask for the date first
+    DateTimePickerAndroid.open({
+      value,
+      mode: 'date',
+      minimumDate,
+      onChange: (event: DateTimePickerEvent, date?: Date) => {
+        if (event.type !== 'set' || !date) return;
+
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent: DateTimePickerEvent, time?: Date) => {
+            if (timeEvent.type !== 'set' || !time) return;
+            const combined = new Date(date);
+            combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+            onChange(combined);
+          },
+        });
+      },
+    });
+  };
+
+  const dateText = value.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  const timeText = value.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TouchableOpacity style={styles.field} onPress={openPicker}>
+        <Ionicons name="time-outline" size={20} color={colors.primary} />
+        <Text style={styles.value}>
+          {dateText} • {timeText}
+        </Text>
+        <Ionicons
+          name={showIOSPicker ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={colors.text.tertiary}
+        />
+      </TouchableOpacity>
+      {showIOSPicker && (
+        <DateTimePicker
+          value={value}
+          mode="datetime"
+          display="inline"
+          minimumDate={minimumDate}
+          accentColor={colors.primary}
+          onChange={(_event: DateTimePickerEvent, date?: Date) => {
+            if (date) onChange(date);
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginBottom: 8,
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  value: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text.primary,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,257 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Event } from '../types';
+import { colors } from '../utils/colors';
+import { Timeline } from '../utils/timeline';
+
+interface DayTimelineProps {
+  timeline: Timeline<Event>;
+  starredIds: Set<number>;
+  attendingIds: Set<number>;
+  onEventPress: (eventId: number) => void;
+}
+
+const HOUR_HEIGHT = 64;
+const COLUMN_WIDTH = 160;
+const GUTTER_WIDTH = 48;
+const HEADER_HEIGHT = 36;
+
+const minutesToPixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+const formatHour = (hour: number) => {
+  const h = hour % 24;
+  return `${h % 12 || 12} ${h < 12 ? 'AM' : 'PM'}`;
+};
+
+// Day grid with a column per room or track and time running down; scrolls
+// sideways when there are more columns than fit on screen
+export default function DayTimeline({
+  timeline,
+  starredIds,
+  attendingIds,
+  onEventPress,
+}: DayTimelineProps) {
+  const hours = Array.from(
+    { length: timeline.endHour - timeline.startHour },
+    (_, i) => timeline.startHour + i
+  );
+  const bodyHeight = hours.length * HOUR_HEIGHT;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.gutter, { paddingTop: HEADER_HEIGHT }]}>
+        {hours.map((hour) => (
+          <Text key={hour} style={styles.hourLabel}>
+            {formatHour(hour)}
+          </Text>
+        ))}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator>
+        <View>
+          <View style={styles.headerRow}>
+            {timeline.columns.map((column) => (
+              <View key={column.id ?? 'other'} style={styles.columnHeader}>
+                <Text style={styles.columnTitle} numberOfLines={1}>
+                  {column.title}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={[styles.body, { height: bodyHeight }]}>
+            {hours.map((hour, i) => (
+              <View
+                key={hour}
+                style={[styles.hourLine, { top: i * HOUR_HEIGHT }]}
+              />
+            ))}
+
+            {timeline.columns.map((column, columnIndex) => (
+              <View
+                key={column.id ?? 'other'}
+                style={[
+                  styles.column,
+                  { left: columnIndex * COLUMN_WIDTH, height: bodyHeight },
+                ]}
+              >
+                {column.blocks.map(
+                  ({ event, top, height, lane, laneCount }) => {
+                    const isAttending = attendingIds.has(event.id);
+                    const isStarred = starredIds.has(event.id);
+                    const laneWidth = (COLUMN_WIDTH - 4) / laneCount;
+
+                    return (
+                      <TouchableOpacity
+                        key={event.id}
+                        style={[
+                          styles.block,
+                          {
+                            top: minutesToPixels(top),
+                            height: Math.max(minutesToPixels(height) - 2, 20),
+                            left: 2 + lane * laneWidth,
+                            width: laneWidth - 2,
+                          },
+                          isStarred && styles.blockStarred,
+                          isAttending && styles.blockAttending,
+                          event.status === 'cancel' && styles.blockCancelled,
+                        ]}
+                        onPress={() => onEventPress(event.id)}
+                      >
+                        <View style={styles.blockTitleRow}>
+                          {isStarred && (
+                            <Ionicons
+                              name="star"
+                              size={10}
+                              color={colors.star}
+                              style={styles.blockIcon}
+                            />
+                          )}
+                          <Text
+                            style={[
+                              styles.blockTitle,
+                              isAttending && styles.blockTitleAttending,
+                            ]}
+                            numberOfLines={Math.max(
+                              1,
+                              Math.floor(minutesToPixels(height) / 16)
+                            )}
+                          >
+                            {event.title}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  }
+                )}
+              </View>
+            ))}
+
+            {timeline.nowOffset !== null && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.nowLine,
+                  {
+                    top: minutesToPixels(timeline.nowOffset),
+                    width: timeline.columns.length * COLUMN_WIDTH,
+                  },
+                ]}
+              />
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: colors.background.secondary,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+    borderRightWidth: 1,
+    borderRightColor: colors.border.primary,
+  },
+  hourLabel: {
+    height: HOUR_HEIGHT,
+    fontSize: 11,
+    color: colors.text.tertiary,
+    textAlign: 'right',
+    paddingRight: 6,
+    marginTop: -6,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    height: HEADER_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.primary,
+  },
+  columnHeader: {
+    width: COLUMN_WIDTH,
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+    borderRightWidth: 1,
+    borderRightColor: colors.border.primary,
+  },
+  columnTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  body: {
+    position: 'relative',
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: colors.border.primary,
+  },
+  column: {
+    position: 'absolute',
+    top: 0,
+    width: COLUMN_WIDTH,
+    borderRightWidth: 1,
+    borderRightColor: colors.border.primary,
+  },
+  block: {
+    position: 'absolute',
+    padding: 4,
+    borderRadius: 6,
+    backgroundColor: colors.background.tertiary,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.text.tertiary,
+    overflow: 'hidden',
+  },
+  blockStarred: {
+    backgroundColor: colors.status.warningBg,
+    borderLeftColor: colors.star,
+  },
+  blockAttending: {
+    backgroundColor: colors.primaryLight,
+    borderLeftColor: colors.primary,
+  },
+  blockCancelled: {
+    opacity: 0.5,
+  },
+  blockTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  blockIcon: {
+    marginTop: 2,
+    marginRight: 2,
+  },
+  blockTitle: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  blockTitleAttending: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    height: 2,
+    backgroundColor: colors.status.error,
+  },
+});
@@ -5,17 +5,32 @@ import { EventWithJoinStatus } from '../types';
 import Card from './Card';
 import Badge from './Badge';
 import { formatEventTime, getEventStatus } from '../utils/dateUtils';
-import { LOCAL_TIMEZONE } from '../services/api';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { usePendingActions } from '../services/events';
+import { PendingActionType } from '../services/mutationQueue';
 import { colors } from '../utils/colors';
 
 interface EventCardProps {
   event: EventWithJoinStatus;
   onPress: () => void;
   onStarPress?: () => void;
+  // Events on the user's schedule that overlap this one
+  conflicts?: { id: number; title: string }[];
+  onConflictPress?: (eventId: number) => void;
 }
 
+const PENDING_LABELS: Record<PendingActionType, string> = {
+  star: 'Star pending',
+  unstar: 'Unstar pending',
+  join: 'RSVP pending',
+  cancel: 'Cancel pending',
+  checkin: 'Check-ins pending',
+};
+
 function attendanceBadge(event: EventWithJoinStatus, status: string) {
-  if (event.is_attending && status === 'past') {
+  if (event.is_pending_approval && status !== 'past') {
+    return <Badge text="Pending Approval" variant="pending" />;
+  } else if (event.is_attending && status === 'past') {
     return <Badge text="Attended" variant="joining" />;
   } else if (event.is_attending) {
     return <Badge text="Attending" variant="joining" />;
@@ -26,12 +41,22 @@ export default function EventCard({
   event,
   onPress,
   onStarPress,
+  conflicts = [],
+  onConflictPress,
 }: EventCardProps) {
+  const { resolveTimezone } = useTimezone();
+  // One badge per kind; a host may have many check-ins queued
+  const pendingTypes = Array.from(
+    new Set(
+      usePendingActions()
+        .filter((action) => action.eventId === event.id)
+        .map((action) => action.type)
+    )
+  );
   const eventStatus = getEventStatus(event.start_time, event.end_time);
   const { date, time } = formatEventTime(
     event.start_time,
-    event.timezone,
-    LOCAL_TIMEZONE
+    resolveTimezone(event.timezone)
   );
 
   const customHost = event.event_roles?.find((r) => r.role === 'custom_host');
@@ -77,6 +102,10 @@ export default function EventCard({
           )}
           {event.is_owner && <Badge text="Hosting" variant="hosting" />}
           {attendanceBadge(event, eventStatus)}
+          {conflicts.length > 0 && <Badge text="Conflict" variant="conflict" />}
+          {pendingTypes.map((type) => (
+            <Badge key={type} text={PENDING_LABELS[type]} variant="pending" />
+          ))}
         </View>
 
         {/* Title */}
@@ -160,6 +189,33 @@ export default function EventCard({
             </Text>
           </View>
         )}
+
+        {/* Overlapping events from the user's schedule */}
+        {conflicts.length > 0 && (
+          <View style={styles.conflictsContainer}>
+            <Ionicons
+              name="alert-circle-outline"
+              size={16}
+              color={colors.status.error}
+            />
+            <Text style={styles.conflictsText} numberOfLines={2}>
+              Overlaps with{' '}
+              {conflicts.map((conflict, index) => (
+                <React.Fragment key={conflict.id}>
+                  {index > 0 && ', '}
+                  <Text
+                    style={onConflictPress && styles.conflictLink}
+                    onPress={
+                      onConflictPress && (() => onConflictPress(conflict.id))
+                    }
+                  >
+                    {conflict.title}
+                  </Text>
+                </React.Fragment>
+              ))}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Cover Image - only show when image exists */}
@@ -280,6 +336,20 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     flex: 1,
   },
+  conflictsContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 4,
+  },
+  conflictsText: {
+    fontSize: 13,
+    color: colors.status.error,
+    marginLeft: 4,
+    flex: 1,
+  },
+  conflictLink: {
+    textDecorationLine: 'underline',
+  },
   imageContainer: {
     width: 100,
     height: 100,
@@ -0,0 +1,741 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import Markdown from 'react-native-markdown-display';
+
+import Button from './Button';
+import DateTimeField from './DateTimeField';
+import { Event, EventDraft, EventRole, EventRoleType } from '../types';
+import { getAuthToken, getProfileByHandle, uploadFile } from '../services/api';
+import {
+  formatTimezoneLabel,
+  getDeviceTimezone,
+  isValidTimezone,
+  parseServerTime,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+import { colors } from '../utils/colors';
+
+export interface EventFormValues {
+  title: string;
+  start: Date; // wall-clock time in `timezone`
+  end: Date;
+  timezone: string;
+  isOnline: boolean;
+  location: string;
+  meetingUrl: string;
+  coverUrl: string | null;
+  content: string;
+  tags: string[];
+  maxParticipant: string;
+  eventRoles: EventRole[];
+}
+
+export const getDefaultEventFormValues = (
+  timezone: string = getDeviceTimezone()
+): EventFormValues => {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(end.getHours() + 1);
+
+  return {
+    title: '',
+    start,
+    end,
+    timezone,
+    isOnline: false,
+    location: '',
+    meetingUrl: '',
+    coverUrl: null,
+    content: '',
+    tags: [],
+    maxParticipant: '',
+    eventRoles: [],
+  };
+};
+
+export const eventToFormValues = (event: Event): EventFormValues => {
+  const timezone = event.timezone || getDeviceTimezone();
+
+  return {
+    title: event.title,
+    start: utcToZonedTime(parseServerTime(event.start_time), timezone),
+    end: utcToZonedTime(parseServerTime(event.end_time), timezone),
+    timezone,
+    isOnline: !!event.meeting_url,
+    location: event.location || '',
+    meetingUrl: event.meeting_url || '',
+    coverUrl: event.cover_url,
+    content: event.content || '',
+    tags: event.tags || [],
+    maxParticipant: event.max_participant ? String(event.max_participant) : '',
+    eventRoles: (event.event_roles || []).filter(
+      (r) => r.role === EventRoleType.CoHost || r.role === EventRoleType.Speaker
+    ),
+  };
+};
+
+export const toEventDraft = (
+  values: EventFormValues,
+  groupId: number
+): EventDraft => {
+  const maxParticipant = parseInt(values.maxParticipant, 10);
+
+  return {
+    group_id: groupId,
+    title: values.title.trim(),
+    start_time: zonedTimeToUtc(values.start, values.timezone).toISOString(),
+    end_time: zonedTimeToUtc(values.end, values.timezone).toISOString(),
+    timezone: values.timezone,
+    location: values.isOnline ? null : values.location.trim() || null,
+    meeting_url: values.isOnline ? values.meetingUrl.trim() || null : null,
+    cover_url: values.coverUrl,
+    content: values.content.trim() || null,
+    tags: values.tags.length > 0 ? values.tags : null,
+    max_participant: Number.isNaN(maxParticipant) ? null : maxParticipant,
+    event_roles: values.eventRoles,
+  };
+};
+
+const validateEventForm = (values: EventFormValues): string | null => {
+  if (!values.title.trim()) {
+    return 'Please enter a title for your event.';
+  }
+  if (values.end.getTime() <= values.start.getTime()) {
+    return 'The event must end after it starts.';
+  }
+  if (!isValidTimezone(values.timezone)) {
+    return `"${values.timezone}" is not a recognized timezone.`;
+  }
+  if (values.isOnline && !/^https?:\/\/\S+$/i.test(values.meetingUrl.trim())) {
+    return 'Please enter a meeting URL starting with http:// or https://.';
+  }
+  if (values.maxParticipant.trim()) {
+    const max = Number(values.maxParticipant);
+    if (!Number.isInteger(max) || max < 1) {
+      return 'Max participants must be a whole number greater than zero.';
+    }
+  }
+  return null;
+};
+
+const ROLE_OPTIONS: { role: EventRoleType; label: string }[] = [
+  { role: EventRoleType.CoHost, label: 'Co-Host' },
+  { role: EventRoleType.Speaker, label: 'Speaker' },
+];
+
+interface EventFormProps {
+  initialValues: EventFormValues;
+  onSubmit: (values: EventFormValues) => void;
+  submitLabel: string;
+  submitting?: boolean;
+  suggestedTags?: string[];
+  suggestedTimezones?: string[];
+}
+
+export default function EventForm({
+  initialValues,
+  onSubmit,
+  submitLabel,
+  submitting = false,
+  suggestedTags = [],
+  suggestedTimezones = [],
+}: EventFormProps) {
+  const [values, setValues] = useState<EventFormValues>(initialValues);
+  const [customTag, setCustomTag] = useState('');
+  const [roleHandle, setRoleHandle] = useState('');
+  const [roleType, setRoleType] = useState<EventRoleType>(EventRoleType.CoHost);
+  const [lookingUpRole, setLookingUpRole] = useState(false);
+  const [uploadingCover, setUploadingCover] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const update = <K extends keyof EventFormValues>(
+    key: K,
+    value: EventFormValues[K]
+  ) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleStartChange = (start: Date) => {
+    setValues((prev) => {
+      // Keep the duration when the start moves past the end
+      const duration = prev.end.getTime() - prev.start.getTime();
+      const end =
+        start.getTime() >= prev.end.getTime()
+          ? new Date(start.getTime() + Math.max(duration, 60 * 60 * 1000))
+          : prev.end;
+      return { ...prev, start, end };
+    });
+  };
+
+  const timezoneOptions = Array.from(
+    new Set([...suggestedTimezones, getDeviceTimezone(), 'UTC'])
+  ).filter(Boolean);
+
+  const tagOptions = Array.from(new Set([...suggestedTags, ...values.tags]));
+
+  const toggleTag = (tag: string) => {
+    update(
+      'tags',
+      values.tags.includes(tag)
+        ? values.tags.filter((t) => t !== tag)
+        : [...values.tags, tag]
+    );
+  };
+
+  const addCustomTag = () => {
+    const tag = customTag.trim();
+    if (!tag) return;
+    if (!values.tags.includes(tag)) {
+      update('tags', [...values.tags, tag]);
+    }
+    setCustomTag('');
+  };
+
+  const handlePickCover = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        'Permission Required',
+        'Please allow photo library access to add a cover image.'
+      );
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [16, 9],
+      quality: 0.8,
+    });
+
+    if (result.canceled || !result.assets?.length) return;
+
+    const asset = result.assets[0];
+    try {
+      setUploadingCover(true);
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        throw new Error('No authentication token found');
+      }
+
+      const url = await uploadFile(
+        {
+          uri: asset.uri,
+          name: asset.fileName || `cover-${Date.now()}.jpg`,
+          type: asset.mimeType || 'image/jpeg',
+        },
+        authToken
+      );
+      update('coverUrl', url);
+    } catch (error) {
+      console.error('Cover upload error:', error);
+      Alert.alert('Upload Failed', 'Could not upload the cover image.');
+    } finally {
+      setUploadingCover(false);
+    }
+  };
+
+  const handleAddRole = async () => {
+    const handle = roleHandle.trim().replace(/^@/, '');
+    if (!handle) return;
+
+    if (
+      values.eventRoles.some(
+        (r) => r.role === roleType && r.profile?.handle === handle
+      )
+    ) {
+      setRoleHandle('');
+      return;
+    }
+
+    try {
+      setLookingUpRole(true);
+      const profile = await getProfileByHandle(handle);
+      if (!profile) {
+        Alert.alert(
+          'Not Found',
+          `No Social Layer user with handle @${handle}.`
+        );
+        return;
+      }
+
+      update('eventRoles', [
+        ...values.eventRoles,
+        {
+          item_id: profile.id,
+          item_type: 'Profile',
+          nickname: profile.nickname || profile.handle,
+          image_url: profile.image_url,
+          role: roleType,
+          profile: {
+            id: profile.id,
+            handle: profile.handle,
+            nickname: profile.nickname,
+            image_url: profile.image_url,
+          },
+        },
+      ]);
+      setRoleHandle('');
+    } finally {
+      setLookingUpRole(false);
+    }
+  };
+
+  const handleRemoveRole = (index: number) => {
+    const role = values.eventRoles[index];
+    if (role.id) {
+      // Existing roles have to be destroyed explicitly on the server
+      update(
+        'eventRoles',
+        values.eventRoles.map((r, i) =>
+          i === index ? { ...r, _destroy: '1' } : r
+        )
+      );
+    } else {
+      update(
+        'eventRoles',
+        values.eventRoles.filter((_, i) => i !== index)
+      );
+    }
+  };
+
+  const handleSubmit = () => {
+    const validationError = validateEventForm(values);
+    if (validationError) {
+      Alert.alert('Check Your Event', validationError);
+      return;
+    }
+    onSubmit(values);
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Cover Image */}
+        <TouchableOpacity
+          style={styles.coverPicker}
+          onPress={handlePickCover}
+          disabled={uploadingCover}
+        >
+          {values.coverUrl ? (
+            <Image
+              source={{ uri: values.coverUrl }}
+              style={styles.coverImage}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={styles.coverPlaceholder}>
+              <Ionicons
+                name="image-outline"
+                size={32}
+                color={colors.text.tertiary}
+              />
+              <Text style={styles.coverPlaceholderText}>Add cover image</Text>
+            </View>
+          )}
+          {uploadingCover && (
+            <View style={styles.coverOverlay}>
+              <ActivityIndicator color={colors.text.white} />
+            </View>
+          )}
+        </TouchableOpacity>
+        {values.coverUrl && (
+          <TouchableOpacity onPress={() => update('coverUrl', null)}>
+            <Text style={styles.linkText}>Remove cover image</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Title */}
+        <Text style={styles.label}>Title</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="What's happening?"
+          value={values.title}
+          onChangeText={(text) => update('title', text)}
+        />
+
+        {/* Time */}
+        <DateTimeField
+          label="Starts"
+          value={values.start}
+          onChange={handleStartChange}
+        />
+        <DateTimeField
+          label="Ends"
+          value={values.end}
+          onChange={(end) => update('end', end)}
+          minimumDate={values.start}
+        />
+
+        <Text style={styles.label}>Timezone</Text>
+        <View style={styles.chipRow}>
+          {timezoneOptions.map((tz) =>
+            renderChip(
+              tz,
+              formatTimezoneLabel(tz),
+              values.timezone === tz,
+              () => update('timezone', tz)
+            )
+          )}
+        </View>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g. Europe/Lisbon"
+          value={values.timezone}
+          onChangeText={(text) => update('timezone', text.trim())}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {/* Location */}
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>Online event</Text>
+          <Switch
+            value={values.isOnline}
+            onValueChange={(isOnline) => update('isOnline', isOnline)}
+            trackColor={{ true: colors.primary }}
+          />
+        </View>
+        {values.isOnline ? (
+          <TextInput
+            style={styles.input}
+            placeholder="https://meet.example.com/..."
+            value={values.meetingUrl}
+            onChangeText={(text) => update('meetingUrl', text)}
+            keyboardType="url"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        ) : (
+          <TextInput
+            style={styles.input}
+            placeholder="Where is it happening?"
+            value={values.location}
+            onChangeText={(text) => update('location', text)}
+          />
+        )}
+
+        {/* Content */}
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>Description</Text>
+          <TouchableOpacity onPress={() => setShowPreview(!showPreview)}>
+            <Text style={styles.linkText}>
+              {showPreview ? 'Edit' : 'Preview'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {showPreview ? (
+          <View style={styles.preview}>
+            <Markdown>{values.content || '_Nothing to preview yet_'}</Markdown>
+          </View>
+        ) : (
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            placeholder="Tell people about your event. Markdown is supported."
+            value={values.content}
+            onChangeText={(text) => update('content', text)}
+            multiline
+            textAlignVertical="top"
+          />
+        )}
+
+        {/* Tags */}
+        <Text style={styles.label}>Tags</Text>
+        {tagOptions.length > 0 && (
+          <View style={styles.chipRow}>
+            {tagOptions.map((tag) =>
+              renderChip(tag, tag, values.tags.includes(tag), () =>
+                toggleTag(tag)
+              )
+            )}
+          </View>
+        )}
+        <View style={styles.inlineRow}>
+          <TextInput
+            style={[styles.input, styles.inlineInput]}
+            placeholder="Add a tag"
+            value={customTag}
+            onChangeText={setCustomTag}
+            onSubmitEditing={addCustomTag}
+            returnKeyType="done"
+          />
+          <Button
+            title="Add"
+            onPress={addCustomTag}
+            variant="outline"
+            size="small"
+          />
+        </View>
+
+        {/* Capacity */}
+        <Text style={styles.label}>Max participants</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="No limit"
+          value={values.maxParticipant}
+          onChangeText={(text) =>
+            update('maxParticipant', text.replace(/\D/g, ''))
+          }
+          keyboardType="number-pad"
+        />
+
+        {/* Event Roles */}
+        <Text style={styles.label}>Co-hosts & speakers</Text>
+        {values.eventRoles.map((role, index) =>
+          role._destroy ? null : (
+            <View key={`${role.role}-${role.item_id}`} style={styles.roleRow}>
+              {role.image_url ? (
+                <Image
+                  source={{ uri: role.image_url }}
+                  style={styles.roleAvatar}
+                />
+              ) : (
+                <View style={[styles.roleAvatar, styles.roleAvatarPlaceholder]}>
+                  <Ionicons
+                    name="person"
+                    size={16}
+                    color={colors.text.tertiary}
+                  />
+                </View>
+              )}
+              <View style={styles.roleInfo}>
+                <Text style={styles.roleName}>{role.nickname}</Text>
+                <Text style={styles.roleLabel}>
+                  {ROLE_OPTIONS.find((o) => o.role === role.role)?.label ||
+                    role.role}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleRemoveRole(index)}>
+                <Ionicons
+                  name="close-circle"
+                  size={22}
+                  color={colors.text.tertiary}
+                />
+              </TouchableOpacity>
+            </View>
+          )
+        )}
+        <View style={styles.chipRow}>
+          {ROLE_OPTIONS.map((option) =>
+            renderChip(
+              option.role,
+              option.label,
+              roleType === option.role,
+              () => setRoleType(option.role)
+            )
+          )}
+        </View>
+        <View style={styles.inlineRow}>
+          <TextInput
+            style={[styles.input, styles.inlineInput]}
+            placeholder="@handle"
+            value={roleHandle}
+            onChangeText={setRoleHandle}
+            onSubmitEditing={handleAddRole}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Button
+            title="Add"
+            onPress={handleAddRole}
+            loading={lookingUpRole}
+            variant="outline"
+            size="small"
+          />
+        </View>
+
+        <Button
+          title={submitLabel}
+          onPress={handleSubmit}
+          loading={submitting}
+          disabled={uploadingCover}
+          size="large"
+          style={styles.submitButton}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  coverPicker: {
+    height: 180,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 8,
+    backgroundColor: colors.background.tertiary,
+  },
+  coverImage: {
+    width: '100%',
+    height: '100%',
+  },
+  coverPlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coverPlaceholderText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: colors.text.tertiary,
+  },
+  coverOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text.primary,
+    marginBottom: 16,
+  },
+  multilineInput: {
+    minHeight: 140,
+  },
+  preview: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    minHeight: 140,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    backgroundColor: colors.background.tertiary,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.text.white,
+    fontWeight: '600',
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  inlineInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background.secondary,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  roleAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 12,
+  },
+  roleAvatarPlaceholder: {
+    backgroundColor: colors.background.tertiary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  roleInfo: {
+    flex: 1,
+  },
+  roleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  roleLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  submitButton: {
+    marginTop: 16,
+  },
+});
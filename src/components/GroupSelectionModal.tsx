@@ -11,7 +11,9 @@ import {
   Image,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Group } from '../types';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Group, RootStackParamList } from '../types';
 import { getAllGroups, getUserGroups, getAuthToken } from '../services/api';
 import { useGroup } from '../contexts/GroupContext';
 import { useAuth } from '../contexts/AuthContext';
@@ -37,6 +39,7 @@ const GroupSelectionModal: React.FC<GroupSelectionModalProps> = ({
     setIsLoading,
   } = useGroup();
   const { user } = useAuth();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const [localLoading, setLocalLoading] = useState(false);
 
   useEffect(() => {
@@ -82,6 +85,11 @@ const GroupSelectionModal: React.FC<GroupSelectionModalProps> = ({
     }
   };
 
+  const handleViewGroup = (groupId: number) => {
+    onClose();
+    navigation.navigate('GroupDetail', { groupId });
+  };
+
   const renderGroupItem = ({
     item,
     isUserGroup = false,
@@ -147,6 +155,12 @@ const GroupSelectionModal: React.FC<GroupSelectionModalProps> = ({
               >
                 {item.memberships_count || 0} members
               </Text>
+              <TouchableOpacity
+                onPress={() => handleViewGroup(item.id)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={styles.viewGroupText}>Members & info</Text>
+              </TouchableOpacity>
             </View>
           </View>
           {isSelected && (
@@ -352,6 +366,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.text.tertiary,
   },
+  viewGroupText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.primary,
+  },
   selectedIcon: {
     marginLeft: 8,
   },
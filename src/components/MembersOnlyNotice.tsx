@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Button from './Button';
+import { colors } from '../utils/colors';
+
+interface MembersOnlyNoticeProps {
+  // "view" hides a group's events, "join" only locks RSVPs
+  reason: 'view' | 'join';
+  onViewGroup: () => void;
+  style?: ViewStyle;
+}
+
+// Shown in place of events, or the RSVP button, when the group limits them
+// to its members
+export default function MembersOnlyNotice({
+  reason,
+  onViewGroup,
+  style,
+}: MembersOnlyNoticeProps) {
+  return (
+    <View style={[styles.container, style]}>
+      <Ionicons
+        name="lock-closed-outline"
+        size={reason === 'view' ? 48 : 28}
+        color={colors.text.tertiary}
+      />
+      <Text style={styles.title}>Members Only</Text>
+      <Text style={styles.description}>
+        {reason === 'view'
+          ? "This group's events are only visible to its members."
+          : 'Only members of this group can join its events.'}
+      </Text>
+      <Button
+        title="View Group"
+        onPress={onViewGroup}
+        variant="outline"
+        size="small"
+        style={styles.button}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 12,
+  },
+  description: {
+    fontSize: 15,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  button: {
+    marginTop: 16,
+  },
+});
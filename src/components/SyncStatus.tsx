@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSync } from '../contexts/SyncContext';
+import { colors } from '../utils/colors';
+import { formatTimeAgo } from '../utils/dateUtils';
+
+interface SyncStatusProps {
+  style?: ViewStyle;
+}
+
+// Last-synced indicator; tapping it syncs the selected group again
+export default function SyncStatus({ style }: SyncStatusProps) {
+  const { isOnline, isSyncing, lastSyncedAt, syncError, syncNow } = useSync();
+  const [, setTick] = useState(0);
+
+  // Keep the "x minutes ago" label current
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const syncedLabel = lastSyncedAt
+    ? `synced ${formatTimeAgo(lastSyncedAt)}`
+    : 'not synced yet';
+
+  let icon: keyof typeof Ionicons.glyphMap = 'cloud-done-outline';
+  let label = `Up to date · ${syncedLabel}`;
+  let offline = false;
+  if (!isOnline) {
+    icon = 'cloud-offline-outline';
+    label = `Offline · ${syncedLabel}`;
+    offline = true;
+  } else if (isSyncing) {
+    label = 'Syncing…';
+  } else if (syncError) {
+    icon = 'alert-circle-outline';
+    label = `Sync failed · ${syncedLabel}`;
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, offline && styles.offline, style]}
+      onPress={syncNow}
+      disabled={!isOnline || isSyncing}
+    >
+      {isSyncing ? (
+        <ActivityIndicator size="small" color={colors.text.secondary} />
+      ) : (
+        <Ionicons
+          name={icon}
+          size={16}
+          color={offline ? colors.status.warning : colors.text.secondary}
+        />
+      )}
+      <Text style={[styles.text, offline && styles.offlineText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.background.tertiary,
+  },
+  offline: {
+    backgroundColor: colors.status.warningBg,
+  },
+  text: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    marginLeft: 6,
+  },
+  offlineText: {
+    color: colors.status.warning,
+  },
+});
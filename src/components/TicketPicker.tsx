@@ -0,0 +1,254 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PaymentMethod, Ticket } from '../types';
+import { parseServerTime } from '../utils/timezone';
+import { colors } from '../utils/colors';
+
+interface TicketPickerProps {
+  tickets: Ticket[];
+  selectedTicketId: number | null;
+  selectedPaymentMethodId: number | null;
+  onSelectTicket: (ticketId: number) => void;
+  onSelectPaymentMethod: (paymentMethodId: number) => void;
+  disabled?: boolean;
+}
+
+// Prices are stored in the smallest unit of the payment token: cents for
+// Stripe, 6 decimals for stablecoins and 18 for native tokens
+function getPriceDecimals(method: PaymentMethod): number {
+  if (method.protocol === 'stripe') return 2;
+  if (/^(usdc|usdt)$/i.test(method.token_name || '')) {
+    return method.chain === 'bsc' ? 18 : 6;
+  }
+  return 18;
+}
+
+export function formatPaymentMethodPrice(method: PaymentMethod): string {
+  const amount = method.price / 10 ** getPriceDecimals(method);
+  const formatted = amount.toLocaleString('en-US', {
+    maximumFractionDigits: 4,
+  });
+
+  if (method.protocol === 'stripe') return `$${formatted}`;
+  return `${formatted} ${method.token_name || ''}`.trim();
+}
+
+export function isPaidTicket(ticket: Ticket): boolean {
+  return (ticket.payment_methods || []).some((method) => method.price > 0);
+}
+
+// Tickets that can't be picked right now, with the reason shown to the user
+function getUnavailableReason(ticket: Ticket): string | null {
+  if (ticket.quantity !== null && ticket.quantity <= 0) return 'Sold out';
+  if (ticket.end_time && parseServerTime(ticket.end_time) < new Date()) {
+    return 'Sales ended';
+  }
+  return null;
+}
+
+function formatTicketPrice(ticket: Ticket): string {
+  const paidMethods = (ticket.payment_methods || []).filter(
+    (method) => method.price > 0
+  );
+  if (paidMethods.length === 0) return 'Free';
+  return paidMethods.map(formatPaymentMethodPrice).join(' / ');
+}
+
+export default function TicketPicker({
+  tickets,
+  selectedTicketId,
+  selectedPaymentMethodId,
+  onSelectTicket,
+  onSelectPaymentMethod,
+  disabled,
+}: TicketPickerProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Tickets</Text>
+      {tickets.map((ticket) => {
+        const unavailableReason = getUnavailableReason(ticket);
+        const isSelected = ticket.id === selectedTicketId;
+        const paidMethods = (ticket.payment_methods || []).filter(
+          (method) => method.price > 0
+        );
+
+        return (
+          <TouchableOpacity
+            key={ticket.id}
+            style={[
+              styles.ticket,
+              isSelected && styles.ticketSelected,
+              !!unavailableReason && styles.ticketUnavailable,
+            ]}
+            onPress={() => onSelectTicket(ticket.id)}
+            disabled={disabled || !!unavailableReason}
+          >
+            <View style={styles.ticketHeader}>
+              <Ionicons
+                name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={isSelected ? colors.primary : colors.text.tertiary}
+              />
+              <Text style={styles.ticketTitle} numberOfLines={2}>
+                {ticket.title}
+              </Text>
+              <Text style={styles.ticketPrice}>
+                {formatTicketPrice(ticket)}
+              </Text>
+            </View>
+
+            {!!ticket.content && (
+              <Text style={styles.ticketContent} numberOfLines={3}>
+                {ticket.content}
+              </Text>
+            )}
+
+            <View style={styles.ticketMeta}>
+              {unavailableReason ? (
+                <Text style={[styles.metaText, styles.unavailableText]}>
+                  {unavailableReason}
+                </Text>
+              ) : (
+                ticket.quantity !== null && (
+                  <Text style={styles.metaText}>{ticket.quantity} left</Text>
+                )
+              )}
+              {ticket.need_approval && (
+                <Text style={styles.metaText}>Requires host approval</Text>
+              )}
+              {!!ticket.tracks_allowed?.length && (
+                <Text style={styles.metaText}>
+                  Access to {ticket.tracks_allowed.length}{' '}
+                  {ticket.tracks_allowed.length === 1 ? 'track' : 'tracks'}
+                </Text>
+              )}
+            </View>
+
+            {/* Payment options for the selected ticket */}
+            {isSelected && paidMethods.length > 1 && (
+              <View style={styles.paymentMethods}>
+                {paidMethods.map((method) => {
+                  const isMethodSelected =
+                    method.id === selectedPaymentMethodId;
+                  return (
+                    <TouchableOpacity
+                      key={method.id}
+                      style={[
+                        styles.paymentMethod,
+                        isMethodSelected && styles.paymentMethodSelected,
+                      ]}
+                      onPress={() =>
+                        method.id && onSelectPaymentMethod(method.id)
+                      }
+                      disabled={disabled}
+                    >
+                      <Text
+                        style={[
+                          styles.paymentMethodText,
+                          isMethodSelected && styles.paymentMethodTextSelected,
+                        ]}
+                      >
+                        {formatPaymentMethodPrice(method)}
+                        {method.protocol !== 'stripe' && ` on ${method.chain}`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  ticket: {
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  ticketSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primaryLight,
+  },
+  ticketUnavailable: {
+    opacity: colors.disabled,
+  },
+  ticketHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ticketTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginLeft: 8,
+  },
+  ticketPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 8,
+  },
+  ticketContent: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  ticketMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  metaText: {
+    fontSize: 12,
+    color: colors.text.tertiary,
+    marginRight: 12,
+  },
+  unavailableText: {
+    color: colors.status.error,
+  },
+  paymentMethods: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  paymentMethod: {
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: colors.background.secondary,
+  },
+  paymentMethodSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  paymentMethodText: {
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  paymentMethodTextSelected: {
+    color: colors.text.white,
+  },
+});
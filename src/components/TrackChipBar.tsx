@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Track } from '../types';
+import { colors } from '../utils/colors';
+
+interface TrackChipBarProps {
+  tracks: Track[];
+  selectedTrackId: number | null;
+  onSelect: (trackId: number | null) => void;
+  // Opens the selected track's detail page
+  onTrackInfoPress?: (trackId: number) => void;
+  style?: ViewStyle;
+}
+
+// Horizontal track filter; renders nothing for groups without tracks
+export default function TrackChipBar({
+  tracks,
+  selectedTrackId,
+  onSelect,
+  onTrackInfoPress,
+  style,
+}: TrackChipBarProps) {
+  if (tracks.length === 0) return null;
+
+  const renderChip = (trackId: number | null, label: string) => {
+    const active = selectedTrackId === trackId;
+    return (
+      <TouchableOpacity
+        key={trackId ?? 'all'}
+        style={[styles.chip, active && styles.chipActive]}
+        onPress={() => onSelect(trackId)}
+      >
+        <Text style={[styles.chipText, active && styles.chipTextActive]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={style}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {renderChip(null, 'All tracks')}
+        {tracks.map((track) => renderChip(track.id, track.title))}
+      </ScrollView>
+      {selectedTrackId !== null && onTrackInfoPress && (
+        <TouchableOpacity
+          style={styles.infoLink}
+          onPress={() => onTrackInfoPress(selectedTrackId)}
+        >
+          <Ionicons
+            name="information-circle-outline"
+            size={16}
+            color={colors.primary}
+          />
+          <Text style={styles.infoLinkText}>About this track</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    paddingVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  infoLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 6,
+  },
+  infoLinkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 4,
+  },
+});
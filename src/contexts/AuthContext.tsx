@@ -5,8 +5,10 @@ import React, {
   useEffect,
   ReactNode,
 } from 'react';
+import { Platform } from 'react-native';
 import * as AuthSession from 'expo-auth-session';
 import * as Crypto from 'expo-crypto';
+import Constants from 'expo-constants';
 import {
   getAuthToken,
   storeAuthToken,
@@ -14,8 +16,11 @@ import {
   getProfileByToken,
   sendEmailPin,
   verifyEmailPin,
+  signInWithGoogleIdToken,
 } from '../services/api';
+import { WalletSigner, authenticateWithWallet } from '../services/walletAuth';
 import { starredEventsCache, attendingEventsCache } from '../services/caching';
+import { pendingActionsQueue } from '../services/mutationQueue';
 import { Profile } from '../types';
 
 interface AuthContextType {
@@ -26,6 +31,7 @@ interface AuthContextType {
   demoStarredEvents: Set<number>;
   demoAttendingEvents: Set<number>;
   signInWithGoogle: () => Promise<void>;
+  signInWithWallet: (signer: WalletSigner) => Promise<void>;
   signInWithEmail: (email: string) => Promise<void>;
   verifyPin: (email: string, pin: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -34,6 +40,127 @@ interface AuthContextType {
   toggleDemoAttendance: (eventId: number) => void;
 }
 
+export type GoogleSignInErrorReason =
+  'cancelled' | 'not_configured' | 'auth_failed' | 'exchange_failed';
+
+export class GoogleSignInError extends Error {
+  reason: GoogleSignInErrorReason;
+
+  constructor(reason: GoogleSignInErrorReason, message: string) {
+    super(message);
+    this.name = 'GoogleSignInError';
+    this.reason = reason;
+  }
+}
+
+const GOOGLE_DISCOVERY: AuthSession.DiscoveryDocument = {
+  authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenEndpoint: 'https://oauth2.googleapis.com/token',
+  revocationEndpoint: 'https://oauth2.googleapis.com/revoke',
+};
+
+const getGoogleClientId = (): string | undefined => {
+  const clientIds = Constants.expoConfig?.extra?.googleClientIds || {};
+  return Platform.select({
+    ios: clientIds.ios,
+    android: clientIds.android,
+    default: clientIds.web,
+  });
+};
+
+// Platforms without a client ID don't offer Google sign-in at all
+export const isGoogleSignInAvailable = (): boolean => !!getGoogleClientId();
+
+// Native client IDs redeem the code with PKCE alone. Web client IDs would
+// need a client secret for that, so the web build asks for the ID token
+// directly instead.
+const usesCodeFlow = Platform.OS === 'ios' || Platform.OS === 'android';
+
+// Google only redirects native clients to the reversed client ID scheme,
+// e.g. com.googleusercontent.apps.1234-abc:/oauthredirect
+const getGoogleRedirectUri = (clientId: string): string => {
+  const reversedClientId = clientId.split('.').reverse().join('.');
+  return AuthSession.makeRedirectUri({
+    native: `${reversedClientId}:/oauthredirect`,
+  });
+};
+
+// Runs the authorization code flow with PKCE (the implicit flow on web) and
+// returns Google's ID token
+const authenticateWithGoogle = async (): Promise<string> => {
+  const clientId = getGoogleClientId();
+  if (!clientId) {
+    throw new GoogleSignInError(
+      'not_configured',
+      'Google sign-in is not configured for this platform'
+    );
+  }
+
+  const redirectUri = getGoogleRedirectUri(clientId);
+  const request = new AuthSession.AuthRequest({
+    clientId,
+    scopes: ['openid', 'profile', 'email'],
+    responseType: usesCodeFlow
+      ? AuthSession.ResponseType.Code
+      : AuthSession.ResponseType.IdToken,
+    redirectUri,
+    usePKCE: usesCodeFlow,
+    state: Crypto.randomUUID(),
+    extraParams: usesCodeFlow
+      ? { prompt: 'select_account' }
+      : { prompt: 'select_account', nonce: Crypto.randomUUID() },
+  });
+
+  const result = await request.promptAsync(GOOGLE_DISCOVERY);
+
+  if (result.type === 'cancel' || result.type === 'dismiss') {
+    throw new GoogleSignInError('cancelled', 'Google sign-in was cancelled');
+  }
+  if (result.type === 'error') {
+    if (result.params.error === 'access_denied') {
+      throw new GoogleSignInError('cancelled', 'Google sign-in was cancelled');
+    }
+    throw new GoogleSignInError(
+      'auth_failed',
+      result.error?.message || 'Google sign-in failed'
+    );
+  }
+  if (result.type !== 'success') {
+    throw new GoogleSignInError('auth_failed', 'Google sign-in failed');
+  }
+  if (!usesCodeFlow) {
+    if (!result.params.id_token) {
+      throw new GoogleSignInError(
+        'auth_failed',
+        'No ID token returned by Google'
+      );
+    }
+    return result.params.id_token;
+  }
+
+  try {
+    const tokenResponse = await AuthSession.exchangeCodeAsync(
+      {
+        clientId,
+        code: result.params.code,
+        redirectUri,
+        extraParams: { code_verifier: request.codeVerifier || '' },
+      },
+      GOOGLE_DISCOVERY
+    );
+    if (!tokenResponse.idToken) {
+      throw new Error('No ID token returned by Google');
+    }
+    return tokenResponse.idToken;
+  } catch (error: any) {
+    console.error('Google code exchange error:', error);
+    throw new GoogleSignInError(
+      'auth_failed',
+      error?.message || 'Failed to complete Google sign-in'
+    );
+  }
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -173,56 +300,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       setActionLoading(true);
 
-      // For demo purposes, simulate Google OAuth flow
-      console.log('Demo: Simulating Google OAuth flow...');
-
-      // Create a demo token to simulate successful authentication
-      const demoToken = 'demo_auth_token_' + Date.now();
-
-      // Store the demo token
-      await storeAuthToken(demoToken);
-
-      // Create a demo user profile
-      const demoProfile = {
-        id: 1,
-        handle: 'demo_user',
-        nickname: 'Demo User',
-        about: 'Demo user signed in via Google OAuth',
-        email: 'demo@gmail.com',
-        verified: false,
-        status: 'active',
-      };
-
-      setUser(demoProfile);
-      setIsDemoMode(true);
-
-      // TODO: Replace with actual Google OAuth flow using AuthSession:
-      // const clientId = 'YOUR_GOOGLE_CLIENT_ID';
-      // const redirectUri = AuthSession.makeRedirectUri({ useProxy: true });
-      //
-      // const request = new AuthSession.AuthRequest({
-      //   clientId,
-      //   scopes: ['openid', 'profile', 'email'],
-      //   responseType: AuthSession.ResponseType.Code,
-      //   redirectUri,
-      //   additionalParameters: {},
-      //   state: await Crypto.digestStringAsync(
-      //     Crypto.CryptoDigestAlgorithm.SHA256,
-      //     redirectUri + Date.now(),
-      //     { encoding: Crypto.CryptoEncoding.BASE64URL }
-      //   ),
-      // });
-      //
-      // const result = await request.promptAsync({
-      //   authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
-      // });
-      //
-      // if (result.type === 'success') {
-      //   const authToken = await exchangeCodeForToken(result.params.code);
-      //   await storeAuthToken(authToken);
-      //   const profile = await getProfileByToken(authToken);
-      //   setUser(profile);
-      // }
+      const idToken = await authenticateWithGoogle();
+
+      let authToken: string;
+      try {
+        authToken = await signInWithGoogleIdToken(idToken);
+      } catch (error: any) {
+        throw new GoogleSignInError(
+          'exchange_failed',
+          error?.message || 'Failed to sign in with Google'
+        );
+      }
+      await storeAuthToken(authToken);
+
+      const profile = await getProfileByToken(authToken);
+      if (!profile) {
+        await removeAuthToken();
+        throw new GoogleSignInError(
+          'exchange_failed',
+          'Failed to get profile after authentication'
+        );
+      }
+      setUser(profile);
+      setIsDemoMode(false);
     } catch (error: any) {
       console.error('Google sign-in error:', error);
       throw error;
@@ -231,6 +331,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const signInWithWallet = async (signer: WalletSigner) => {
+    try {
+      setActionLoading(true);
+
+      const authToken = await authenticateWithWallet(signer);
+      await storeAuthToken(authToken);
+
+      const profile = await getProfileByToken(authToken);
+      if (!profile) {
+        await removeAuthToken();
+        throw new Error('Failed to get profile after authentication');
+      }
+      setUser(profile);
+      setIsDemoMode(false);
+    } catch (error: any) {
+      console.error('Wallet sign-in error:', error);
+      throw error;
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const signOut = async () => {
     try {
       setActionLoading(true);
@@ -241,6 +363,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         await starredEventsCache.clear(user.id);
         await attendingEventsCache.clear(user.id);
       }
+      await pendingActionsQueue.clear();
 
       setUser(null);
       setIsDemoMode(false);
@@ -301,6 +424,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     demoStarredEvents,
     demoAttendingEvents,
     signInWithGoogle,
+    signInWithWallet,
     signInWithEmail,
     verifyPin,
     signOut,
@@ -319,24 +443,3 @@ export const useAuth = (): AuthContextType => {
   }
   return context;
 };
-
-// TODO: Implement token exchange with your backend
-// const exchangeGoogleToken = async (googleIdToken: string): Promise<string> => {
-//   const API_URL = process.env.EXPO_PUBLIC_API_URL;
-//   const response = await fetch(`${API_URL}/auth/google`, {
-//     method: 'POST',
-//     headers: {
-//       'Content-Type': 'application/json',
-//     },
-//     body: JSON.stringify({
-//       idToken: googleIdToken,
-//     }),
-//   });
-//
-//   if (!response.ok) {
-//     throw new Error('Failed to exchange Google token');
-//   }
-//
-//   const data = await response.json();
-//   return data.authToken || data.auth_token || data.token;
-// };
@@ -0,0 +1,150 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import { useMyEvents } from '../services/events';
+import {
+  deviceCalendarSync,
+  expoCalendarAdapter,
+} from '../services/deviceCalendar';
+import { Event } from '../types';
+import { CalendarLinks } from '../utils/calendarSync';
+
+const CALENDAR_SETTINGS_KEY = 'calendar_sync_settings';
+
+interface CalendarSettings {
+  syncAttending: boolean;
+}
+
+const DEFAULT_SETTINGS: CalendarSettings = {
+  syncAttending: false,
+};
+
+interface CalendarSyncContextType extends CalendarSettings {
+  // Events that currently have an entry in the device calendar
+  isInCalendar: (eventId: number) => boolean;
+  // Resolve to false when calendar permission was denied
+  addToCalendar: (event: Event) => Promise<boolean>;
+  setSyncAttending: (enabled: boolean) => Promise<boolean>;
+  removeFromCalendar: (eventId: number) => Promise<void>;
+}
+
+const CalendarSyncContext = createContext<CalendarSyncContextType | undefined>(
+  undefined
+);
+
+export const useCalendarSync = (): CalendarSyncContextType => {
+  const context = useContext(CalendarSyncContext);
+  if (!context) {
+    throw new Error(
+      'useCalendarSync must be used within a CalendarSyncProvider'
+    );
+  }
+  return context;
+};
+
+interface CalendarSyncProviderProps {
+  children: ReactNode;
+}
+
+// Keeps events added to the device calendar up to date with Social Layer
+export const CalendarSyncProvider: React.FC<CalendarSyncProviderProps> = ({
+  children,
+}) => {
+  const { user, isDemoMode } = useAuth();
+  const [settings, setSettings] = useState<CalendarSettings>(DEFAULT_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [links, setLinks] = useState<CalendarLinks>({});
+  const { data: myEvents } = useMyEvents(isDemoMode ? undefined : user?.id);
+
+  useEffect(() => {
+    loadSettings();
+    deviceCalendarSync.getLinks().then(setLinks);
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(CALENDAR_SETTINGS_KEY);
+      if (stored) {
+        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+      }
+    } catch (error) {
+      console.error('Failed to load calendar settings:', error);
+    } finally {
+      setSettingsLoaded(true);
+    }
+  };
+
+  const saveSettings = async (next: CalendarSettings) => {
+    try {
+      await AsyncStorage.setItem(CALENDAR_SETTINGS_KEY, JSON.stringify(next));
+      setSettings(next);
+    } catch (error) {
+      console.error('Failed to save calendar settings:', error);
+      throw error;
+    }
+  };
+
+  const isInCalendar = useCallback(
+    (eventId: number) => !!links[eventId] && !links[eventId].dismissed,
+    [links]
+  );
+
+  const addToCalendar = async (event: Event) => {
+    if (!(await expoCalendarAdapter.requestAccess())) {
+      return false;
+    }
+    setLinks(await deviceCalendarSync.addEvent(event));
+    return true;
+  };
+
+  const removeFromCalendar = async (eventId: number) => {
+    setLinks(await deviceCalendarSync.removeEvent(eventId));
+  };
+
+  const setSyncAttending = async (enabled: boolean) => {
+    if (enabled && !(await expoCalendarAdapter.requestAccess())) {
+      return false;
+    }
+    await saveSettings({ ...settings, syncAttending: enabled });
+    return true;
+  };
+
+  // Runs whenever the user's events change, so moved events are updated,
+  // canceled RSVPs leave the calendar and new ones join it
+  useEffect(() => {
+    if (!settingsLoaded || (user && !myEvents)) return;
+
+    const events = myEvents ? [...myEvents.attending, ...myEvents.starred] : [];
+    deviceCalendarSync
+      .reconcile({
+        events,
+        attendingIds: new Set(myEvents?.attending.map((event) => event.id)),
+        syncAttending: settings.syncAttending && !!user,
+      })
+      .then(setLinks)
+      .catch((error) =>
+        console.error('Failed to update device calendar:', error)
+      );
+  }, [settingsLoaded, settings, user, myEvents]);
+
+  return (
+    <CalendarSyncContext.Provider
+      value={{
+        ...settings,
+        isInCalendar,
+        addToCalendar,
+        removeFromCalendar,
+        setSyncAttending,
+      }}
+    >
+      {children}
+    </CalendarSyncContext.Provider>
+  );
+};
@@ -0,0 +1,162 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import { useMyEvents } from '../services/events';
+import {
+  cancelAllReminders,
+  notifyWaitlistPromotion,
+  requestReminderPermission,
+  syncReminders,
+} from '../services/reminders';
+import { ReminderLeadMinutes, planReminders } from '../utils/reminders';
+import { findPromotions } from '../utils/waitlist';
+
+const REMINDER_SETTINGS_KEY = 'reminder_settings';
+// Waitlisted event ids as of the last check, per user
+const WAITLISTED_EVENTS_KEY = 'waitlisted_events';
+
+interface ReminderSettings {
+  enabled: boolean;
+  leadMinutes: ReminderLeadMinutes;
+}
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  enabled: false,
+  leadMinutes: 15,
+};
+
+interface ReminderContextType extends ReminderSettings {
+  // Resolves to false when notification permission was denied
+  setEnabled: (enabled: boolean) => Promise<boolean>;
+  setLeadMinutes: (leadMinutes: ReminderLeadMinutes) => Promise<void>;
+}
+
+const ReminderContext = createContext<ReminderContextType | undefined>(
+  undefined
+);
+
+export const useReminders = (): ReminderContextType => {
+  const context = useContext(ReminderContext);
+  if (!context) {
+    throw new Error('useReminders must be used within a ReminderProvider');
+  }
+  return context;
+};
+
+interface ReminderProviderProps {
+  children: ReactNode;
+}
+
+// Keeps local notifications in step with the user's starred and attended
+// events, and announces waitlist spots as they open up
+export const ReminderProvider: React.FC<ReminderProviderProps> = ({
+  children,
+}) => {
+  const { user, isDemoMode } = useAuth();
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const { data: myEvents } = useMyEvents(isDemoMode ? undefined : user?.id);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(REMINDER_SETTINGS_KEY);
+      if (stored) {
+        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+      }
+    } catch (error) {
+      console.error('Failed to load reminder settings:', error);
+    } finally {
+      setSettingsLoaded(true);
+    }
+  };
+
+  const saveSettings = async (next: ReminderSettings) => {
+    try {
+      await AsyncStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify(next));
+      setSettings(next);
+    } catch (error) {
+      console.error('Failed to save reminder settings:', error);
+      throw error;
+    }
+  };
+
+  const setEnabled = async (enabled: boolean) => {
+    if (enabled && !(await requestReminderPermission())) {
+      return false;
+    }
+    await saveSettings({ ...settings, enabled });
+    return true;
+  };
+
+  const setLeadMinutes = (leadMinutes: ReminderLeadMinutes) =>
+    saveSettings({ ...settings, leadMinutes });
+
+  // Re-plan whenever the events or settings change. Un-starred and
+  // un-RSVP'd events drop out of the plan and lose their reminder; moved
+  // events get a new one.
+  useEffect(() => {
+    if (!settingsLoaded) return;
+
+    const logError = (error: unknown) =>
+      console.error('Failed to update reminders:', error);
+
+    if (!settings.enabled || !user) {
+      cancelAllReminders().catch(logError);
+      return;
+    }
+    if (!myEvents) return;
+
+    const planned = planReminders(
+      [...myEvents.attending, ...myEvents.starred],
+      settings.leadMinutes
+    );
+    syncReminders(planned).catch(logError);
+  }, [settingsLoaded, settings, user, myEvents]);
+
+  // Promotions happen on the server when someone else cancels, so compare
+  // against the waitlist we saw last time. Stored, so a promotion that
+  // happened while the app was closed is still announced.
+  useEffect(() => {
+    if (!user || !myEvents) return;
+
+    const storageKey = `${WAITLISTED_EVENTS_KEY}_${user.id}`;
+    const checkPromotions = async () => {
+      const stored = await AsyncStorage.getItem(storageKey);
+      const promoted = findPromotions(
+        stored ? JSON.parse(stored) : [],
+        myEvents.attending.map((event) => event.id)
+      );
+      await Promise.all(
+        myEvents.attending
+          .filter((event) => promoted.includes(event.id))
+          .map(notifyWaitlistPromotion)
+      );
+      await AsyncStorage.setItem(
+        storageKey,
+        JSON.stringify(myEvents.waitlisted)
+      );
+    };
+
+    checkPromotions().catch((error) =>
+      console.error('Failed to check waitlist promotions:', error)
+    );
+  }, [user, myEvents]);
+
+  return (
+    <ReminderContext.Provider
+      value={{ ...settings, setEnabled, setLeadMinutes }}
+    >
+      {children}
+    </ReminderContext.Provider>
+  );
+};
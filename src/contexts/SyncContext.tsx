@@ -0,0 +1,167 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import { Alert, AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useQueryClient } from '@tanstack/react-query';
+import { useGroup } from './GroupContext';
+import { getAuthToken } from '../services/api';
+import { CACHE_TTL } from '../services/caching';
+import { QUERY_KEYS } from '../services/events';
+import { replayPendingActions } from '../services/mutationQueue';
+import { GroupSnapshot, offlineStore } from '../services/offlineStore';
+import { syncGroup } from '../services/sync';
+
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  syncError: string | null;
+  // Offline copy of the selected group's events, tracks and venues
+  snapshot: GroupSnapshot | null;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const useSync = (): SyncContextType => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { selectedGroupId } = useGroup();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<GroupSnapshot | null>(null);
+  const syncingGroupRef = useRef<number | null>(null);
+  const currentGroupRef = useRef(selectedGroupId);
+  currentGroupRef.current = selectedGroupId;
+
+  const syncNow = useCallback(async () => {
+    const groupId = selectedGroupId;
+    if (syncingGroupRef.current === groupId) return;
+
+    syncingGroupRef.current = groupId;
+    setIsSyncing(true);
+    try {
+      const synced = await syncGroup(groupId);
+      // The user may have switched groups while this sync was running
+      if (currentGroupRef.current === groupId) {
+        setSnapshot(synced);
+        setSyncError(null);
+      }
+    } catch (error: any) {
+      console.error('Sync error:', error);
+      if (currentGroupRef.current === groupId) {
+        setSyncError(error?.message || 'Sync failed');
+      }
+    } finally {
+      if (syncingGroupRef.current === groupId) {
+        syncingGroupRef.current = null;
+        setIsSyncing(false);
+      }
+    }
+  }, [selectedGroupId]);
+
+  // Send star/RSVP/check-in actions made while offline, then refresh what
+  // they touched
+  const replayQueuedActions = useCallback(async () => {
+    const authToken = await getAuthToken();
+    if (!authToken || authToken.startsWith('demo_auth_token_')) return;
+
+    const { confirmed, rejected } = await replayPendingActions(authToken);
+    if (confirmed === 0 && rejected.length === 0) return;
+
+    [
+      QUERY_KEYS.MY_EVENTS,
+      QUERY_KEYS.EVENT_DETAIL,
+      QUERY_KEYS.STARRED_EVENTS,
+      QUERY_KEYS.ATTENDING_EVENTS,
+      QUERY_KEYS.MY_PARTICIPATION,
+    ].forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+
+    if (rejected.length > 0) {
+      Alert.alert(
+        'Some Changes Were Not Saved',
+        `${rejected.length} action${rejected.length === 1 ? '' : 's'} made while offline could not be applied. Your events now show the latest state from the server.`
+      );
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    replayQueuedActions();
+  }, [replayQueuedActions]);
+
+  // Show the stored snapshot straight away, then bring it up to date
+  useEffect(() => {
+    let cancelled = false;
+    setSnapshot(null);
+    setSyncError(null);
+    offlineStore.get(selectedGroupId).then((stored) => {
+      if (!cancelled && stored) setSnapshot(stored);
+    });
+    syncNow();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedGroupId, syncNow]);
+
+  // Replay and sync again whenever connectivity comes back
+  useEffect(() => {
+    let wasOnline = true;
+    return NetInfo.addEventListener((state) => {
+      const online = state.isConnected !== false;
+      setIsOnline(online);
+      if (online && !wasOnline) {
+        replayQueuedActions();
+        syncNow();
+      }
+      wasOnline = online;
+    });
+  }, [replayQueuedActions, syncNow]);
+
+  // ...and when the app returns to the foreground with stale data
+  const lastSyncedAt = snapshot?.lastSyncedAt || null;
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      const age = lastSyncedAt
+        ? Date.now() - new Date(lastSyncedAt).getTime()
+        : Infinity;
+      if (state === 'active' && age > CACHE_TTL.FRESH) {
+        syncNow();
+      }
+    });
+    return () => subscription.remove();
+  }, [lastSyncedAt, syncNow]);
+
+  return (
+    <SyncContext.Provider
+      value={{
+        isOnline,
+        isSyncing,
+        lastSyncedAt,
+        syncError,
+        snapshot,
+        syncNow,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+};
@@ -0,0 +1,103 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useGroup } from './GroupContext';
+import { useGroupDetail } from '../services/groups';
+import { getDeviceTimezone, isValidTimezone } from '../utils/timezone';
+
+const TIMEZONE_MODE_KEY = 'timezone_display_mode';
+
+// 'event' shows times as the organizer scheduled them, 'device' converts them
+export type TimezoneMode = 'event' | 'device';
+
+interface TimezoneContextType {
+  mode: TimezoneMode;
+  setMode: (mode: TimezoneMode) => Promise<void>;
+  deviceTimezone: string;
+  // Zone used for day headers and calendar cells of the selected group
+  listTimezone: string;
+  // Zone to display a single event in
+  resolveTimezone: (eventTimezone?: string | null) => string;
+}
+
+const TimezoneContext = createContext<TimezoneContextType | undefined>(
+  undefined
+);
+
+export const useTimezone = (): TimezoneContextType => {
+  const context = useContext(TimezoneContext);
+  if (!context) {
+    throw new Error('useTimezone must be used within a TimezoneProvider');
+  }
+  return context;
+};
+
+interface TimezoneProviderProps {
+  children: ReactNode;
+}
+
+export const TimezoneProvider: React.FC<TimezoneProviderProps> = ({
+  children,
+}) => {
+  const { selectedGroupId } = useGroup();
+  const { data: selectedGroup } = useGroupDetail(selectedGroupId);
+  const [mode, setModeState] = useState<TimezoneMode>('event');
+  const deviceTimezone = getDeviceTimezone();
+
+  useEffect(() => {
+    loadMode();
+  }, []);
+
+  const loadMode = async () => {
+    try {
+      const storedMode = await AsyncStorage.getItem(TIMEZONE_MODE_KEY);
+      if (storedMode === 'event' || storedMode === 'device') {
+        setModeState(storedMode);
+      }
+    } catch (error) {
+      console.error('Failed to load timezone mode:', error);
+    }
+  };
+
+  const setMode = async (newMode: TimezoneMode) => {
+    try {
+      await AsyncStorage.setItem(TIMEZONE_MODE_KEY, newMode);
+      setModeState(newMode);
+    } catch (error) {
+      console.error('Failed to save timezone mode:', error);
+      throw error;
+    }
+  };
+
+  const groupTimezone = selectedGroup?.timezone;
+
+  const resolveTimezone = useCallback(
+    (eventTimezone?: string | null) => {
+      if (mode === 'device') return deviceTimezone;
+      if (eventTimezone && isValidTimezone(eventTimezone)) return eventTimezone;
+      if (groupTimezone && isValidTimezone(groupTimezone)) return groupTimezone;
+      return deviceTimezone;
+    },
+    [mode, groupTimezone, deviceTimezone]
+  );
+
+  return (
+    <TimezoneContext.Provider
+      value={{
+        mode,
+        setMode,
+        deviceTimezone,
+        listTimezone: resolveTimezone(),
+        resolveTimezone,
+      }}
+    >
+      {children}
+    </TimezoneContext.Provider>
+  );
+};
@@ -1,15 +1,21 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { View, ActivityIndicator } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import {
+  NavigationContainer,
+  createNavigationContainerRef,
+} from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
+import { useLastNotificationResponse } from 'expo-notifications';
 
 import { useAuth } from '../contexts/AuthContext';
 import { colors } from '../utils/colors';
+import { getReminderEventId } from '../services/reminders';
 
 import { RootStackParamList, TabParamList } from '../types';
 import DiscoverScreen from '../screens/DiscoverScreen';
+import MapScreen from '../screens/MapScreen';
 import SearchScreen from '../screens/SearchScreen';
 import CalendarScreen from '../screens/CalendarScreen';
 import MyEventsScreen from '../screens/MyEventsScreen';
@@ -17,7 +23,17 @@ import ProfileScreen from '../screens/ProfileScreen';
 import EventDetailScreen from '../screens/EventDetailScreen';
 import ParticipantsScreen from '../screens/ParticipantsScreen';
 import CreateEventScreen from '../screens/CreateEventScreen';
+import EditEventScreen from '../screens/EditEventScreen';
+import BadgeClassScreen from '../screens/BadgeClassScreen';
+import UserProfileScreen from '../screens/UserProfileScreen';
+import EditProfileScreen from '../screens/EditProfileScreen';
 import AuthScreen from '../screens/AuthScreen';
+import NearMeScreen from '../screens/NearMeScreen';
+import TrackDetailScreen from '../screens/TrackDetailScreen';
+import VenuesScreen from '../screens/VenuesScreen';
+import VenueDetailScreen from '../screens/VenueDetailScreen';
+import CheckInScreen from '../screens/CheckInScreen';
+import GroupDetailScreen from '../screens/GroupDetailScreen';
 
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<TabParamList>();
@@ -31,6 +47,8 @@ function TabNavigator() {
 
           if (route.name === 'Discover') {
             iconName = focused ? 'compass' : 'compass-outline';
+          } else if (route.name === 'Map') {
+            iconName = focused ? 'map' : 'map-outline';
           } else if (route.name === 'Search') {
             iconName = focused ? 'search' : 'search-outline';
           } else if (route.name === 'Calendar') {
@@ -61,6 +79,7 @@ function TabNavigator() {
         component={DiscoverScreen}
         options={{ title: 'Discover' }}
       />
+      <Tab.Screen name="Map" component={MapScreen} options={{ title: 'Map' }} />
       <Tab.Screen
         name="Search"
         component={SearchScreen}
@@ -85,8 +104,20 @@ function TabNavigator() {
   );
 }
 
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
 export default function AppNavigator() {
   const { user, loading } = useAuth();
+  const notificationResponse = useLastNotificationResponse();
+
+  // Open the event when a reminder is tapped
+  useEffect(() => {
+    if (!notificationResponse || loading) return;
+    const eventId = getReminderEventId(notificationResponse);
+    if (eventId && navigationRef.isReady()) {
+      navigationRef.navigate('EventDetail', { eventId });
+    }
+  }, [notificationResponse, loading]);
 
   if (loading) {
     return (
@@ -97,7 +128,7 @@ export default function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <Stack.Navigator
         initialRouteName="Main"
         screenOptions={{
@@ -130,6 +161,56 @@ export default function AppNavigator() {
           component={CreateEventScreen}
           options={{ title: 'Create Event' }}
         />
+        <Stack.Screen
+          name="EditEvent"
+          component={EditEventScreen}
+          options={{ title: 'Edit Event' }}
+        />
+        <Stack.Screen
+          name="UserProfile"
+          component={UserProfileScreen}
+          options={{ title: 'Profile' }}
+        />
+        <Stack.Screen
+          name="EditProfile"
+          component={EditProfileScreen}
+          options={{ title: 'Edit Profile' }}
+        />
+        <Stack.Screen
+          name="BadgeClass"
+          component={BadgeClassScreen}
+          options={{ title: 'Badge' }}
+        />
+        <Stack.Screen
+          name="NearMe"
+          component={NearMeScreen}
+          options={{ title: 'Near Me' }}
+        />
+        <Stack.Screen
+          name="TrackDetail"
+          component={TrackDetailScreen}
+          options={{ title: 'Track' }}
+        />
+        <Stack.Screen
+          name="Venues"
+          component={VenuesScreen}
+          options={{ title: 'Venues' }}
+        />
+        <Stack.Screen
+          name="VenueDetail"
+          component={VenueDetailScreen}
+          options={{ title: 'Venue' }}
+        />
+        <Stack.Screen
+          name="CheckIn"
+          component={CheckInScreen}
+          options={{ title: 'Check In' }}
+        />
+        <Stack.Screen
+          name="GroupDetail"
+          component={GroupDetailScreen}
+          options={{ title: 'Group' }}
+        />
         <Stack.Screen
           name="Auth"
           component={AuthScreen}
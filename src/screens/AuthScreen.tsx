@@ -13,15 +13,34 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import Button from '../components/Button';
 import PinVerification from '../components/PinVerification';
-import { useAuth } from '../contexts/AuthContext';
+import {
+  useAuth,
+  GoogleSignInError,
+  isGoogleSignInAvailable,
+} from '../contexts/AuthContext';
+import {
+  WalletSigner,
+  getAvailableWalletSigners,
+} from '../services/walletAuth';
 import { colors } from '../utils/colors';
 
+const walletSigners = getAvailableWalletSigners();
+const googleSignInAvailable = isGoogleSignInAvailable();
+
 export default function AuthScreen() {
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPinVerification, setShowPinVerification] = useState(false);
-  const { user, signInWithGoogle, signInWithEmail, verifyPin, actionLoading } =
-    useAuth();
+  const [googleError, setGoogleError] = useState<string | null>(null);
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const {
+    user,
+    signInWithGoogle,
+    signInWithWallet,
+    signInWithEmail,
+    verifyPin,
+    actionLoading,
+  } = useAuth();
   const navigation = useNavigation();
 
   // Automatically dismiss auth screen when user becomes authenticated
@@ -32,13 +51,41 @@ export default function AuthScreen() {
   }, [user, navigation]);
 
   const handleGoogleSignIn = async () => {
+    setGoogleError(null);
     try {
       await signInWithGoogle();
     } catch (error) {
-      Alert.alert(
-        'Sign In Error',
-        'Failed to sign in with Google. Please try again.',
-        [{ text: 'OK' }]
+      const reason =
+        error instanceof GoogleSignInError ? error.reason : 'auth_failed';
+      switch (reason) {
+        case 'cancelled':
+          setGoogleError('Google sign-in was cancelled.');
+          break;
+        case 'not_configured':
+          setGoogleError(
+            'Google sign-in is not available on this device. Please continue with email.'
+          );
+          break;
+        case 'exchange_failed':
+          setGoogleError(
+            "We couldn't sign you in to Social Layer with that Google account. Please try again or continue with email."
+          );
+          break;
+        default:
+          setGoogleError('Failed to sign in with Google. Please try again.');
+      }
+    }
+  };
+
+  const handleWalletSignIn = async (signer: WalletSigner) => {
+    setWalletError(null);
+    try {
+      await signInWithWallet(signer);
+    } catch (error) {
+      setWalletError(
+        error instanceof Error && error.message
+          ? `Wallet sign-in failed: ${error.message}`
+          : 'Wallet sign-in failed. Please try again.'
       );
     }
   };
@@ -171,6 +218,54 @@ export default function AuthScreen() {
         </View>
 
         <View style={styles.form}>
+          {googleSignInAvailable && (
+            <Button
+              title="Continue with Google"
+              onPress={handleGoogleSignIn}
+              loading={actionLoading && !isLoading}
+              disabled={isLoading}
+              size="large"
+              style={styles.googleButton}
+              textStyle={styles.googleButtonText}
+              icon={
+                <Ionicons
+                  name="logo-google"
+                  size={20}
+                  color={colors.text.primary}
+                />
+              }
+            />
+          )}
+          {!!googleError && <Text style={styles.errorText}>{googleError}</Text>}
+
+          {walletSigners.map((signer) => (
+            <Button
+              key={signer.id}
+              title={`Continue with ${signer.name}`}
+              onPress={() => handleWalletSignIn(signer)}
+              disabled={actionLoading || isLoading}
+              size="large"
+              variant="secondary"
+              style={styles.walletButton}
+              icon={
+                <Ionicons
+                  name="wallet-outline"
+                  size={20}
+                  color={colors.text.primary}
+                />
+              }
+            />
+          ))}
+          {!!walletError && <Text style={styles.errorText}>{walletError}</Text>}
+
+          {(googleSignInAvailable || walletSigners.length > 0) && (
+            <View style={styles.divider}>
+              <View style={styles.dividerLine} />
+              <Text style={styles.dividerText}>or</Text>
+              <View style={styles.dividerLine} />
+            </View>
+          )}
+
           <Text style={styles.inputLabel}>Email Address</Text>
           <TextInput
             style={styles.input}
@@ -270,6 +365,19 @@ const styles = StyleSheet.create({
   },
   googleButton: {
     backgroundColor: colors.google,
+    marginBottom: 12,
+  },
+  walletButton: {
+    marginBottom: 12,
+  },
+  googleButtonText: {
+    color: colors.text.primary,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.status.error,
+    textAlign: 'center',
+    marginBottom: 12,
   },
   divider: {
     flexDirection: 'row',
@@ -0,0 +1,261 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRoute, RouteProp } from '@react-navigation/native';
+
+import { RootStackParamList } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useBadgeClass, useBadgesByOwner } from '../services/badges';
+import { colors } from '../utils/colors';
+
+type BadgeClassRouteProp = RouteProp<RootStackParamList, 'BadgeClass'>;
+
+export default function BadgeClassScreen() {
+  const route = useRoute<BadgeClassRouteProp>();
+  const { user } = useAuth();
+  const { data: badgeClass, isLoading } = useBadgeClass(
+    route.params.badgeClassId
+  );
+  const { data: myBadges } = useBadgesByOwner(user?.id);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!badgeClass) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="ribbon-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.errorTitle}>Badge Not Found</Text>
+      </View>
+    );
+  }
+
+  const isHolder = !!myBadges?.some(
+    (badge) => badge.badge_class?.id === badgeClass.id
+  );
+  const creatorName =
+    badgeClass.creator?.nickname || badgeClass.creator?.handle || 'Unknown';
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <View style={styles.header}>
+        {badgeClass.image_url ? (
+          <Image
+            source={{ uri: badgeClass.image_url, cache: 'force-cache' }}
+            style={styles.image}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.image, styles.imagePlaceholder]}>
+            <Ionicons
+              name="ribbon-outline"
+              size={64}
+              color={colors.text.tertiary}
+            />
+          </View>
+        )}
+        <Text style={styles.title}>{badgeClass.title}</Text>
+        <Text style={styles.creator}>Created by {creatorName}</Text>
+        <View style={styles.stats}>
+          <Text style={styles.statText}>{badgeClass.counter || 0} issued</Text>
+          {badgeClass.transferable && (
+            <Text style={styles.statText}>• Transferable</Text>
+          )}
+        </View>
+        {isHolder && (
+          <View style={styles.holderBanner}>
+            <Ionicons
+              name="checkmark-circle"
+              size={18}
+              color={colors.status.success}
+            />
+            <Text style={styles.holderText}>You hold this badge</Text>
+          </View>
+        )}
+      </View>
+
+      {!!badgeClass.content && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>About This Badge</Text>
+          <Text style={styles.content}>{badgeClass.content}</Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Holders</Text>
+        {badgeClass.badges.length === 0 ? (
+          <Text style={styles.emptyText}>Nobody holds this badge yet.</Text>
+        ) : (
+          badgeClass.badges.map((badge) => (
+            <View key={badge.id} style={styles.holder}>
+              {badge.owner?.image_url ? (
+                <Image
+                  source={{ uri: badge.owner.image_url }}
+                  style={styles.avatar}
+                  resizeMode="cover"
+                />
+              ) : (
+                <View style={[styles.avatar, styles.avatarPlaceholder]}>
+                  <Ionicons
+                    name="person"
+                    size={20}
+                    color={colors.text.tertiary}
+                  />
+                </View>
+              )}
+              <View style={styles.holderInfo}>
+                <Text style={styles.holderName}>
+                  {badge.owner?.nickname || badge.owner?.handle || 'Anonymous'}
+                </Text>
+                {!!badge.owner?.handle && (
+                  <Text style={styles.holderHandle}>@{badge.owner.handle}</Text>
+                )}
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  header: {
+    backgroundColor: colors.background.secondary,
+    padding: 24,
+    alignItems: 'center',
+  },
+  image: {
+    width: 160,
+    height: 160,
+    borderRadius: 80,
+    backgroundColor: colors.background.tertiary,
+    marginBottom: 16,
+  },
+  imagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  creator: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginBottom: 8,
+  },
+  stats: {
+    flexDirection: 'row',
+  },
+  statText: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    marginHorizontal: 2,
+  },
+  holderBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.status.successBg,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 12,
+  },
+  holderText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.status.success,
+    marginLeft: 6,
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  content: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    lineHeight: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+  },
+  holder: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    backgroundColor: colors.background.tertiary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  holderInfo: {
+    flex: 1,
+  },
+  holderName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  holderHandle: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+});
@@ -18,7 +18,6 @@ import { EventWithJoinStatus, RootStackParamList } from '../types';
 import {
   apolloClient,
   getEventsForCalendar,
-  LOCAL_TIMEZONE,
   starEvent,
   unstarEvent,
   getAuthToken,
@@ -27,10 +26,30 @@ import Constants from 'expo-constants';
 
 const API_URL = Constants.expoConfig?.extra?.apiUrl;
 import EventCard from '../components/EventCard';
+import DayTimeline from '../components/DayTimeline';
+import SyncStatus from '../components/SyncStatus';
+import TrackChipBar from '../components/TrackChipBar';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { useMyEvents } from '../services/events';
+import { useVisibleTracks } from '../services/tracks';
+import { useGroupVenues } from '../services/venues';
+import { useGroupAccess } from '../services/groups';
+import { offlineStore, selectEvents } from '../services/offlineStore';
 import { formatEventTime } from '../utils/dateUtils';
 import { colors } from '../utils/colors';
+import { findConflicts, getMySchedule } from '../utils/conflicts';
+import { TimelineGrouping, buildTimeline } from '../utils/timeline';
+import {
+  getDateKey,
+  getLocalDateKey,
+  parseServerTime,
+} from '../utils/timezone';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useSync } from '../contexts/SyncContext';
+
+type DayView = 'list' | 'timeline';
 
 type CalendarScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -41,9 +60,16 @@ export default function CalendarScreen() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [refreshing, setRefreshing] = useState(false);
+  const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null);
+  const [dayView, setDayView] = useState<DayView>('list');
+  const [timelineGroupBy, setTimelineGroupBy] =
+    useState<TimelineGrouping>('venue');
   const navigation = useNavigation<CalendarScreenNavigationProp>();
-  const { user } = useAuth();
+  const { user, isDemoMode, demoStarredEvents, demoAttendingEvents } =
+    useAuth();
   const { selectedGroupId } = useGroup();
+  const { listTimezone } = useTimezone();
+  const { syncNow } = useSync();
   const queryClient = useQueryClient();
 
   // Update navigation title when selected date changes
@@ -72,7 +98,9 @@ export default function CalendarScreen() {
       const response = await fetch(starredUrl);
       if (response.ok) {
         const data = await response.json();
-        return new Set((data.events || []).map((event: any) => event.id));
+        return new Set<number>(
+          (data.events || []).map((event: any) => event.id)
+        );
       }
       return new Set<number>();
     },
@@ -83,6 +111,37 @@ export default function CalendarScreen() {
 
   const starredEvents = starredEventsData || new Set<number>();
 
+  // Attending and starred events, used to flag clashes on the selected day
+  const { data: myEvents } = useMyEvents(
+    user?.id,
+    isDemoMode,
+    demoStarredEvents,
+    demoAttendingEvents
+  );
+  const mySchedule = useMemo(() => getMySchedule(myEvents), [myEvents]);
+
+  const { data: tracks } = useVisibleTracks(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const tracksById = useMemo(
+    () => new Map(tracks.map((track) => [track.id, track])),
+    [tracks]
+  );
+
+  const { data: venues } = useGroupVenues(selectedGroupId);
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+
+  // A track from another group, or one the viewer's ticket does not cover
+  useEffect(() => {
+    if (selectedTrackId !== null && !tracksById.has(selectedTrackId)) {
+      setSelectedTrackId(null);
+    }
+  }, [selectedTrackId, tracksById]);
+
   // Pull-to-refresh handler that clears all caches
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -100,6 +159,7 @@ export default function CalendarScreen() {
 
       // Clear Apollo Client cache completely and refetch active queries
       await apolloClient.resetStore();
+      await syncNow();
 
       console.log('CalendarScreen: All caches cleared on refresh');
     } catch (error) {
@@ -107,7 +167,7 @@ export default function CalendarScreen() {
     } finally {
       setRefreshing(false);
     }
-  }, [queryClient]);
+  }, [queryClient, syncNow]);
 
   // Calculate date range for current month view to efficiently load only relevant events
   const getMonthDateRange = useCallback((date: Date) => {
@@ -150,28 +210,43 @@ export default function CalendarScreen() {
         startDate,
         endDate
       );
-      const result = await apolloClient.query({
-        query,
-        variables,
-        fetchPolicy: 'network-only',
-      });
-      return result.data.events as EventWithJoinStatus[];
+      try {
+        const result = await apolloClient.query({
+          query,
+          variables,
+          fetchPolicy: 'network-only',
+        });
+        return result.data.events as EventWithJoinStatus[];
+      } catch (error) {
+        // Serve the synced snapshot when the network is unavailable
+        const snapshot = await offlineStore.get(selectedGroupId);
+        if (!snapshot) throw error;
+        return selectEvents(snapshot, {
+          startDate,
+          endDate,
+        }) as EventWithJoinStatus[];
+      }
     },
   });
 
   // Memoized events mapping for better performance
   const eventsByDate = useMemo(() => {
-    if (!eventsData) return new Map<string, EventWithJoinStatus[]>();
+    if (!eventsData || !canViewEvents) {
+      return new Map<string, EventWithJoinStatus[]>();
+    }
 
     const dateMap = new Map<string, EventWithJoinStatus[]>();
 
     eventsData.forEach((event) => {
-      const eventDateObj = new Date(event.start_time);
-      // Use timezone-corrected date for comparison
-      const correctedEventDate = new Date(
-        eventDateObj.getTime() - 7 * 60 * 60 * 1000
+      if (selectedTrackId !== null && event.track_id !== selectedTrackId) {
+        return;
+      }
+
+      // Bucket by the event's calendar day in the display timezone
+      const dateStr = getDateKey(
+        parseServerTime(event.start_time),
+        listTimezone
       );
-      const dateStr = correctedEventDate.toDateString();
 
       if (!dateMap.has(dateStr)) {
         dateMap.set(dateStr, []);
@@ -180,12 +255,12 @@ export default function CalendarScreen() {
     });
 
     return dateMap;
-  }, [eventsData]);
+  }, [eventsData, canViewEvents, listTimezone, selectedTrackId]);
 
   // Optimized helper function to get events for a date
   const getEventsForDate = useCallback(
     (date: Date): EventWithJoinStatus[] => {
-      const dateStr = date.toDateString();
+      const dateStr = getLocalDateKey(date);
       return eventsByDate.get(dateStr) || [];
     },
     [eventsByDate]
@@ -305,6 +380,50 @@ export default function CalendarScreen() {
     return getEventsForDate(selectedDate);
   }, [selectedDate, getEventsForDate]);
 
+  const attendingIds = useMemo(
+    () => new Set((myEvents?.attending || []).map((event) => event.id)),
+    [myEvents]
+  );
+
+  // Rooms (venues) or tracks that have something on the selected day
+  const timelineGroupings = useMemo(() => {
+    const groupings: TimelineGrouping[] = [];
+    if (selectedDateEvents.some((event) => event.venue_id)) {
+      groupings.push('venue');
+    }
+    if (selectedDateEvents.some((event) => event.track_id)) {
+      groupings.push('track');
+    }
+    return groupings;
+  }, [selectedDateEvents]);
+  const activeGrouping = timelineGroupings.includes(timelineGroupBy)
+    ? timelineGroupBy
+    : timelineGroupings[0] || 'venue';
+
+  const timeline = useMemo(() => {
+    if (dayView !== 'timeline' || selectedDateEvents.length === 0) return null;
+
+    const columnTitles = new Map<number, string>(
+      activeGrouping === 'venue'
+        ? (venues || []).map((venue) => [venue.id, venue.title])
+        : tracks.map((track) => [track.id, track.title])
+    );
+    return buildTimeline(selectedDateEvents, {
+      dateKey: getLocalDateKey(selectedDate),
+      timezone: listTimezone,
+      groupBy: activeGrouping,
+      columnTitles,
+    });
+  }, [
+    dayView,
+    selectedDateEvents,
+    selectedDate,
+    activeGrouping,
+    venues,
+    tracks,
+    listTimezone,
+  ]);
+
   const handleEventPress = useCallback(
     (eventId: number) => {
       navigation.navigate('EventDetail', { eventId });
@@ -349,6 +468,17 @@ export default function CalendarScreen() {
   );
 
   const renderSelectedDateEvents = useMemo(() => {
+    if (!canViewEvents) {
+      return (
+        <MembersOnlyNotice
+          reason="view"
+          onViewGroup={() =>
+            navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+          }
+        />
+      );
+    }
+
     if (isLoading) {
       return (
         <View style={styles.loadingContainer}>
@@ -358,15 +488,36 @@ export default function CalendarScreen() {
       );
     }
 
+    if (timeline) {
+      return (
+        <DayTimeline
+          timeline={timeline}
+          starredIds={starredEvents}
+          attendingIds={attendingIds}
+          onEventPress={handleEventPress}
+        />
+      );
+    }
+
     if (selectedDateEvents.length > 0) {
       return (
         <View style={styles.eventsList}>
           {selectedDateEvents.map((event) => (
             <View key={event.id} style={styles.eventCardContainer}>
               <EventCard
-                event={{ ...event, is_starred: starredEvents.has(event.id) }}
+                event={{
+                  ...event,
+                  is_starred: starredEvents.has(event.id),
+                  track:
+                    event.track ||
+                    (event.track_id
+                      ? tracksById.get(event.track_id)
+                      : undefined),
+                }}
                 onPress={() => handleEventPress(event.id)}
                 onStarPress={() => handleStarPress(event.id)}
+                conflicts={findConflicts(event, mySchedule)}
+                onConflictPress={handleEventPress}
               />
             </View>
           ))}
@@ -388,9 +539,16 @@ export default function CalendarScreen() {
       </View>
     );
   }, [
+    canViewEvents,
+    selectedGroupId,
+    navigation,
     isLoading,
+    timeline,
+    attendingIds,
     selectedDateEvents,
     starredEvents,
+    mySchedule,
+    tracksById,
     handleEventPress,
     handleStarPress,
   ]);
@@ -407,11 +565,74 @@ export default function CalendarScreen() {
         />
       }
     >
+      <SyncStatus style={styles.syncStatus} />
+      <TrackChipBar
+        tracks={tracks}
+        selectedTrackId={selectedTrackId}
+        onSelect={setSelectedTrackId}
+        onTrackInfoPress={(trackId) =>
+          navigation.navigate('TrackDetail', { trackId })
+        }
+        style={styles.trackChips}
+      />
       <View style={styles.calendarContainer}>
         {renderCalendarHeader()}
         {renderWeekDays()}
         {renderCalendarDays()}
       </View>
+      {selectedDateEvents.length > 0 && (
+        <View style={styles.dayViewBar}>
+          <View style={styles.segmented}>
+            {(['list', 'timeline'] as DayView[]).map((view) => (
+              <TouchableOpacity
+                key={view}
+                style={[
+                  styles.segment,
+                  dayView === view && styles.segmentActive,
+                ]}
+                onPress={() => setDayView(view)}
+              >
+                <Ionicons
+                  name={view === 'list' ? 'list' : 'grid-outline'}
+                  size={14}
+                  color={dayView === view ? '#fff' : colors.text.secondary}
+                />
+                <Text
+                  style={[
+                    styles.segmentText,
+                    dayView === view && styles.segmentTextActive,
+                  ]}
+                >
+                  {view === 'list' ? 'List' : 'Timeline'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {dayView === 'timeline' && timelineGroupings.length > 1 && (
+            <View style={styles.segmented}>
+              {timelineGroupings.map((grouping) => (
+                <TouchableOpacity
+                  key={grouping}
+                  style={[
+                    styles.segment,
+                    activeGrouping === grouping && styles.segmentActive,
+                  ]}
+                  onPress={() => setTimelineGroupBy(grouping)}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      activeGrouping === grouping && styles.segmentTextActive,
+                    ]}
+                  >
+                    {grouping === 'venue' ? 'Rooms' : 'Tracks'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
       {renderSelectedDateEvents}
     </ScrollView>
   );
@@ -425,6 +646,46 @@ const styles = StyleSheet.create({
   contentContainer: {
     flexGrow: 1,
   },
+  syncStatus: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: -4,
+  },
+  trackChips: {
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  dayViewBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+    padding: 2,
+  },
+  segment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  segmentActive: {
+    backgroundColor: colors.primary,
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+    marginLeft: 4,
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
   calendarContainer: {
     backgroundColor: colors.background.secondary,
     margin: 16,
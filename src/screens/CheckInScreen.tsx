@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Participant, RootStackParamList } from '../types';
+import Button from '../components/Button';
+import { getAuthToken } from '../services/api';
+import {
+  useCheckInMutation,
+  useEventDetail,
+  usePendingActions,
+} from '../services/events';
+import { colors } from '../utils/colors';
+import { classifyScan, countCheckedIn } from '../utils/checkin';
+
+type CheckInRouteProp = RouteProp<RootStackParamList, 'CheckIn'>;
+type CheckInNavigationProp = StackNavigationProp<RootStackParamList, 'CheckIn'>;
+
+// The camera reports the same code many times a second while it's in view
+const RESCAN_DELAY_MS = 3000;
+
+type ScanFeedback = {
+  tone: 'success' | 'warning' | 'error';
+  title: string;
+  detail?: string;
+};
+
+const FEEDBACK_ICONS = {
+  success: 'checkmark-circle',
+  warning: 'alert-circle',
+  error: 'close-circle',
+} as const;
+
+const getName = (participant: {
+  profile?: { nickname?: string | null; handle?: string | null } | null;
+}) => participant.profile?.nickname || participant.profile?.handle || 'Guest';
+
+export default function CheckInScreen() {
+  const route = useRoute<CheckInRouteProp>();
+  const navigation = useNavigation<CheckInNavigationProp>();
+  const { eventId } = route.params;
+  const [permission, requestPermission] = useCameraPermissions();
+  const { data: event, isLoading } = useEventDetail(eventId);
+  const checkInMutation = useCheckInMutation();
+  const pendingActions = usePendingActions();
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const lastScanRef = useRef<{ data: string; at: number } | null>(null);
+
+  useEffect(() => {
+    if (event) navigation.setOptions({ title: `Check In · ${event.title}` });
+  }, [event, navigation]);
+
+  const participants = useMemo<Participant[]>(
+    () =>
+      (event?.participants || []).filter(
+        (p: Participant) => p.status !== 'cancelled'
+      ),
+    [event]
+  );
+  const pendingIds = useMemo(
+    () =>
+      new Set(
+        pendingActions
+          .filter(
+            (action) => action.type === 'checkin' && action.eventId === eventId
+          )
+          .map((action) => action.participantId!)
+      ),
+    [pendingActions, eventId]
+  );
+  const checkedInCount = countCheckedIn(participants, pendingIds);
+
+  const handleScan = async ({ data }: { data: string }) => {
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.data === data && now - last.at < RESCAN_DELAY_MS) return;
+    lastScanRef.current = { data, at: now };
+
+    const result = classifyScan(data, eventId, participants, pendingIds);
+    switch (result.kind) {
+      case 'invalid':
+        setFeedback({ tone: 'error', title: 'Not a check-in code' });
+        return;
+      case 'wrong_event':
+        setFeedback({
+          tone: 'error',
+          title: 'Wrong event',
+          detail: 'This code is for a different event.',
+        });
+        return;
+      case 'not_registered':
+        setFeedback({
+          tone: 'error',
+          title: 'Not on the guest list',
+          detail: 'This ticket was cancelled or never confirmed.',
+        });
+        return;
+      case 'already_checked_in':
+        setFeedback({
+          tone: 'warning',
+          title: 'Already checked in',
+          detail: getName(result.participant),
+        });
+        return;
+    }
+
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      setFeedback({ tone: 'error', title: 'Please sign in again' });
+      return;
+    }
+
+    const name = getName(result.participant);
+    checkInMutation.mutate(
+      { eventId, participantId: result.participant.id, authToken },
+      {
+        onSuccess: ({ queued }) =>
+          setFeedback({
+            tone: 'success',
+            title: `Checked in ${name}`,
+            detail: queued
+              ? "Saved offline, will sync when you're back online"
+              : undefined,
+          }),
+        onError: (error: any) =>
+          setFeedback({
+            tone: 'error',
+            title: `Couldn't check in ${name}`,
+            detail: error?.message,
+          }),
+      }
+    );
+  };
+
+  if (!permission || isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="camera-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.centeredTitle}>Camera Access Needed</Text>
+        <Text style={styles.centeredText}>
+          Allow camera access to scan attendees' check-in codes.
+        </Text>
+        <Button
+          title={permission.canAskAgain ? 'Allow Camera' : 'Open Settings'}
+          onPress={
+            permission.canAskAgain ? requestPermission : Linking.openSettings
+          }
+          style={styles.permissionButton}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleScan}
+      />
+
+      <View style={styles.counter}>
+        <Text style={styles.counterValue}>
+          {checkedInCount} / {participants.length}
+        </Text>
+        <Text style={styles.counterLabel}>checked in</Text>
+        {pendingIds.size > 0 && (
+          <View style={styles.pendingRow}>
+            <Ionicons name="cloud-offline-outline" size={14} color="#fff" />
+            <Text style={styles.pendingText}>
+              {pendingIds.size} waiting to sync
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.viewfinder} pointerEvents="none" />
+
+      <View style={styles.footer}>
+        {feedback ? (
+          <View
+            style={[
+              styles.feedback,
+              feedback.tone === 'success' && styles.feedbackSuccess,
+              feedback.tone === 'warning' && styles.feedbackWarning,
+              feedback.tone === 'error' && styles.feedbackError,
+            ]}
+          >
+            <Ionicons
+              name={FEEDBACK_ICONS[feedback.tone]}
+              size={28}
+              color={colors.text.primary}
+            />
+            <View style={styles.feedbackContent}>
+              <Text style={styles.feedbackTitle}>{feedback.title}</Text>
+              {!!feedback.detail && (
+                <Text style={styles.feedbackDetail}>{feedback.detail}</Text>
+              )}
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.hint}>
+            Point the camera at an attendee's check-in code
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  centeredTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  centeredText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  permissionButton: {
+    marginTop: 24,
+  },
+  counter: {
+    alignItems: 'center',
+    paddingTop: 24,
+  },
+  counterValue: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  counterLabel: {
+    fontSize: 14,
+    color: '#fff',
+    opacity: 0.8,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  pendingText: {
+    fontSize: 12,
+    color: '#fff',
+    marginLeft: 4,
+  },
+  viewfinder: {
+    alignSelf: 'center',
+    width: 240,
+    height: 240,
+    marginTop: 32,
+    borderWidth: 3,
+    borderColor: '#fff',
+    borderRadius: 16,
+  },
+  footer: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 32,
+  },
+  hint: {
+    fontSize: 15,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  feedback: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  feedbackSuccess: {
+    backgroundColor: colors.status.successBg,
+  },
+  feedbackWarning: {
+    backgroundColor: colors.status.warningBg,
+  },
+  feedbackError: {
+    backgroundColor: colors.status.errorBg,
+  },
+  feedbackContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  feedbackTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  feedbackDetail: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+});
@@ -1,16 +1,71 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Alert, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
 import Button from '../components/Button';
+import EventForm, {
+  EventFormValues,
+  getDefaultEventFormValues,
+  toEventDraft,
+} from '../components/EventForm';
+import { getAuthToken } from '../services/api';
+import { useCreateEventMutation } from '../services/events';
+import { useGroupDetail } from '../services/groups';
+import { RootStackParamList } from '../types';
+import { colors } from '../utils/colors';
+
+type CreateEventNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'CreateEvent'
+>;
 
 export default function CreateEventScreen() {
-  const navigation = useNavigation();
-  const { user } = useAuth();
+  const navigation = useNavigation<CreateEventNavigationProp>();
+  const { user, isDemoMode } = useAuth();
+  const { selectedGroupId } = useGroup();
+  const { data: selectedGroup, isLoading: isGroupLoading } =
+    useGroupDetail(selectedGroupId);
+  const createEventMutation = useCreateEventMutation();
+
+  const initialValues = useMemo(
+    () => getDefaultEventFormValues(selectedGroup?.timezone || undefined),
+    [selectedGroup?.timezone]
+  );
 
   const handleSignIn = () => {
-    navigation.navigate('Auth' as never);
+    navigation.navigate('Auth');
+  };
+
+  const handleSubmit = async (values: EventFormValues) => {
+    if (isDemoMode) {
+      Alert.alert('Demo Mode', 'Sign in with a real account to create events.');
+      return;
+    }
+
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      Alert.alert('Error', 'No authentication token found');
+      return;
+    }
+
+    createEventMutation.mutate(
+      { draft: toEventDraft(values, selectedGroupId), authToken },
+      {
+        onSuccess: (event) => {
+          navigation.replace('EventDetail', { eventId: event.id });
+        },
+        onError: (error: any) => {
+          console.error('Create event error:', error);
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to create event. Please try again.'
+          );
+        },
+      }
+    );
   };
 
   if (!user) {
@@ -32,16 +87,28 @@ export default function CreateEventScreen() {
     );
   }
 
-  return (
-    <View style={styles.container}>
-      <View style={styles.content}>
-        <Ionicons name="add-circle-outline" size={64} color="#ccc" />
-        <Text style={styles.title}>Create Event</Text>
-        <Text style={styles.description}>
-          This feature will allow you to create and manage events. Coming soon!
-        </Text>
+  // The form keeps its first values, so wait for the group's timezone
+  if (isGroupLoading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
       </View>
-    </View>
+    );
+  }
+
+  return (
+    <EventForm
+      initialValues={initialValues}
+      onSubmit={handleSubmit}
+      submitLabel="Create Event"
+      submitting={createEventMutation.isPending}
+      suggestedTags={selectedGroup?.event_tags || []}
+      suggestedTimezones={
+        selectedGroup?.timezone ? [selectedGroup.timezone] : []
+      }
+    />
   );
 }
 
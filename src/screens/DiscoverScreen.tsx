@@ -24,8 +24,15 @@ import {
 } from '../services/events';
 import EventCard from '../components/EventCard';
 import Button from '../components/Button';
+import SyncStatus from '../components/SyncStatus';
+import TrackChipBar from '../components/TrackChipBar';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useSync } from '../contexts/SyncContext';
+import { useVisibleTracks } from '../services/tracks';
+import { useGroupAccess } from '../services/groups';
 import { getEventStatus, groupEventsByDate } from '../utils/dateUtils';
 import { colors } from '../utils/colors';
 import Constants from 'expo-constants';
@@ -44,8 +51,11 @@ export default function DiscoverScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const starMutation = useStarEventMutation();
   const [eventFilter, setEventFilter] = useState<EventFilter>('upcoming');
+  const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null);
   const { user, isDemoMode, demoStarredEvents, toggleDemoStar } = useAuth();
   const { selectedGroupId, allGroups } = useGroup();
+  const { listTimezone } = useTimezone();
+  const { syncNow } = useSync();
   const queryClient = useQueryClient();
 
   console.log(
@@ -61,7 +71,31 @@ export default function DiscoverScreen() {
     hasNextPage,
     isFetchingNextPage,
     refetch,
-  } = useInfiniteEvents(selectedGroupId, eventFilter === 'upcoming');
+  } = useInfiniteEvents(
+    selectedGroupId,
+    eventFilter === 'upcoming',
+    selectedTrackId
+  );
+
+  const { data: tracks } = useVisibleTracks(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const tracksById = useMemo(
+    () => new Map(tracks.map((track) => [track.id, track])),
+    [tracks]
+  );
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+
+  // A track from another group, or one the viewer's ticket does not cover
+  useEffect(() => {
+    if (selectedTrackId !== null && !tracksById.has(selectedTrackId)) {
+      setSelectedTrackId(null);
+    }
+  }, [selectedTrackId, tracksById]);
 
   // Flatten infinite query data and deduplicate
   const filteredEvents = useMemo(() => {
@@ -116,10 +150,10 @@ export default function DiscoverScreen() {
   // Group events by date for upcoming view
   const groupedEvents = useMemo(() => {
     if (eventFilter === 'upcoming' && filteredEvents.length > 0) {
-      return groupEventsByDate(filteredEvents);
+      return groupEventsByDate(filteredEvents, listTimezone);
     }
     return null;
-  }, [filteredEvents, eventFilter]);
+  }, [filteredEvents, eventFilter, listTimezone]);
 
   useEffect(() => {
     if (error) {
@@ -155,6 +189,7 @@ export default function DiscoverScreen() {
 
       // Clear Apollo Client cache completely and refetch active queries
       await apolloClient.resetStore();
+      await syncNow();
 
       // Refetch current infinite query
       await refetch();
@@ -216,7 +251,13 @@ export default function DiscoverScreen() {
   const renderEventCard = ({ item }: { item: EventWithJoinStatus }) => (
     <View style={styles.eventCardContainer}>
       <EventCard
-        event={{ ...item, is_starred: isEventStarred(item.id) }}
+        event={{
+          ...item,
+          is_starred: isEventStarred(item.id),
+          track:
+            item.track ||
+            (item.track_id ? tracksById.get(item.track_id) : undefined),
+        }}
         onPress={() => handleEventPress(item.id)}
         onStarPress={() => handleStarPress(item.id)}
       />
@@ -244,16 +285,29 @@ export default function DiscoverScreen() {
     );
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Text style={styles.emptyStateTitle}>No Events Found</Text>
-      <Text style={styles.emptyStateDescription}>
-        {eventFilter === 'upcoming'
-          ? 'There are no upcoming events at the moment. Check back later!'
-          : 'No events found. Check back later!'}
-      </Text>
-    </View>
-  );
+  const renderEmptyState = () => {
+    if (!canViewEvents) {
+      return (
+        <MembersOnlyNotice
+          reason="view"
+          onViewGroup={() =>
+            navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+          }
+        />
+      );
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>No Events Found</Text>
+        <Text style={styles.emptyStateDescription}>
+          {eventFilter === 'upcoming'
+            ? 'There are no upcoming events at the moment. Check back later!'
+            : 'No events found. Check back later!'}
+        </Text>
+      </View>
+    );
+  };
 
   const renderError = () => (
     <View style={styles.errorState}>
@@ -314,6 +368,46 @@ export default function DiscoverScreen() {
         <Text style={styles.headerSubtitle}>
           Discover events in this community
         </Text>
+        <View style={styles.statusRow}>
+          <SyncStatus />
+          <View style={styles.shortcuts}>
+            <TouchableOpacity
+              style={styles.shortcutButton}
+              onPress={() =>
+                navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+              }
+            >
+              <Ionicons
+                name="people-outline"
+                size={14}
+                color={colors.primary}
+              />
+              <Text style={styles.shortcutText}>Group</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.shortcutButton}
+              onPress={() => navigation.navigate('Venues')}
+            >
+              <Ionicons
+                name="business-outline"
+                size={14}
+                color={colors.primary}
+              />
+              <Text style={styles.shortcutText}>Venues</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.shortcutButton}
+              onPress={() => navigation.navigate('NearMe')}
+            >
+              <Ionicons
+                name="navigate-outline"
+                size={14}
+                color={colors.primary}
+              />
+              <Text style={styles.shortcutText}>Near me</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
 
         {/* Event Filter Toggle */}
         <View style={styles.filterContainer}>
@@ -350,6 +444,16 @@ export default function DiscoverScreen() {
             </Text>
           </TouchableOpacity>
         </View>
+
+        <TrackChipBar
+          tracks={tracks}
+          selectedTrackId={selectedTrackId}
+          onSelect={setSelectedTrackId}
+          onTrackInfoPress={(trackId) =>
+            navigation.navigate('TrackDetail', { trackId })
+          }
+          style={styles.trackChips}
+        />
       </View>
       {renderSignInPrompt()}
     </View>
@@ -359,7 +463,7 @@ export default function DiscoverScreen() {
     <View style={styles.container}>
       {eventFilter === 'upcoming' && groupedEvents ? (
         <SectionList
-          sections={groupedEvents}
+          sections={canViewEvents ? groupedEvents : []}
           renderItem={renderEventCard}
           renderSectionHeader={renderSectionHeader}
           keyExtractor={(item) => item.id.toString()}
@@ -380,7 +484,7 @@ export default function DiscoverScreen() {
         />
       ) : (
         <FlatList
-          data={filteredEvents}
+          data={canViewEvents ? filteredEvents : []}
           renderItem={renderEventCard}
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.listContainer}
@@ -424,6 +528,33 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  trackChips: {
+    marginTop: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  shortcuts: {
+    flexDirection: 'row',
+  },
+  shortcutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.primaryLight,
+    marginLeft: 8,
+  },
+  shortcutText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 4,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+
+import EventForm, {
+  EventFormValues,
+  eventToFormValues,
+  toEventDraft,
+} from '../components/EventForm';
+import { useAuth } from '../contexts/AuthContext';
+import { getAuthToken } from '../services/api';
+import { useEventDetail, useUpdateEventMutation } from '../services/events';
+import { useGroupDetail } from '../services/groups';
+import { RootStackParamList } from '../types';
+import { colors } from '../utils/colors';
+
+type EditEventRouteProp = RouteProp<RootStackParamList, 'EditEvent'>;
+
+export default function EditEventScreen() {
+  const route = useRoute<EditEventRouteProp>();
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const parsedEventId = parseInt(route.params.eventId.toString(), 10);
+
+  // Always start editing from fresh server data. A cached copy shows up
+  // first, so the form waits for the refetch that starts on mount.
+  const {
+    data: event,
+    isLoading,
+    isFetchedAfterMount,
+  } = useEventDetail(parsedEventId, true);
+  const updateEventMutation = useUpdateEventMutation();
+
+  const initialValues = useMemo(
+    () => (event && isFetchedAfterMount ? eventToFormValues(event) : null),
+    [event?.id, isFetchedAfterMount]
+  );
+
+  const { data: eventGroup } = useGroupDetail(event?.group?.id ?? 0);
+
+  const handleSubmit = async (values: EventFormValues) => {
+    if (!event) return;
+
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      Alert.alert('Error', 'No authentication token found');
+      return;
+    }
+
+    const { group_id, ...changes } = toEventDraft(values, event.group.id);
+
+    updateEventMutation.mutate(
+      { eventId: event.id, changes, authToken },
+      {
+        onError: (error: any) => {
+          console.error('Update event error:', error);
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to update event. Please try again.'
+          );
+        },
+      }
+    );
+
+    // The mutation updates every cached copy of the event optimistically
+    navigation.goBack();
+  };
+
+  if (isLoading || (event && !initialValues)) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!event || !initialValues || event.owner?.id !== user?.id) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="lock-closed-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.message}>
+          Only the event host can edit this event.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <EventForm
+      initialValues={initialValues}
+      onSubmit={handleSubmit}
+      submitLabel="Save Changes"
+      submitting={updateEventMutation.isPending}
+      suggestedTags={eventGroup?.event_tags || []}
+      suggestedTimezones={eventGroup?.timezone ? [eventGroup.timezone] : []}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  message: {
+    marginTop: 16,
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+});
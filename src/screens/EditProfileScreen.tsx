@@ -0,0 +1,368 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import * as ImagePicker from 'expo-image-picker';
+
+import Button from '../components/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { getAuthToken, uploadFile } from '../services/api';
+import { useUpdateProfileMutation } from '../services/profiles';
+import { SocialMedia } from '../types';
+import { colors } from '../utils/colors';
+import { validateNickname, validateSocialLink } from '../utils/validation';
+
+const SOCIAL_FIELDS: {
+  key: keyof SocialMedia;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: 'twitter', label: 'X (Twitter)', placeholder: '@handle' },
+  { key: 'github', label: 'GitHub', placeholder: 'username' },
+  { key: 'farcaster', label: 'Farcaster', placeholder: 'username' },
+  { key: 'telegram', label: 'Telegram', placeholder: '@username' },
+  { key: 'discord', label: 'Discord', placeholder: 'username' },
+  { key: 'ens', label: 'ENS', placeholder: 'name.eth' },
+  { key: 'lens', label: 'Lens', placeholder: 'handle.lens' },
+  { key: 'nostr', label: 'Nostr', placeholder: 'npub1...' },
+  { key: 'website', label: 'Website', placeholder: 'https://example.com' },
+];
+
+const EMPTY_SOCIAL_LINKS: SocialMedia = {
+  twitter: null,
+  github: null,
+  discord: null,
+  ens: null,
+  lens: null,
+  nostr: null,
+  website: null,
+  farcaster: null,
+  telegram: null,
+};
+
+export default function EditProfileScreen() {
+  const navigation = useNavigation();
+  const { user, isDemoMode, refreshProfile } = useAuth();
+  const updateProfileMutation = useUpdateProfileMutation();
+
+  const [nickname, setNickname] = useState(user?.nickname || '');
+  const [about, setAbout] = useState(user?.about || '');
+  const [location, setLocation] = useState(user?.location || '');
+  const [imageUrl, setImageUrl] = useState(user?.image_url || null);
+  const [socialLinks, setSocialLinks] = useState<SocialMedia>({
+    ...EMPTY_SOCIAL_LINKS,
+    ...user?.social_links,
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+
+  const handlePickAvatar = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        'Permission Required',
+        'Please allow photo library access to change your avatar.'
+      );
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+
+    if (result.canceled || !result.assets?.length) return;
+
+    const asset = result.assets[0];
+    try {
+      setUploadingAvatar(true);
+      const authToken = await getAuthToken();
+      if (!authToken) {
+        throw new Error('No authentication token found');
+      }
+
+      const url = await uploadFile(
+        {
+          uri: asset.uri,
+          name: asset.fileName || `avatar-${Date.now()}.jpg`,
+          type: asset.mimeType || 'image/jpeg',
+        },
+        authToken
+      );
+      setImageUrl(url);
+    } catch (error) {
+      console.error('Avatar upload error:', error);
+      Alert.alert('Error', 'Failed to upload image. Please try again.');
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+
+    const nicknameError = validateNickname(nickname);
+    if (nicknameError) nextErrors.nickname = nicknameError;
+
+    SOCIAL_FIELDS.forEach(({ key }) => {
+      const error = validateSocialLink(key, socialLinks[key] || '');
+      if (error) nextErrors[key] = error;
+    });
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (isDemoMode) {
+      Alert.alert(
+        'Demo Mode',
+        'Sign in with a real account to edit your profile.'
+      );
+      return;
+    }
+
+    if (!validate()) return;
+
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      Alert.alert('Error', 'No authentication token found');
+      return;
+    }
+
+    const trimmedLinks = Object.fromEntries(
+      Object.entries(socialLinks).map(([key, value]) => [
+        key,
+        value?.trim() || null,
+      ])
+    ) as SocialMedia;
+
+    updateProfileMutation.mutate(
+      {
+        changes: {
+          nickname: nickname.trim(),
+          about: about.trim() || null,
+          location: location.trim() || null,
+          image_url: imageUrl,
+          social_links: trimmedLinks,
+        },
+        authToken,
+      },
+      {
+        onSuccess: async () => {
+          await refreshProfile();
+          navigation.goBack();
+        },
+        onError: (error: any) => {
+          console.error('Update profile error:', error);
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to update profile. Please try again.'
+          );
+        },
+      }
+    );
+  };
+
+  const updateSocialLink = (key: keyof SocialMedia, value: string) => {
+    setSocialLinks((links) => ({ ...links, [key]: value }));
+    if (errors[key]) {
+      setErrors(({ [key]: _removed, ...rest }) => rest);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Avatar */}
+        <TouchableOpacity
+          style={styles.avatarPicker}
+          onPress={handlePickAvatar}
+          disabled={uploadingAvatar}
+        >
+          {imageUrl ? (
+            <Image
+              source={{ uri: imageUrl }}
+              style={styles.avatar}
+              resizeMode="cover"
+            />
+          ) : (
+            <View style={[styles.avatar, styles.avatarPlaceholder]}>
+              <Ionicons name="person" size={48} color={colors.text.tertiary} />
+            </View>
+          )}
+          <View style={styles.avatarBadge}>
+            {uploadingAvatar ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Ionicons name="camera" size={16} color={colors.primary} />
+            )}
+          </View>
+        </TouchableOpacity>
+
+        <Text style={styles.label}>Display Name</Text>
+        <TextInput
+          style={[styles.input, !!errors.nickname && styles.inputError]}
+          value={nickname}
+          onChangeText={(text) => {
+            setNickname(text);
+            setErrors(({ nickname: _removed, ...rest }) => rest);
+          }}
+          placeholder="Your name"
+          placeholderTextColor={colors.text.tertiary}
+          maxLength={50}
+        />
+        {!!errors.nickname && (
+          <Text style={styles.errorText}>{errors.nickname}</Text>
+        )}
+
+        <Text style={styles.label}>About</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={about}
+          onChangeText={setAbout}
+          placeholder="Tell people a little about yourself"
+          placeholderTextColor={colors.text.tertiary}
+          multiline
+          textAlignVertical="top"
+          maxLength={500}
+        />
+
+        <Text style={styles.label}>Location</Text>
+        <TextInput
+          style={styles.input}
+          value={location}
+          onChangeText={setLocation}
+          placeholder="City, Country"
+          placeholderTextColor={colors.text.tertiary}
+        />
+
+        <Text style={styles.sectionTitle}>Social Links</Text>
+        {SOCIAL_FIELDS.map(({ key, label, placeholder }) => (
+          <View key={key}>
+            <Text style={styles.label}>{label}</Text>
+            <TextInput
+              style={[styles.input, !!errors[key] && styles.inputError]}
+              value={socialLinks[key] || ''}
+              onChangeText={(text) => updateSocialLink(key, text)}
+              placeholder={placeholder}
+              placeholderTextColor={colors.text.tertiary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType={key === 'website' ? 'url' : 'default'}
+            />
+            {!!errors[key] && (
+              <Text style={styles.errorText}>{errors[key]}</Text>
+            )}
+          </View>
+        ))}
+
+        <Button
+          title="Save Profile"
+          onPress={handleSave}
+          loading={updateProfileMutation.isPending}
+          disabled={uploadingAvatar}
+          size="large"
+          style={styles.saveButton}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  avatarPicker: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: colors.background.tertiary,
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarBadge: {
+    position: 'absolute',
+    bottom: 0,
+    right: 0,
+    backgroundColor: colors.background.secondary,
+    borderRadius: 16,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: colors.background.tertiary,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.secondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  inputError: {
+    borderColor: colors.status.error,
+  },
+  multilineInput: {
+    minHeight: 120,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.status.error,
+    marginBottom: 8,
+  },
+  saveButton: {
+    marginTop: 24,
+  },
+});
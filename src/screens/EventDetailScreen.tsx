@@ -12,32 +12,59 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Markdown from 'react-native-markdown-display';
+import QRCode from 'react-native-qrcode-svg';
 import {
   useRoute,
   RouteProp,
   useFocusEffect,
   useNavigation,
 } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
-import { RootStackParamList } from '../types';
+import { PaymentStatus, RootStackParamList, Ticket } from '../types';
 import { getAuthToken } from '../services/api';
 import {
   useEventDetail,
   useStarEventMutation,
   useRSVPMutation,
+  useCancelEventMutation,
+  useJoinWithTicketMutation,
+  useMyParticipation,
+  useMyEvents,
+  useEventWaitlist,
+  useWaitlistMutation,
 } from '../services/events';
+import { requestReminderPermission } from '../services/reminders';
+import { useGroupAccess } from '../services/groups';
+import { useBadgeClass } from '../services/badges';
+import { shareCalendar } from '../services/calendarExport';
 import Constants from 'expo-constants';
 
 const API_URL = Constants.expoConfig?.extra?.apiUrl;
 import Button from '../components/Button';
 import Badge from '../components/Badge';
+import TicketPicker, { isPaidTicket } from '../components/TicketPicker';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
 import { formatEventDuration, getEventStatus } from '../utils/dateUtils';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useCalendarSync } from '../contexts/CalendarSyncContext';
 import { colors } from '../utils/colors';
+import { findConflicts } from '../utils/conflicts';
+import { encodeCheckInCode } from '../utils/checkin';
+import {
+  formatWaitlistPosition,
+  getWaitlistPosition,
+  isEventFull,
+} from '../utils/waitlist';
 import { Share } from 'react-native';
 
 type EventDetailRouteProp = RouteProp<RootStackParamList, 'EventDetail'>;
+type EventDetailNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'EventDetail'
+>;
 
 interface HostAvatarProps {
   imageUrl: string;
@@ -107,12 +134,19 @@ function ActionButton({
 
 export default function EventDetailScreen() {
   const route = useRoute<EventDetailRouteProp>();
-  const navigation = useNavigation();
+  const navigation = useNavigation<EventDetailNavigationProp>();
   const { eventId } = route.params;
   const [isStarred, setIsStarred] = useState(false);
 
   const starMutation = useStarEventMutation();
   const rsvpMutation = useRSVPMutation();
+  const waitlistMutation = useWaitlistMutation();
+  const cancelEventMutation = useCancelEventMutation();
+  const joinWithTicketMutation = useJoinWithTicketMutation();
+  const [selectedTicketId, setSelectedTicketId] = useState<number | null>(null);
+  const [selectedPaymentMethodId, setSelectedPaymentMethodId] = useState<
+    number | null
+  >(null);
   const {
     user,
     isDemoMode,
@@ -122,6 +156,9 @@ export default function EventDetailScreen() {
     toggleDemoAttendance,
   } = useAuth();
   const { allGroups } = useGroup();
+  const { resolveTimezone } = useTimezone();
+  const { isInCalendar, addToCalendar, removeFromCalendar } = useCalendarSync();
+  const [calendarUpdating, setCalendarUpdating] = useState(false);
 
   const renderActionButtons = (hasCover: boolean) => {
     const containerStyle = hasCover
@@ -142,6 +179,11 @@ export default function EventDetailScreen() {
           onPress={handleOpenInBrowser}
           hasCover={hasCover}
         />
+        <ActionButton
+          iconName="calendar-outline"
+          onPress={handleExportToCalendar}
+          hasCover={hasCover}
+        />
         <ActionButton
           iconName="share-outline"
           onPress={handleShare}
@@ -170,6 +212,7 @@ export default function EventDetailScreen() {
       hosts.push({
         nickname: event.owner.nickname || event.owner.handle,
         image_url: event.owner.image_url,
+        handle: event.owner.handle,
         isPrimary: true,
         label: 'Event Host',
       });
@@ -177,16 +220,26 @@ export default function EventDetailScreen() {
 
     // Add co-hosts
     cohosts.forEach((cohost) => {
-      hosts.push({ ...cohost, isPrimary: false, label: 'Co-Host' });
+      hosts.push({
+        ...cohost,
+        handle: cohost.profile?.handle,
+        isPrimary: false,
+        label: 'Co-Host',
+      });
     });
 
     return hosts;
   };
 
   const renderHost = (host: any, index: number, isLast: boolean) => (
-    <View
+    <TouchableOpacity
       key={index}
       style={[styles.hostContainer, isLast && styles.lastHostContainer]}
+      onPress={() =>
+        host.handle &&
+        navigation.navigate('UserProfile', { handle: host.handle })
+      }
+      disabled={!host.handle}
     >
       {host.image_url ? (
         <HostAvatar imageUrl={host.image_url} hostName={host.nickname} />
@@ -199,7 +252,7 @@ export default function EventDetailScreen() {
         <Text style={styles.hostName}>{host.nickname}</Text>
         <Text style={styles.hostLabel}>{host.label}</Text>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 
   // Function to check if event is starred
@@ -252,6 +305,31 @@ export default function EventDetailScreen() {
     refetch,
   } = useEventDetail(parsedEventId);
 
+  const { data: myParticipation, refetch: refetchParticipation } =
+    useMyParticipation(parsedEventId, isDemoMode ? undefined : user?.id);
+  const paymentStatus = myParticipation?.payment_status as
+    PaymentStatus | null | undefined;
+  // Joined with a ticket that needs the host to approve it first
+  const isPendingApproval = myParticipation?.status === 'applied';
+  const isWaitlisted = myParticipation?.status === 'waitlisted';
+  const { data: waitlist } = useEventWaitlist(parsedEventId, isWaitlisted);
+  const waitlistPosition =
+    user && waitlist ? getWaitlistPosition(waitlist, user.id) : null;
+  const { data: myEvents } = useMyEvents(
+    user?.id,
+    isDemoMode,
+    demoStarredEvents,
+    demoAttendingEvents
+  );
+  const { data: badgeClass } = useBadgeClass(event?.badge_class_id);
+  const groupAccess = useGroupAccess(
+    event?.group?.id ?? 0,
+    isDemoMode ? undefined : user?.id
+  );
+  const ticketOptions: Ticket[] =
+    event?.tickets?.filter((ticket: Ticket) => ticket.status !== 'deleted') ||
+    [];
+
   // Check star status when screen comes into focus
   useFocusEffect(
     useCallback(() => {
@@ -281,7 +359,43 @@ export default function EventDetailScreen() {
     );
   };
 
-  const handleRSVP = async () => {
+  // A full event takes a place in line instead of an RSVP. Demo mode has no
+  // server to keep a waitlist.
+  const canJoinWaitlist = () =>
+    !!event &&
+    !isDemoMode &&
+    isEventFull(event) &&
+    !isUserAttending() &&
+    !isWaitlisted;
+
+  // Warn before joining an event that clashes with one already attended
+  const handleRSVP = () => {
+    const conflicts =
+      user && event && !isUserAttending() && !isWaitlisted
+        ? findConflicts(event, myEvents?.attending || [])
+        : [];
+    if (conflicts.length === 0) {
+      submitRSVP();
+      return;
+    }
+
+    const titles = conflicts.map((conflict) => `• ${conflict.title}`);
+    Alert.alert(
+      'Schedule Conflict',
+      `This event overlaps with ${conflicts.length === 1 ? 'an event' : 'events'} you're attending:\n\n${titles.join('\n')}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: conflicts.length === 1 ? 'View Conflict' : 'View First',
+          onPress: () =>
+            navigation.push('EventDetail', { eventId: conflicts[0].id }),
+        },
+        { text: 'RSVP Anyway', onPress: submitRSVP },
+      ]
+    );
+  };
+
+  const submitRSVP = async () => {
     if (!user) {
       Alert.alert('Sign In Required', 'Please sign in to RSVP to events.', [
         { text: 'Cancel', style: 'cancel' },
@@ -315,35 +429,239 @@ export default function EventDetailScreen() {
         throw new Error('No authentication token found');
       }
 
+      if (isWaitlisted || canJoinWaitlist()) {
+        handleWaitlist(authToken, user.id);
+        return;
+      }
+
       const currentlyAttending = isUserAttending();
 
+      // Ticketed events are joined through the ticket the user picked
+      if (!currentlyAttending && ticketOptions.length > 0) {
+        handleJoinWithTicket(authToken, user.id);
+        return;
+      }
+
       // Use optimistic mutation for instant UI updates
-      rsvpMutation.mutate({
-        eventId: eventIdInt,
-        isAttending: currentlyAttending,
-        authToken,
-        userId: user.id,
-      }, {
+      rsvpMutation.mutate(
+        {
+          eventId: eventIdInt,
+          isAttending: currentlyAttending,
+          authToken,
+          userId: user.id,
+        },
+        {
+          onSuccess: () => {
+            // Show success message based on the action taken
+            if (currentlyAttending) {
+              // The device calendar entry goes with the RSVP
+              removeFromCalendar(eventIdInt).catch((error) =>
+                console.error('Calendar remove error:', error)
+              );
+              Alert.alert(
+                'Canceled',
+                'You have canceled your RSVP for this event.'
+              );
+            } else {
+              Alert.alert('Success', "Successfully RSVP'd to event!");
+            }
+          },
+          onError: (error: any) => {
+            console.error('RSVP error:', error);
+            const message =
+              error?.message || 'Failed to update RSVP. Please try again.';
+            Alert.alert('Error', message);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error('RSVP setup error:', error);
+      Alert.alert('Error', 'Failed to initialize RSVP. Please try again.');
+    }
+  };
+
+  const handleWaitlist = (authToken: string, userId: number) => {
+    const leave = isWaitlisted;
+    if (!leave) {
+      // Asked now so the "you're in" notice can show up later
+      requestReminderPermission().catch((error) =>
+        console.error('Notification permission error:', error)
+      );
+    }
+
+    waitlistMutation.mutate(
+      { eventId: parsedEventId, leave, authToken, userId },
+      {
         onSuccess: () => {
-          // Show success message based on the action taken
-          if (currentlyAttending) {
-            Alert.alert('Canceled', 'You have canceled your RSVP for this event.');
+          if (leave) {
+            Alert.alert(
+              'Left Waitlist',
+              "You're no longer on the waitlist for this event."
+            );
+          } else {
+            Alert.alert(
+              'On the Waitlist',
+              "We'll let you know as soon as a spot opens up."
+            );
+          }
+        },
+        onError: (error: any) => {
+          console.error('Waitlist error:', error);
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to update the waitlist. Please try again.'
+          );
+        },
+      }
+    );
+  };
+
+  const getRSVPTitle = () => {
+    if (isPendingApproval) return 'Withdraw Request';
+    if (isWaitlisted) return 'Leave Waitlist';
+    if (canJoinWaitlist()) return 'Join Waitlist';
+    if (isUserAttending()) return 'Cancel RSVP';
+    if (ticketOptions.length === 0) return 'RSVP to Event';
+
+    const ticket = ticketOptions.find((t) => t.id === selectedTicketId);
+    return ticket && isPaidTicket(ticket) ? 'Buy Ticket' : 'Get Ticket';
+  };
+
+  const getRSVPNote = () => {
+    if (isPendingApproval) {
+      return "Your request is waiting for the host's approval";
+    }
+    if (isWaitlisted) {
+      return "You'll get a notice when the app next refreshes your events";
+    }
+    if (canJoinWaitlist()) {
+      return 'This event is full. Join the waitlist to get the next open spot';
+    }
+    if (isUserAttending()) return 'You are attending this event';
+    return 'You can change your RSVP status at any time';
+  };
+
+  const handleSelectTicket = (ticketId: number) => {
+    setSelectedTicketId(ticketId);
+    setSelectedPaymentMethodId(null);
+  };
+
+  const handleJoinWithTicket = (authToken: string, userId: number) => {
+    const ticket = ticketOptions.find((t) => t.id === selectedTicketId);
+    if (!ticket) {
+      Alert.alert('Select a Ticket', 'Please choose a ticket to join.');
+      return;
+    }
+
+    const paidMethods = (ticket.payment_methods || []).filter(
+      (method) => method.price > 0
+    );
+    const paymentMethodId =
+      paidMethods.length === 1
+        ? paidMethods[0].id
+        : (selectedPaymentMethodId ?? undefined);
+    if (paidMethods.length > 1 && !paymentMethodId) {
+      Alert.alert('Select Payment', 'Please choose how you want to pay.');
+      return;
+    }
+
+    joinWithTicketMutation.mutate(
+      {
+        eventId: parsedEventId,
+        ticketId: ticket.id,
+        paymentMethodId,
+        authToken,
+        userId,
+      },
+      {
+        onSuccess: ({ participant }) => {
+          if (!participant) {
+            Alert.alert(
+              "You're Offline",
+              'Your ticket will be claimed when you reconnect.'
+            );
+          } else if (participant.payment_status === 'pending') {
+            Alert.alert(
+              'Complete Payment',
+              'Your ticket is reserved. Finish the payment to confirm your spot.',
+              [
+                { text: 'Later', style: 'cancel' },
+                { text: 'Pay Now', onPress: handleCompletePayment },
+              ]
+            );
+          } else if (ticket.need_approval) {
+            Alert.alert(
+              'Request Sent',
+              'The host will review your ticket request.'
+            );
           } else {
             Alert.alert('Success', "Successfully RSVP'd to event!");
           }
         },
         onError: (error: any) => {
-          console.error('RSVP error:', error);
-          const message = error?.message || 'Failed to update RSVP. Please try again.';
-          Alert.alert('Error', message);
-        }
-      });
-    } catch (error: any) {
-      console.error('RSVP setup error:', error);
-      Alert.alert('Error', 'Failed to initialize RSVP. Please try again.');
+          console.error('Join with ticket error:', error);
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to get ticket. Please try again.'
+          );
+        },
+      }
+    );
+  };
+
+  const isOwner = !!user && !!event && event.owner?.id === user.id;
+
+  // Members-only groups lock their events for everyone else. People already
+  // on the guest list keep access, so leaving a group doesn't strand them.
+  const hasAccessAnyway = isOwner || !!myParticipation || isUserAttending();
+  const eventLocked = !hasAccessAnyway && !groupAccess.canViewEvents;
+  const joinLocked = !hasAccessAnyway && !groupAccess.canJoinEvents;
+
+  const viewGroup = () => {
+    if (event?.group) {
+      navigation.navigate('GroupDetail', { groupId: event.group.id });
     }
   };
 
+  const handleEditEvent = () => {
+    navigation.navigate('EditEvent', { eventId: parsedEventId });
+  };
+
+  const handleCancelEvent = () => {
+    Alert.alert(
+      'Cancel Event',
+      'Attendees will see this event as canceled. This cannot be undone.',
+      [
+        { text: 'Keep Event', style: 'cancel' },
+        {
+          text: 'Cancel Event',
+          style: 'destructive',
+          onPress: async () => {
+            const authToken = await getAuthToken();
+            if (!authToken) {
+              Alert.alert('Error', 'No authentication token found');
+              return;
+            }
+
+            cancelEventMutation.mutate(
+              { eventId: parsedEventId, authToken },
+              {
+                onError: (error: any) => {
+                  console.error('Cancel event error:', error);
+                  Alert.alert(
+                    'Error',
+                    error?.message ||
+                      'Failed to cancel event. Please try again.'
+                  );
+                },
+              }
+            );
+          },
+        },
+      ]
+    );
+  };
+
   const getEventUrl = () => {
     if (!event) return '';
 
@@ -353,6 +671,178 @@ export default function EventDetailScreen() {
     return `https://${groupHandle}.sola.day/event/detail/${event.id}`;
   };
 
+  // Crypto and card checkout live on the web app, which reports the result
+  // back to the server; the participation query polls until it settles
+  const handleCompletePayment = async () => {
+    try {
+      await Linking.openURL(getEventUrl());
+    } catch (error) {
+      console.error('Open checkout error:', error);
+      Alert.alert('Error', 'Failed to open checkout. Please try again.');
+    }
+  };
+
+  const renderPaymentStatus = () => {
+    if (!myParticipation || !paymentStatus) return null;
+    const ticketTitle = myParticipation.ticket?.title || 'your ticket';
+
+    if (paymentStatus === 'pending') {
+      return (
+        <View style={[styles.paymentStatus, styles.paymentPending]}>
+          <View style={styles.paymentStatusHeader}>
+            <Ionicons
+              name="time-outline"
+              size={20}
+              color={colors.status.warning}
+            />
+            <Text
+              style={[styles.paymentStatusTitle, styles.paymentPendingText]}
+            >
+              Payment Pending
+            </Text>
+          </View>
+          <Text style={styles.paymentStatusText}>
+            Complete the payment for {ticketTitle} to confirm your spot.
+          </Text>
+          <View style={styles.paymentActions}>
+            <Button
+              title="Complete Payment"
+              onPress={handleCompletePayment}
+              size="small"
+              style={styles.paymentActionButton}
+            />
+            <Button
+              title="Refresh"
+              onPress={() => refetchParticipation()}
+              variant="outline"
+              size="small"
+              style={styles.paymentActionButton}
+            />
+          </View>
+        </View>
+      );
+    }
+
+    if (paymentStatus === 'failed') {
+      return (
+        <View style={[styles.paymentStatus, styles.paymentFailed]}>
+          <View style={styles.paymentStatusHeader}>
+            <Ionicons
+              name="close-circle-outline"
+              size={20}
+              color={colors.status.error}
+            />
+            <Text style={[styles.paymentStatusTitle, styles.paymentFailedText]}>
+              Payment Failed
+            </Text>
+          </View>
+          <Text style={styles.paymentStatusText}>
+            The payment for {ticketTitle} didn't go through. Pick a ticket to
+            try again.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.paymentStatus, styles.paymentSucceeded]}>
+        <View style={styles.paymentStatusHeader}>
+          <Ionicons
+            name="checkmark-circle-outline"
+            size={20}
+            color={colors.status.success}
+          />
+          <Text
+            style={[styles.paymentStatusTitle, styles.paymentSucceededText]}
+          >
+            Paid
+          </Text>
+        </View>
+        <Text style={styles.paymentStatusText}>
+          Your payment for {ticketTitle} is confirmed.
+        </Text>
+      </View>
+    );
+  };
+
+  const renderApprovalStatus = () => {
+    if (!isPendingApproval) return null;
+
+    return (
+      <View style={[styles.paymentStatus, styles.paymentPending]}>
+        <View style={styles.paymentStatusHeader}>
+          <Ionicons
+            name="hourglass-outline"
+            size={20}
+            color={colors.status.warning}
+          />
+          <Text style={[styles.paymentStatusTitle, styles.paymentPendingText]}>
+            Pending Approval
+          </Text>
+        </View>
+        <Text style={styles.paymentStatusText}>
+          You've applied for {myParticipation?.ticket?.title || 'this event'}.
+          The host will review your request.
+        </Text>
+      </View>
+    );
+  };
+
+  const renderWaitlistStatus = () => {
+    if (!isWaitlisted) return null;
+
+    return (
+      <View style={[styles.paymentStatus, styles.paymentPending]}>
+        <View style={styles.paymentStatusHeader}>
+          <Ionicons
+            name="people-outline"
+            size={20}
+            color={colors.status.warning}
+          />
+          <Text style={[styles.paymentStatusTitle, styles.paymentPendingText]}>
+            On the Waitlist
+          </Text>
+        </View>
+        <Text style={styles.paymentStatusText}>
+          {waitlistPosition
+            ? `${formatWaitlistPosition(waitlistPosition)}. `
+            : ''}
+          If someone cancels, you'll be moved to attending automatically and
+          notified the next time the app refreshes your events.
+        </Text>
+      </View>
+    );
+  };
+
+  // Attendees show this at the door; hosts scan it from the check-in screen
+  const renderCheckInCode = () => {
+    if (
+      !myParticipation ||
+      !['attending', 'checked'].includes(myParticipation.status || '') ||
+      (paymentStatus && paymentStatus !== 'succeeded') ||
+      event?.status === 'cancel'
+    ) {
+      return null;
+    }
+
+    return (
+      <View style={styles.checkInCode}>
+        <Text style={styles.sectionTitle}>Your Check-in Code</Text>
+        <View style={styles.qrCode}>
+          <QRCode
+            value={encodeCheckInCode(parsedEventId, myParticipation.id)}
+            size={180}
+          />
+        </View>
+        <Text style={styles.checkInCodeText}>
+          {myParticipation.status === 'checked'
+            ? "You're checked in."
+            : 'Show this to a host when you arrive.'}
+        </Text>
+      </View>
+    );
+  };
+
   const handleShare = async () => {
     if (!event) return;
 
@@ -365,6 +855,38 @@ export default function EventDetailScreen() {
     }
   };
 
+  const handleExportToCalendar = async () => {
+    if (!event) return;
+
+    try {
+      await shareCalendar([event], event.title);
+    } catch (error) {
+      console.error('Calendar export error:', error);
+      Alert.alert('Error', 'Failed to export event. Please try again.');
+    }
+  };
+
+  const handleToggleCalendar = async () => {
+    if (!event) return;
+
+    setCalendarUpdating(true);
+    try {
+      if (isInCalendar(event.id)) {
+        await removeFromCalendar(event.id);
+      } else if (!(await addToCalendar(event))) {
+        Alert.alert(
+          'Calendar Access Needed',
+          'Allow calendar access in Settings to add events to your calendar.'
+        );
+      }
+    } catch (error) {
+      console.error('Device calendar error:', error);
+      Alert.alert('Error', 'Failed to update your calendar. Please try again.');
+    } finally {
+      setCalendarUpdating(false);
+    }
+  };
+
   const handleOpenInBrowser = async () => {
     if (!event) return;
 
@@ -503,11 +1025,19 @@ export default function EventDetailScreen() {
     );
   }
 
+  if (eventLocked) {
+    return (
+      <View style={styles.errorContainer}>
+        <MembersOnlyNotice reason="view" onViewGroup={viewGroup} />
+      </View>
+    );
+  }
+
   const eventStatus = getEventStatus(event.start_time, event.end_time);
   const duration = formatEventDuration(
     event.start_time,
     event.end_time,
-    event.timezone
+    resolveTimezone(event.timezone)
   );
 
   return (
@@ -604,6 +1134,25 @@ export default function EventDetailScreen() {
                 )}
               </View>
             </TouchableOpacity>
+            {!!event.venue_id && (
+              <TouchableOpacity
+                style={styles.venueLink}
+                onPress={() =>
+                  navigation.navigate('VenueDetail', {
+                    venueId: event.venue_id!,
+                  })
+                }
+              >
+                <Text style={styles.venueLinkText}>
+                  See what else is on here
+                </Text>
+                <Ionicons
+                  name="chevron-forward"
+                  size={16}
+                  color={colors.primary}
+                />
+              </TouchableOpacity>
+            )}
           </View>
         )}
 
@@ -619,6 +1168,7 @@ export default function EventDetailScreen() {
               <Text style={styles.infoValue}>
                 {event.participants_count} attending
                 {event.max_participant && ` • ${event.max_participant} max`}
+                {isEventFull(event) && ' • Full'}
               </Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color={colors.text.tertiary} />
@@ -647,25 +1197,165 @@ export default function EventDetailScreen() {
           </View>
         )}
 
+        {/* Attendance Badge */}
+        {badgeClass && (
+          <View style={styles.badgeSection}>
+            <Text style={styles.sectionTitle}>Attendance Badge</Text>
+            <TouchableOpacity
+              style={styles.badgeItem}
+              onPress={() =>
+                navigation.navigate('BadgeClass', {
+                  badgeClassId: badgeClass.id,
+                })
+              }
+            >
+              {badgeClass.image_url ? (
+                <Image
+                  source={{ uri: badgeClass.image_url, cache: 'force-cache' }}
+                  style={styles.badgeImage}
+                  resizeMode="cover"
+                />
+              ) : (
+                <View style={[styles.badgeImage, styles.badgeImagePlaceholder]}>
+                  <Ionicons
+                    name="ribbon-outline"
+                    size={28}
+                    color={colors.text.tertiary}
+                  />
+                </View>
+              )}
+              <View style={styles.infoText}>
+                <Text style={styles.infoTitle}>{badgeClass.title}</Text>
+                <Text style={styles.infoValue}>
+                  Attendees receive this badge as proof of attendance
+                </Text>
+              </View>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={colors.text.tertiary}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Host Actions */}
+        {isOwner && event.status !== 'cancel' && (
+          <View style={styles.hostActions}>
+            <Button
+              title="Check In Guests"
+              onPress={() =>
+                navigation.navigate('CheckIn', { eventId: parsedEventId })
+              }
+              icon={<Ionicons name="qr-code-outline" size={18} color="#fff" />}
+              style={styles.hostActionButton}
+            />
+            <Button
+              title="Edit Event"
+              onPress={handleEditEvent}
+              variant="outline"
+              icon={
+                <Ionicons
+                  name="create-outline"
+                  size={18}
+                  color={colors.primary}
+                />
+              }
+              style={styles.hostActionButton}
+            />
+            <Button
+              title="Cancel Event"
+              onPress={handleCancelEvent}
+              loading={cancelEventMutation.isPending}
+              variant="ghost"
+              style={styles.hostActionButton}
+              textStyle={styles.cancelEventText}
+            />
+          </View>
+        )}
+
+        {/* Approval */}
+        {renderApprovalStatus()}
+
+        {/* Waitlist */}
+        {renderWaitlistStatus()}
+
+        {/* Payment */}
+        {renderPaymentStatus()}
+
+        {/* Check-in */}
+        {renderCheckInCode()}
+
+        {/* Tickets */}
+        {ticketOptions.length > 0 &&
+          !joinLocked &&
+          !isUserAttending() &&
+          !isWaitlisted &&
+          !canJoinWaitlist() &&
+          paymentStatus !== 'pending' &&
+          event.status !== 'cancel' && (
+            <TicketPicker
+              tickets={ticketOptions}
+              selectedTicketId={selectedTicketId}
+              selectedPaymentMethodId={selectedPaymentMethodId}
+              onSelectTicket={handleSelectTicket}
+              onSelectPaymentMethod={setSelectedPaymentMethodId}
+              disabled={joinWithTicketMutation.isPending}
+            />
+          )}
+
+        {/* Members-only */}
+        {joinLocked && event.status !== 'cancel' && (
+          <MembersOnlyNotice reason="join" onViewGroup={viewGroup} />
+        )}
+
         {/* RSVP Button */}
-        <View style={styles.rsvpContainer}>
+        {paymentStatus !== 'pending' && !joinLocked && (
+          <View style={styles.rsvpContainer}>
+            <Button
+              title={getRSVPTitle()}
+              onPress={handleRSVP}
+              loading={
+                rsvpMutation.isPending ||
+                joinWithTicketMutation.isPending ||
+                waitlistMutation.isPending
+              }
+              size="large"
+              style={[
+                styles.rsvpButton,
+                (isUserAttending() || isWaitlisted) && styles.cancelButton,
+              ]}
+              textStyle={
+                isUserAttending() || isWaitlisted
+                  ? styles.cancelButtonText
+                  : undefined
+              }
+            />
+            <Text style={styles.rsvpNote}>{getRSVPNote()}</Text>
+          </View>
+        )}
+
+        {/* Device Calendar */}
+        {event.status !== 'cancel' && (
           <Button
-            title={isUserAttending() ? 'Cancel RSVP' : 'RSVP to Event'}
-            onPress={handleRSVP}
-            loading={rsvpMutation.isPending}
-            size="large"
-            style={[
-              styles.rsvpButton,
-              isUserAttending() && styles.cancelButton,
-            ]}
-            textStyle={isUserAttending() ? styles.cancelButtonText : undefined}
+            title={
+              isInCalendar(event.id)
+                ? 'Remove from Calendar'
+                : 'Add to Calendar'
+            }
+            onPress={handleToggleCalendar}
+            loading={calendarUpdating}
+            variant="outline"
+            icon={
+              <Ionicons
+                name={isInCalendar(event.id) ? 'calendar' : 'calendar-outline'}
+                size={18}
+                color={colors.primary}
+              />
+            }
+            style={styles.calendarButton}
           />
-          <Text style={styles.rsvpNote}>
-            {isUserAttending()
-              ? 'You are attending this event'
-              : 'You can change your RSVP status at any time'}
-          </Text>
-        </View>
+        )}
       </View>
     </ScrollView>
   );
@@ -911,6 +1601,17 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginTop: 2,
   },
+  venueLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 36,
+    marginTop: 8,
+  },
+  venueLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   locationTap: {
     fontSize: 12,
     color: colors.primary,
@@ -929,6 +1630,23 @@ const styles = StyleSheet.create({
   tagsSection: {
     marginBottom: 32,
   },
+  badgeSection: {
+    marginBottom: 32,
+  },
+  badgeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  badgeImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: colors.background.tertiary,
+  },
+  badgeImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   tagsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -945,6 +1663,78 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.text.secondary,
   },
+  hostActions: {
+    marginBottom: 24,
+    paddingTop: 20,
+    borderTopWidth: 1,
+    borderTopColor: colors.background.tertiary,
+  },
+  hostActionButton: {
+    width: '100%',
+    marginBottom: 8,
+  },
+  cancelEventText: {
+    color: colors.status.error,
+  },
+  checkInCode: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  qrCode: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  checkInCodeText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginTop: 12,
+  },
+  paymentStatus: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  paymentPending: {
+    backgroundColor: colors.status.warningBg,
+  },
+  paymentFailed: {
+    backgroundColor: colors.status.errorBg,
+  },
+  paymentSucceeded: {
+    backgroundColor: colors.status.successBg,
+  },
+  paymentStatusHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  paymentStatusTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  paymentPendingText: {
+    color: colors.status.warning,
+  },
+  paymentFailedText: {
+    color: colors.status.error,
+  },
+  paymentSucceededText: {
+    color: colors.status.success,
+  },
+  paymentStatusText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  paymentActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  paymentActionButton: {
+    marginRight: 8,
+  },
   rsvpContainer: {
     alignItems: 'center',
   },
@@ -963,6 +1753,10 @@ const styles = StyleSheet.create({
     color: colors.text.tertiary,
     textAlign: 'center',
   },
+  calendarButton: {
+    width: '100%',
+    marginTop: 16,
+  },
   actionButtonsNoCover: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -0,0 +1,541 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { Membership, RootStackParamList } from '../types';
+import { getAuthToken } from '../services/api';
+import {
+  useGroupDetail,
+  useGroupMembers,
+  useGroupMembershipMutation,
+  useMyMembership,
+  useReviewMembershipMutation,
+} from '../services/groups';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import Button from '../components/Button';
+import Badge from '../components/Badge';
+import { colors } from '../utils/colors';
+import {
+  getGroupAccess,
+  getRoleLabel,
+  isActiveMember,
+  isGroupManager,
+  sortMembers,
+} from '../utils/groupAccess';
+
+type GroupDetailRouteProp = RouteProp<RootStackParamList, 'GroupDetail'>;
+type GroupDetailNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'GroupDetail'
+>;
+
+const getName = (membership: Membership) =>
+  membership.profile.nickname || membership.profile.handle || 'Anonymous';
+
+export default function GroupDetailScreen() {
+  const route = useRoute<GroupDetailRouteProp>();
+  const navigation = useNavigation<GroupDetailNavigationProp>();
+  const { groupId } = route.params;
+  const { user, isDemoMode } = useAuth();
+  const { selectedGroupId, setSelectedGroupId } = useGroup();
+  const { data: group, isLoading } = useGroupDetail(groupId);
+  const {
+    data: memberships = [],
+    isRefetching,
+    refetch: refetchMembers,
+  } = useGroupMembers(groupId);
+  const { data: myMembership, refetch: refetchMyMembership } = useMyMembership(
+    groupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const membershipMutation = useGroupMembershipMutation();
+  const reviewMutation = useReviewMembershipMutation();
+
+  useEffect(() => {
+    if (group) navigation.setOptions({ title: group.nickname || group.handle });
+  }, [group, navigation]);
+
+  const members = useMemo(
+    () => sortMembers(memberships.filter((m) => isActiveMember(m))),
+    [memberships]
+  );
+  const requests = memberships.filter((m) => m.status === 'pending');
+  const isMember = isActiveMember(myMembership);
+  const isPending = myMembership?.status === 'pending';
+  const isManager = isGroupManager(myMembership);
+  const access = getGroupAccess(group, myMembership);
+
+  const withAuthToken = async (action: (authToken: string) => void) => {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      Alert.alert('Error', 'Please sign in again to manage memberships.');
+      return;
+    }
+    action(authToken);
+  };
+
+  const updateMembership = (leave: boolean) =>
+    withAuthToken((authToken) =>
+      membershipMutation.mutate(
+        { groupId, leave, authToken },
+        {
+          onSuccess: async () => {
+            if (leave) return;
+            // Open groups add members straight away; others take a request
+            const { data } = await refetchMyMembership();
+            if (data?.status === 'pending') {
+              Alert.alert(
+                'Request Sent',
+                "The group's managers will review your request."
+              );
+            } else {
+              Alert.alert('Welcome', "You're now a member of this group.");
+            }
+          },
+          onError: (error: any) => {
+            Alert.alert(
+              'Error',
+              error?.message || 'Failed to update membership'
+            );
+          },
+        }
+      )
+    );
+
+  const handleJoin = () => {
+    if (!user || isDemoMode) {
+      navigation.navigate('Auth');
+      return;
+    }
+    updateMembership(false);
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      isPending ? 'Withdraw Request' : 'Leave Group',
+      isPending
+        ? 'Withdraw your request to join this group?'
+        : 'You may lose access to members-only events.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isPending ? 'Withdraw' : 'Leave',
+          style: 'destructive',
+          onPress: () => updateMembership(true),
+        },
+      ]
+    );
+  };
+
+  const handleReview = (
+    membership: Membership,
+    decision: 'accept' | 'reject'
+  ) =>
+    withAuthToken((authToken) =>
+      reviewMutation.mutate(
+        { groupId, membershipId: membership.id, decision, authToken },
+        {
+          onError: (error: any) => {
+            Alert.alert(
+              'Error',
+              error?.message || `Failed to update ${getName(membership)}`
+            );
+          },
+        }
+      )
+    );
+
+  const handleBrowseEvents = async () => {
+    await setSelectedGroupId(groupId);
+    navigation.navigate('Main');
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!group) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="people-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.errorTitle}>Group Not Found</Text>
+      </View>
+    );
+  }
+
+  const renderMembershipActions = () => {
+    if (myMembership?.role === 'owner') return null;
+
+    if (isPending) {
+      return (
+        <View style={styles.pendingCard}>
+          <View style={styles.pendingHeader}>
+            <Ionicons
+              name="hourglass-outline"
+              size={20}
+              color={colors.status.warning}
+            />
+            <Text style={styles.pendingTitle}>Request Pending</Text>
+          </View>
+          <Text style={styles.pendingText}>
+            A manager will review your request to join.
+          </Text>
+          <Button
+            title="Withdraw Request"
+            onPress={handleLeave}
+            variant="outline"
+            size="small"
+            loading={membershipMutation.isPending}
+            style={styles.pendingButton}
+          />
+        </View>
+      );
+    }
+
+    return isMember ? (
+      <Button
+        title="Leave Group"
+        onPress={handleLeave}
+        variant="ghost"
+        loading={membershipMutation.isPending}
+        textStyle={styles.leaveText}
+      />
+    ) : (
+      <Button
+        title={user && !isDemoMode ? 'Join Group' : 'Sign In to Join'}
+        onPress={handleJoin}
+        loading={membershipMutation.isPending}
+        icon={<Ionicons name="person-add-outline" size={18} color="#fff" />}
+      />
+    );
+  };
+
+  const renderRequest = (membership: Membership) => (
+    <View key={membership.id} style={styles.memberRow}>
+      <MemberAvatar membership={membership} />
+      <Text style={styles.memberName} numberOfLines={1}>
+        {getName(membership)}
+      </Text>
+      <TouchableOpacity
+        style={[styles.reviewButton, styles.rejectButton]}
+        onPress={() => handleReview(membership, 'reject')}
+        disabled={reviewMutation.isPending}
+      >
+        <Ionicons name="close" size={18} color={colors.status.error} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.reviewButton, styles.acceptButton]}
+        onPress={() => handleReview(membership, 'accept')}
+        disabled={reviewMutation.isPending}
+      >
+        <Ionicons name="checkmark" size={18} color={colors.status.success} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.header}>
+        {group.image_url ? (
+          <Image source={{ uri: group.image_url }} style={styles.groupImage} />
+        ) : (
+          <View style={[styles.groupImage, styles.groupImagePlaceholder]}>
+            <Ionicons name="people" size={32} color={colors.text.tertiary} />
+          </View>
+        )}
+        <Text style={styles.title}>{group.nickname || group.handle}</Text>
+        <Text style={styles.handle}>@{group.handle}</Text>
+        <Text style={styles.stats}>
+          {group.events_count || 0} events • {group.memberships_count || 0}{' '}
+          members
+          {group.location ? ` • ${group.location}` : ''}
+        </Text>
+        {!!group.about && <Text style={styles.about}>{group.about}</Text>}
+
+        {(!access.canViewEvents || !access.canJoinEvents) && (
+          <View style={styles.lockedNote}>
+            <Ionicons
+              name="lock-closed-outline"
+              size={16}
+              color={colors.text.secondary}
+            />
+            <Text style={styles.lockedNoteText}>
+              {access.canViewEvents
+                ? 'Only members can join events in this group'
+                : "This group's events are visible to members only"}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          {renderMembershipActions()}
+          {groupId !== selectedGroupId && access.canViewEvents && (
+            <Button
+              title="Browse Events"
+              onPress={handleBrowseEvents}
+              variant="outline"
+              style={styles.browseButton}
+            />
+          )}
+        </View>
+      </View>
+
+      {isManager && requests.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Membership Requests ({requests.length})
+          </Text>
+          {requests.map(renderRequest)}
+        </View>
+      )}
+
+      <Text style={styles.membersTitle}>Members ({members.length})</Text>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={members}
+      keyExtractor={(item) => item.id.toString()}
+      ListHeaderComponent={renderHeader}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={refetchMembers}
+          tintColor={colors.primary}
+        />
+      }
+      renderItem={({ item }) => (
+        <TouchableOpacity
+          style={[styles.memberRow, styles.memberItem]}
+          onPress={() =>
+            item.profile.handle &&
+            navigation.navigate('UserProfile', { handle: item.profile.handle })
+          }
+        >
+          <MemberAvatar membership={item} />
+          <Text style={styles.memberName} numberOfLines={1}>
+            {getName(item)}
+          </Text>
+          {item.role !== 'member' && (
+            <Badge
+              text={getRoleLabel(item.role)}
+              variant={item.role === 'owner' ? 'hosting' : 'default'}
+            />
+          )}
+        </TouchableOpacity>
+      )}
+      ListEmptyComponent={
+        <Text style={styles.emptyText}>No members to show yet.</Text>
+      }
+    />
+  );
+}
+
+function MemberAvatar({ membership }: { membership: Membership }) {
+  return membership.profile.image_url ? (
+    <Image
+      source={{ uri: membership.profile.image_url }}
+      style={styles.avatar}
+    />
+  ) : (
+    <View style={[styles.avatar, styles.avatarPlaceholder]}>
+      <Ionicons name="person" size={18} color={colors.text.tertiary} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  header: {
+    alignItems: 'center',
+    backgroundColor: colors.background.secondary,
+    padding: 20,
+  },
+  groupImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    marginBottom: 12,
+  },
+  groupImagePlaceholder: {
+    backgroundColor: colors.background.tertiary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  handle: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  stats: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    marginTop: 8,
+  },
+  about: {
+    fontSize: 15,
+    color: colors.text.secondary,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  lockedNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.background.tertiary,
+  },
+  lockedNoteText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginLeft: 6,
+  },
+  actions: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  browseButton: {
+    marginTop: 8,
+  },
+  leaveText: {
+    color: colors.status.error,
+  },
+  pendingCard: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: colors.status.warningBg,
+  },
+  pendingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pendingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.status.warning,
+    marginLeft: 6,
+  },
+  pendingText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+  pendingButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 4,
+  },
+  membersTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  memberItem: {
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.primary,
+    backgroundColor: colors.background.secondary,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    backgroundColor: colors.background.tertiary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  reviewButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  rejectButton: {
+    backgroundColor: colors.status.errorBg,
+  },
+  acceptButton: {
+    backgroundColor: colors.status.successBg,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    padding: 24,
+  },
+});
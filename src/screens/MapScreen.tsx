@@ -0,0 +1,542 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import MapView, { Marker, Region } from 'react-native-maps';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Event, RootStackParamList } from '../types';
+import Button from '../components/Button';
+import SyncStatus from '../components/SyncStatus';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useSync } from '../contexts/SyncContext';
+import { useGroupAccess } from '../services/groups';
+import { selectEvents } from '../services/offlineStore';
+import { formatEventTime, getEventStatus } from '../utils/dateUtils';
+import { colors } from '../utils/colors';
+import {
+  MapCluster,
+  MapPoint,
+  clusterPoints,
+  getEventCoordinate,
+  getRegionForCoordinates,
+} from '../utils/geo';
+import { getDateKey, parseServerTime } from '../utils/timezone';
+
+type MapScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Main'>;
+
+type StatusFilter = 'all' | 'upcoming' | 'ongoing' | 'past';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'ongoing', label: 'Now' },
+  { value: 'past', label: 'Past' },
+  { value: 'all', label: 'All' },
+];
+
+const formatDayLabel = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+export default function MapScreen() {
+  const navigation = useNavigation<MapScreenNavigationProp>();
+  const { user, isDemoMode } = useAuth();
+  const { selectedGroupId } = useGroup();
+  const { listTimezone, resolveTimezone } = useTimezone();
+  const { snapshot, isSyncing, syncError, syncNow } = useSync();
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('upcoming');
+  const [dayFilter, setDayFilter] = useState<string | null>(null);
+  const [selectedCluster, setSelectedCluster] =
+    useState<MapCluster<Event> | null>(null);
+
+  const { group: selectedGroup, canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+
+  // Start over when the group changes
+  useEffect(() => {
+    setRegion(null);
+    setDayFilter(null);
+  }, [selectedGroupId]);
+
+  const venuesById = useMemo(
+    () => new Map((snapshot?.venues || []).map((venue) => [venue.id, venue])),
+    [snapshot]
+  );
+
+  const statusEvents = useMemo(() => {
+    if (!snapshot) return [];
+    return selectEvents(snapshot).filter(
+      (event) =>
+        event.status !== 'cancel' &&
+        (statusFilter === 'all' ||
+          getEventStatus(event.start_time, event.end_time) === statusFilter)
+    );
+  }, [snapshot, statusFilter]);
+
+  const days = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          statusEvents.map((event) =>
+            getDateKey(parseServerTime(event.start_time), listTimezone)
+          )
+        )
+      ),
+    [statusEvents, listTimezone]
+  );
+
+  const { points, unmappedCount } = useMemo(() => {
+    const mapped: MapPoint<Event>[] = [];
+    let unmapped = 0;
+    statusEvents.forEach((event) => {
+      if (
+        dayFilter &&
+        getDateKey(parseServerTime(event.start_time), listTimezone) !==
+          dayFilter
+      ) {
+        return;
+      }
+      const coordinate = getEventCoordinate(event, venuesById);
+      if (coordinate) {
+        mapped.push({ item: event, coordinate });
+      } else {
+        unmapped += 1;
+      }
+    });
+    return { points: mapped, unmappedCount: unmapped };
+  }, [statusEvents, dayFilter, listTimezone, venuesById]);
+
+  const initialRegion = useMemo(
+    () =>
+      points.length > 0
+        ? getRegionForCoordinates(points.map((point) => point.coordinate))
+        : null,
+    [points]
+  );
+
+  const clusters = useMemo(() => {
+    const visibleRegion = region || initialRegion;
+    return visibleRegion ? clusterPoints(points, visibleRegion) : [];
+  }, [points, region, initialRegion]);
+
+  // Frame the events once they load and again when the filters change, but
+  // not on every background sync so a panned map stays put
+  const framedRef = useRef(false);
+  useEffect(() => {
+    framedRef.current = false;
+    setSelectedCluster(null);
+  }, [selectedGroupId, statusFilter, dayFilter]);
+
+  useEffect(() => {
+    if (initialRegion && !framedRef.current) {
+      framedRef.current = true;
+      mapRef.current?.animateToRegion(initialRegion, 300);
+    }
+  }, [initialRegion]);
+
+  const openEvent = (eventId: number) => {
+    navigation.navigate('EventDetail', { eventId });
+  };
+
+  const handleClusterPress = (cluster: MapCluster<Event>) => {
+    if (cluster.singleLocation) {
+      setSelectedCluster(cluster);
+    } else {
+      mapRef.current?.animateToRegion(cluster.region, 300);
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderMarker = (cluster: MapCluster<Event>) => {
+    if (cluster.items.length === 1) {
+      const event = cluster.items[0];
+      const { date, time } = formatEventTime(
+        event.start_time,
+        resolveTimezone(event.timezone)
+      );
+      return (
+        <Marker
+          key={`event-${event.id}`}
+          coordinate={cluster.coordinate}
+          title={event.title}
+          description={`${date} • ${time}${
+            event.location ? ` • ${event.location}` : ''
+          }`}
+          pinColor={colors.primary}
+          onCalloutPress={() => openEvent(event.id)}
+        />
+      );
+    }
+
+    return (
+      <Marker
+        key={`cluster-${cluster.id}-${cluster.items.length}`}
+        coordinate={cluster.coordinate}
+        onPress={() => handleClusterPress(cluster)}
+        tracksViewChanges={false}
+      >
+        <View style={styles.cluster}>
+          <Text style={styles.clusterText}>{cluster.items.length}</Text>
+        </View>
+      </Marker>
+    );
+  };
+
+  const renderClusterList = () => {
+    if (!selectedCluster) return null;
+
+    return (
+      <View style={styles.clusterList}>
+        <View style={styles.clusterListHeader}>
+          <Text style={styles.clusterListTitle} numberOfLines={1}>
+            {selectedCluster.items[0].location ||
+              `${selectedCluster.items.length} events here`}
+          </Text>
+          <TouchableOpacity onPress={() => setSelectedCluster(null)}>
+            <Ionicons name="close" size={22} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+        <ScrollView style={styles.clusterListScroll}>
+          {selectedCluster.items.map((event) => {
+            const { date, time } = formatEventTime(
+              event.start_time,
+              resolveTimezone(event.timezone)
+            );
+            return (
+              <TouchableOpacity
+                key={event.id}
+                style={styles.clusterListItem}
+                onPress={() => openEvent(event.id)}
+              >
+                <View style={styles.clusterListItemContent}>
+                  <Text style={styles.clusterListItemTitle} numberOfLines={1}>
+                    {event.title}
+                  </Text>
+                  <Text style={styles.clusterListItemTime}>
+                    {date} • {time}
+                  </Text>
+                </View>
+                <Ionicons
+                  name="chevron-forward"
+                  size={18}
+                  color={colors.text.tertiary}
+                />
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  if (selectedGroup && !selectedGroup.map_enabled) {
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="map-outline" size={64} color={colors.text.tertiary} />
+        <Text style={styles.emptyStateTitle}>Map Not Available</Text>
+        <Text style={styles.emptyStateDescription}>
+          {selectedGroup.nickname || selectedGroup.handle} hasn't enabled the
+          event map.
+        </Text>
+      </View>
+    );
+  }
+
+  if (!canViewEvents) {
+    return (
+      <View style={styles.emptyState}>
+        <MembersOnlyNotice
+          reason="view"
+          onViewGroup={() =>
+            navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+          }
+        />
+      </View>
+    );
+  }
+
+  if (!snapshot && syncError && !isSyncing) {
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons
+          name="cloud-offline-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.emptyStateTitle}>Couldn't Load Events</Text>
+        <Text style={styles.emptyStateDescription}>
+          The map needs a connection the first time. Please try again.
+        </Text>
+        <Button
+          title="Retry"
+          onPress={() => syncNow()}
+          style={styles.retryButton}
+        />
+      </View>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>Loading events...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filters}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {STATUS_FILTERS.map((filter) =>
+            renderChip(
+              filter.value,
+              filter.label,
+              statusFilter === filter.value,
+              () => {
+                setStatusFilter(filter.value);
+                setDayFilter(null);
+              }
+            )
+          )}
+        </ScrollView>
+        {days.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.chipRow}
+          >
+            {renderChip('all-days', 'All days', dayFilter === null, () =>
+              setDayFilter(null)
+            )}
+            {days.map((day) =>
+              renderChip(day, formatDayLabel(day), dayFilter === day, () =>
+                setDayFilter(day)
+              )
+            )}
+          </ScrollView>
+        )}
+      </View>
+
+      <View style={styles.mapContainer}>
+        <MapView
+          ref={mapRef}
+          style={styles.map}
+          initialRegion={initialRegion || undefined}
+          onRegionChangeComplete={setRegion}
+        >
+          {clusters.map(renderMarker)}
+        </MapView>
+
+        <View style={styles.overlay} pointerEvents="box-none">
+          <SyncStatus />
+          {!isSyncing && (points.length === 0 || unmappedCount > 0) && (
+            <View style={styles.notice}>
+              <Text style={styles.noticeText}>
+                {points.length === 0
+                  ? 'No events with a location match these filters'
+                  : `${unmappedCount} event${
+                      unmappedCount === 1 ? '' : 's'
+                    } without a location not shown`}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {renderClusterList()}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  filters: {
+    backgroundColor: colors.background.secondary,
+    paddingVertical: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  mapContainer: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  overlay: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+  },
+  notice: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: colors.background.secondary,
+  },
+  noticeText: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    paddingHorizontal: 8,
+    borderRadius: 18,
+    backgroundColor: colors.primary,
+    borderWidth: 2,
+    borderColor: colors.text.white,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clusterText: {
+    color: colors.text.white,
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  clusterList: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    maxHeight: '45%',
+    borderRadius: 12,
+    backgroundColor: colors.background.secondary,
+    paddingVertical: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 4,
+  },
+  clusterListHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  clusterListTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  clusterListScroll: {
+    flexGrow: 0,
+  },
+  clusterListItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.primary,
+  },
+  clusterListItemContent: {
+    flex: 1,
+  },
+  clusterListItemTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  clusterListItemTime: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateDescription: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  retryButton: {
+    minWidth: 120,
+    marginTop: 24,
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: colors.text.secondary,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,20 +10,25 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useCalendarSync } from '../contexts/CalendarSyncContext';
 import { useGroup } from '../contexts/GroupContext';
 import { getAuthToken } from '../services/api';
+import { shareCalendar } from '../services/calendarExport';
 import { useMyEvents, useStarEventMutation } from '../services/events';
 import Button from '../components/Button';
 import EventCard from '../components/EventCard';
-import { Event, EventWithJoinStatus } from '../types';
+import { Event, EventWithJoinStatus, RootStackParamList } from '../types';
 import { colors } from '../utils/colors';
+import { findConflicts, getMySchedule } from '../utils/conflicts';
 
 type EventTab = 'hosting' | 'attending' | 'starred';
 
 export default function MyEventsScreen() {
   const [activeTab, setActiveTab] = useState<EventTab>('attending');
-  const navigation = useNavigation();
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'Main'>>();
   const {
     user,
     isDemoMode,
@@ -32,6 +37,7 @@ export default function MyEventsScreen() {
     toggleDemoStar,
   } = useAuth();
   const { selectedGroupId } = useGroup();
+  const { syncAttending, setSyncAttending } = useCalendarSync();
 
   const starMutation = useStarEventMutation();
 
@@ -83,10 +89,16 @@ export default function MyEventsScreen() {
     refetch,
   } = useMyEvents(user?.id, isDemoMode, demoStarredEvents, demoAttendingEvents);
 
+  const mySchedule = useMemo(() => getMySchedule(myEvents), [myEvents]);
+
   const handleSignIn = () => {
     navigation.navigate('Auth' as never);
   };
 
+  const handleCreateEvent = () => {
+    navigation.navigate('CreateEvent' as never);
+  };
+
   const renderTabButton = (tab: EventTab, title: string, icon: string) => {
     const isActive = activeTab === tab;
 
@@ -133,6 +145,7 @@ export default function MyEventsScreen() {
         is_attending:
           activeTab === 'attending' ||
           myEvents.attending.some((e) => e.id === event.id),
+        is_pending_approval: myEvents.pendingApproval.includes(event.id),
         is_starred:
           activeTab === 'starred' ||
           myEvents.starred.some((e) => e.id === event.id),
@@ -145,6 +158,38 @@ export default function MyEventsScreen() {
       });
   };
 
+  const handleExport = async () => {
+    if (!myEvents || activeTab === 'hosting') return;
+
+    const events =
+      activeTab === 'attending' ? myEvents.attending : myEvents.starred;
+    const title =
+      activeTab === 'attending' ? 'Attending Events' : 'Starred Events';
+    try {
+      await shareCalendar(events, title);
+    } catch (error) {
+      console.error('Calendar export error:', error);
+      Alert.alert('Error', 'Failed to export events. Please try again.');
+    }
+  };
+
+  // Subscribing keeps the device calendar in step with the attending list,
+  // the way a calendar feed would
+  const handleSubscribe = async () => {
+    try {
+      const saved = await setSyncAttending(true);
+      if (!saved) {
+        Alert.alert(
+          'Calendar Access Needed',
+          'Allow calendar access for Social Layer in Settings to sync your events.'
+        );
+      }
+    } catch (error) {
+      console.error('Calendar subscribe error:', error);
+      Alert.alert('Error', 'Failed to save calendar setting.');
+    }
+  };
+
   const renderEmptyState = () => {
     let icon: string;
     let title: string;
@@ -176,6 +221,13 @@ export default function MyEventsScreen() {
         <Ionicons name={icon as any} size={64} color={colors.text.tertiary} />
         <Text style={styles.emptyStateTitle}>{title}</Text>
         <Text style={styles.emptyStateDescription}>{description}</Text>
+        {activeTab === 'hosting' && (
+          <Button
+            title="Create Event"
+            onPress={handleCreateEvent}
+            style={styles.createButton}
+          />
+        )}
       </View>
     );
   };
@@ -230,6 +282,39 @@ export default function MyEventsScreen() {
         style={styles.content}
         contentContainerStyle={styles.contentContainer}
       >
+        {activeTab !== 'hosting' && (
+          <View style={styles.exportRow}>
+            {activeTab === 'attending' && (
+              <TouchableOpacity
+                style={styles.exportButton}
+                onPress={handleSubscribe}
+                disabled={syncAttending}
+              >
+                <Ionicons
+                  name={syncAttending ? 'checkmark-circle' : 'sync-outline'}
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.exportButtonText}>
+                  {syncAttending ? 'Synced to Calendar' : 'Subscribe'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.exportButton}
+              onPress={handleExport}
+            >
+              <Ionicons
+                name="download-outline"
+                size={18}
+                color={colors.primary}
+              />
+              <Text style={styles.exportButtonText}>
+                Export to Calendar (.ics)
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
         {currentEvents.map((event) => (
           <EventCard
             key={event.id}
@@ -243,6 +328,10 @@ export default function MyEventsScreen() {
               navigation.navigate('EventDetail' as any, { eventId: event.id });
             }}
             onStarPress={() => handleStarPress(event.id)}
+            conflicts={findConflicts(event, mySchedule)}
+            onConflictPress={(conflictId) =>
+              navigation.navigate('EventDetail', { eventId: conflictId })
+            }
           />
         ))}
       </ScrollView>
@@ -275,8 +364,18 @@ export default function MyEventsScreen() {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>My Events</Text>
-        <Text style={styles.headerSubtitle}>Manage your events and RSVPs</Text>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>My Events</Text>
+          <Text style={styles.headerSubtitle}>
+            Manage your events and RSVPs
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.createIconButton}
+          onPress={handleCreateEvent}
+        >
+          <Ionicons name="add" size={24} color={colors.text.white} />
+        </TouchableOpacity>
       </View>
 
       <View style={styles.tabContainer}>
@@ -338,9 +437,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 16,
     backgroundColor: colors.background.secondary,
   },
+  headerText: {
+    flex: 1,
+  },
+  createIconButton: {
+    backgroundColor: colors.primary,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -388,6 +500,22 @@ const styles = StyleSheet.create({
   contentContainer: {
     flexGrow: 1,
   },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+    marginLeft: 6,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -407,6 +535,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  createButton: {
+    minWidth: 120,
+    marginTop: 24,
+  },
   authPrompt: {
     flex: 1,
     justifyContent: 'center',
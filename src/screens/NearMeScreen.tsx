@@ -0,0 +1,425 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Linking,
+} from 'react-native';
+import * as Location from 'expo-location';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import { RootStackParamList, Venue } from '../types';
+import EventCard from '../components/EventCard';
+import Button from '../components/Button';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import { useSync } from '../contexts/SyncContext';
+import { useMyEvents } from '../services/events';
+import { useGroupAccess } from '../services/groups';
+import { selectEvents } from '../services/offlineStore';
+import { colors } from '../utils/colors';
+import {
+  Coordinate,
+  estimateWalkingMinutes,
+  formatDistance,
+  parseCoordinate,
+} from '../utils/geo';
+import {
+  NearbyEvent,
+  SOON_WINDOW_MINUTES,
+  rankNearbyEvents,
+} from '../utils/nearby';
+
+type NearMeScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'NearMe'
+>;
+
+// Where distances are measured from
+type Origin =
+  | { kind: 'device'; coordinate: Coordinate }
+  | { kind: 'venue'; coordinate: Coordinate; venue: Venue };
+
+// 'blocked' means denied without a way to ask again, only via Settings
+type LocationState =
+  'locating' | 'ready' | 'denied' | 'blocked' | 'unavailable';
+
+export default function NearMeScreen() {
+  const navigation = useNavigation<NearMeScreenNavigationProp>();
+  const { snapshot } = useSync();
+  const { selectedGroupId } = useGroup();
+  const { user, isDemoMode, demoStarredEvents, demoAttendingEvents } =
+    useAuth();
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const { data: myEvents } = useMyEvents(
+    user?.id,
+    isDemoMode,
+    demoStarredEvents,
+    demoAttendingEvents
+  );
+  const [locationState, setLocationState] = useState<LocationState>('locating');
+  const [origin, setOrigin] = useState<Origin | null>(null);
+  const [choosingVenue, setChoosingVenue] = useState(false);
+  const [, setTick] = useState(0);
+
+  const venues = useMemo(
+    () =>
+      (snapshot?.venues || []).filter((venue) =>
+        parseCoordinate(venue.geo_lat, venue.geo_lng)
+      ),
+    [snapshot]
+  );
+
+  const locate = useCallback(async () => {
+    setLocationState('locating');
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (!permission.granted) {
+        setLocationState(permission.canAskAgain ? 'denied' : 'blocked');
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.Balanced,
+      });
+      setOrigin({
+        kind: 'device',
+        coordinate: {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        },
+      });
+      setChoosingVenue(false);
+      setLocationState('ready');
+    } catch (error) {
+      console.error('NearMeScreen: Location error', error);
+      setLocationState('unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    locate();
+  }, [locate]);
+
+  // "Starting soon" and "now" shift with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleSelectVenue = (venue: Venue) => {
+    const coordinate = parseCoordinate(venue.geo_lat, venue.geo_lng);
+    if (!coordinate) return;
+    setOrigin({ kind: 'venue', coordinate, venue });
+    setChoosingVenue(false);
+  };
+
+  const venuesById = useMemo(
+    () => new Map((snapshot?.venues || []).map((venue) => [venue.id, venue])),
+    [snapshot]
+  );
+
+  const nearbyEvents =
+    snapshot && origin
+      ? rankNearbyEvents(
+          selectEvents(snapshot, { upcomingOnly: true }),
+          origin.coordinate,
+          venuesById
+        )
+      : [];
+
+  const renderOrigin = () => {
+    if (!origin) return null;
+
+    return (
+      <View style={styles.originBar}>
+        <Ionicons
+          name={origin.kind === 'device' ? 'navigate' : 'business-outline'}
+          size={18}
+          color={colors.primary}
+        />
+        <Text style={styles.originText} numberOfLines={1}>
+          {origin.kind === 'device'
+            ? 'From your location'
+            : `From ${origin.venue.title}`}
+        </Text>
+        {venues.length > 0 && (
+          <TouchableOpacity onPress={() => setChoosingVenue(true)}>
+            <Text style={styles.originAction}>Change</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderVenuePicker = () => (
+    <ScrollView contentContainerStyle={styles.venuePicker}>
+      <Text style={styles.venuePickerTitle}>
+        {locationState === 'ready'
+          ? 'Measure from a venue'
+          : locationState === 'denied' || locationState === 'blocked'
+            ? 'Location access is off'
+            : "Couldn't find your location"}
+      </Text>
+      <Text style={styles.venuePickerDescription}>
+        Pick the venue you're at to see what's happening nearby.
+      </Text>
+      {venues.length === 0 && (
+        <Text style={styles.venuePickerDescription}>
+          This community has no venues with a location.
+        </Text>
+      )}
+      {venues.map((venue) => (
+        <TouchableOpacity
+          key={venue.id}
+          style={styles.venueItem}
+          onPress={() => handleSelectVenue(venue)}
+        >
+          <Ionicons
+            name="business-outline"
+            size={20}
+            color={colors.text.secondary}
+          />
+          <View style={styles.venueItemContent}>
+            <Text style={styles.venueItemTitle}>{venue.title}</Text>
+            {!!(venue.formatted_address || venue.location) && (
+              <Text style={styles.venueItemAddress} numberOfLines={1}>
+                {venue.formatted_address || venue.location}
+              </Text>
+            )}
+          </View>
+          <Ionicons
+            name="chevron-forward"
+            size={18}
+            color={colors.text.tertiary}
+          />
+        </TouchableOpacity>
+      ))}
+      <Button
+        title={
+          locationState === 'blocked' ? 'Turn On Location' : 'Use My Location'
+        }
+        onPress={locationState === 'blocked' ? Linking.openSettings : locate}
+        variant="outline"
+        icon={<Ionicons name="navigate" size={18} color={colors.primary} />}
+        style={styles.useLocationButton}
+      />
+    </ScrollView>
+  );
+
+  const renderItem = ({ item }: { item: NearbyEvent }) => (
+    <View style={styles.item}>
+      <View style={styles.distanceRow}>
+        <Ionicons name="walk-outline" size={16} color={colors.primary} />
+        <Text style={styles.distanceText}>
+          {formatDistance(item.distanceMeters)} · ~
+          {estimateWalkingMinutes(item.distanceMeters)} min walk
+        </Text>
+        {item.status === 'ongoing' && (
+          <Text style={styles.liveText}>Happening now</Text>
+        )}
+      </View>
+      <EventCard
+        event={{
+          ...item.event,
+          is_owner: item.event.owner?.id === user?.id,
+          is_attending: !!myEvents?.attending.some(
+            (event) => event.id === item.event.id
+          ),
+          is_pending_approval: !!myEvents?.pendingApproval.includes(
+            item.event.id
+          ),
+          is_starred: !!myEvents?.starred.some(
+            (event) => event.id === item.event.id
+          ),
+        }}
+        onPress={() =>
+          navigation.navigate('EventDetail', { eventId: item.event.id })
+        }
+      />
+    </View>
+  );
+
+  if (!canViewEvents) {
+    return (
+      <View style={styles.centered}>
+        <MembersOnlyNotice
+          reason="view"
+          onViewGroup={() =>
+            navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+          }
+        />
+      </View>
+    );
+  }
+
+  if (locationState === 'locating' && !origin) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.centeredText}>Finding your location...</Text>
+      </View>
+    );
+  }
+
+  if (!origin || choosingVenue) {
+    return <View style={styles.container}>{renderVenuePicker()}</View>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {renderOrigin()}
+      <FlatList
+        data={nearbyEvents}
+        keyExtractor={(item) => item.event.id.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          origin.kind === 'device' ? (
+            <RefreshControl
+              refreshing={locationState === 'locating'}
+              onRefresh={locate}
+              tintColor={colors.primary}
+            />
+          ) : undefined
+        }
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Ionicons
+              name="location-outline"
+              size={64}
+              color={colors.text.tertiary}
+            />
+            <Text style={styles.emptyTitle}>Nothing Nearby Right Now</Text>
+            <Text style={styles.centeredText}>
+              No events with a location are on now or starting in the next{' '}
+              {SOON_WINDOW_MINUTES / 60} hours.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  centeredText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  originBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.background.secondary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.primary,
+  },
+  originText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: colors.text.primary,
+  },
+  originAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingVertical: 8,
+  },
+  item: {
+    marginBottom: 4,
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  distanceText: {
+    marginLeft: 4,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  liveText: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.status.info,
+  },
+  venuePicker: {
+    padding: 16,
+  },
+  venuePickerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  venuePickerDescription: {
+    fontSize: 15,
+    color: colors.text.secondary,
+    marginBottom: 16,
+    lineHeight: 21,
+  },
+  venueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: colors.background.secondary,
+  },
+  venueItemContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  venueItemTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  venueItemAddress: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  useLocationButton: {
+    marginTop: 16,
+  },
+});
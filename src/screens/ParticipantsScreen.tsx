@@ -1,33 +1,85 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
+  SectionList,
   TouchableOpacity,
   ActivityIndicator,
   Image,
+  Alert,
+  TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRoute, RouteProp, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
 import { RootStackParamList } from '../types';
-import { useEventDetail } from '../services/events';
+import {
+  useEventDetail,
+  useEventParticipants,
+  useReviewParticipantsMutation,
+} from '../services/events';
+import { getAuthToken } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
 import { useQueryClient } from '@tanstack/react-query';
 import { eventDetailCache } from '../services/caching';
+import { shareParticipantsCsv } from '../services/participantExport';
+import Button from '../components/Button';
 import { colors } from '../utils/colors';
+import {
+  ParticipantSort,
+  STATUS_ORDER,
+  countByTicket,
+  searchParticipants,
+  sortParticipants,
+} from '../utils/participants';
 
 type ParticipantsRouteProp = RouteProp<RootStackParamList, 'Participants'>;
+type ParticipantsNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Participants'
+>;
+
+const SORT_LABELS: Record<ParticipantSort, string> = {
+  status: 'Status',
+  joined: 'Join time',
+  name: 'Name',
+};
+const SORT_OPTIONS = Object.keys(SORT_LABELS) as ParticipantSort[];
 
 interface ParticipantItemProps {
   participant: any;
+  onPress: () => void;
+  // Shown only for applications the host can act on
+  selected?: boolean;
+  onToggleSelect?: () => void;
 }
 
-function ParticipantItem({ participant }: ParticipantItemProps) {
+function ParticipantItem({
+  participant,
+  onPress,
+  selected,
+  onToggleSelect,
+}: ParticipantItemProps) {
   const profile = participant.profile;
 
   return (
-    <View style={styles.participantContainer}>
+    <TouchableOpacity
+      style={styles.participantContainer}
+      onPress={onPress}
+      disabled={!profile.handle}
+    >
+      {onToggleSelect && (
+        <TouchableOpacity style={styles.checkbox} onPress={onToggleSelect}>
+          <Ionicons
+            name={selected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={selected ? colors.primary : colors.text.tertiary}
+          />
+        </TouchableOpacity>
+      )}
       <View style={styles.participantInfo}>
         {profile.image_url ? (
           <Image
@@ -55,7 +107,7 @@ function ParticipantItem({ participant }: ParticipantItemProps) {
           {getStatusText(participant.status)}
         </Text>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 }
 
@@ -67,11 +119,26 @@ function getStatusColor(status: string) {
       return { backgroundColor: colors.primary };
     case 'applied':
       return { backgroundColor: colors.status.warning };
+    case 'waitlisted':
+      return { backgroundColor: colors.status.info };
+    case 'cancelled':
+      return { backgroundColor: colors.status.error };
     default:
       return { backgroundColor: colors.text.tertiary };
   }
 }
 
+function getSectionTitle(status: string) {
+  switch (status) {
+    case 'applied':
+      return 'Applied';
+    case 'checked':
+      return 'Checked in';
+    default:
+      return getStatusText(status);
+  }
+}
+
 function getStatusText(status: string) {
   switch (status) {
     case 'checked':
@@ -79,7 +146,11 @@ function getStatusText(status: string) {
     case 'attending':
       return 'Attending';
     case 'applied':
-      return 'Applied';
+      return 'Pending approval';
+    case 'waitlisted':
+      return 'Waitlisted';
+    case 'cancelled':
+      return 'Cancelled';
     default:
       return 'Unknown';
   }
@@ -87,8 +158,9 @@ function getStatusText(status: string) {
 
 export default function ParticipantsScreen() {
   const route = useRoute<ParticipantsRouteProp>();
-  const navigation = useNavigation();
+  const navigation = useNavigation<ParticipantsNavigationProp>();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const { eventId } = route.params;
 
   const parsedEventId = parseInt(eventId.toString(), 10);
@@ -129,10 +201,174 @@ export default function ParticipantsScreen() {
     }
   };
 
-  const participants = getFilteredParticipants(event);
+  const [searchQuery, setSearchQuery] = useState('');
+  const confirmedParticipants: any[] = getFilteredParticipants(event);
+  const participants = searchParticipants(confirmedParticipants, searchQuery);
+
+  const isHost = !!user && event?.owner?.id === user.id;
+  const { data: allParticipants = [], isLoading: isLoadingAll } =
+    useEventParticipants(parsedEventId, isHost);
+  const reviewMutation = useReviewParticipantsMutation();
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [sort, setSort] = useState<ParticipantSort>('status');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const ticketCounts = useMemo(
+    () => countByTicket(allParticipants),
+    [allParticipants]
+  );
+  const sections = useMemo(() => {
+    const visible = sortParticipants(
+      searchParticipants(allParticipants, searchQuery),
+      sort
+    );
+    if (sort !== 'status') {
+      return visible.length > 0
+        ? [{ status: 'all', title: 'Everyone', data: visible }]
+        : [];
+    }
+    return STATUS_ORDER.map((status) => ({
+      status,
+      title: getSectionTitle(status),
+      data: visible.filter((p: any) => p.status === status),
+    })).filter((section) => section.data.length > 0);
+  }, [allParticipants, searchQuery, sort]);
+  const applicantIds = useMemo(
+    () =>
+      allParticipants
+        .filter((p: any) => p.status === 'applied')
+        .map((p: any) => p.id as number),
+    [allParticipants]
+  );
+  // Drop selections for applications someone already handled
+  const selected = applicantIds.filter((id: number) => selectedIds.has(id));
+
+  const toggleSelected = (participantId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(participantId)) {
+        next.delete(participantId);
+      } else {
+        next.add(participantId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      selected.length === applicantIds.length
+        ? new Set()
+        : new Set(applicantIds)
+    );
+  };
+
+  const review = async (decision: 'approve' | 'reject') => {
+    const authToken = await getAuthToken();
+    if (!authToken) {
+      Alert.alert('Error', 'Please sign in again to manage applications.');
+      return;
+    }
+
+    reviewMutation.mutate(
+      { eventId: parsedEventId, participantIds: selected, decision, authToken },
+      {
+        onSuccess: ({ failed }) => {
+          // Keep failed ones selected so the host can retry them
+          setSelectedIds(new Set(failed));
+          if (failed.length > 0) {
+            Alert.alert(
+              'Some Requests Failed',
+              `${failed.length} of ${selected.length} applications couldn't be ${
+                decision === 'approve' ? 'approved' : 'rejected'
+              }. Please try again.`
+            );
+          }
+        },
+        onError: (error: any) => {
+          Alert.alert(
+            'Error',
+            error?.message || 'Failed to update applications'
+          );
+        },
+      }
+    );
+  };
+
+  // Exports everyone, whatever the current search
+  const handleExport = async () => {
+    if (!event || allParticipants.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      await shareParticipantsCsv(
+        sortParticipants(allParticipants, sort),
+        event.title
+      );
+    } catch (error: any) {
+      console.error('Export participants error:', error);
+      Alert.alert('Error', error?.message || 'Failed to export participants');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleReject = () => {
+    Alert.alert(
+      'Reject Applications',
+      `Reject ${selected.length} ${
+        selected.length === 1 ? 'application' : 'applications'
+      }?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reject',
+          style: 'destructive',
+          onPress: () => review('reject'),
+        },
+      ]
+    );
+  };
 
   const renderParticipant = ({ item }: { item: any }) => (
-    <ParticipantItem participant={item} />
+    <ParticipantItem
+      participant={item}
+      onPress={() =>
+        navigation.navigate('UserProfile', { handle: item.profile.handle })
+      }
+    />
+  );
+
+  const renderHostParticipant = ({ item }: { item: any }) => (
+    <ParticipantItem
+      participant={item}
+      onPress={() =>
+        navigation.navigate('UserProfile', { handle: item.profile.handle })
+      }
+      selected={selectedIds.has(item.id)}
+      onToggleSelect={
+        item.status === 'applied' ? () => toggleSelected(item.id) : undefined
+      }
+    />
+  );
+
+  const renderSectionHeader = ({
+    section,
+  }: {
+    section: { status: string; title: string; data: any[] };
+  }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>
+        {section.title} ({section.data.length})
+      </Text>
+      {section.status === 'applied' && (
+        <TouchableOpacity onPress={toggleSelectAll}>
+          <Text style={styles.selectAllText}>
+            {selected.length === applicantIds.length ? 'Clear' : 'Select all'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
   );
 
   const renderHeader = () => (
@@ -144,7 +380,37 @@ export default function ParticipantsScreen() {
         <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
       </TouchableOpacity>
       <Text style={styles.title}>Participants</Text>
-      <View style={styles.placeholder} />
+      {isHost ? (
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={handleExport}
+          disabled={isExporting || allParticipants.length === 0}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="share-outline" size={22} color={colors.primary} />
+          )}
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.placeholder} />
+      )}
+    </View>
+  );
+
+  const renderSearchBar = () => (
+    <View style={styles.searchBar}>
+      <Ionicons name="search" size={18} color={colors.text.tertiary} />
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search by name or handle"
+        placeholderTextColor={colors.text.tertiary}
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
     </View>
   );
 
@@ -159,6 +425,18 @@ export default function ParticipantsScreen() {
       );
     }
 
+    if (searchQuery.trim()) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search" size={64} color={colors.text.tertiary} />
+          <Text style={styles.emptyTitle}>No Matches</Text>
+          <Text style={styles.emptyDescription}>
+            No participants match "{searchQuery.trim()}"
+          </Text>
+        </View>
+      );
+    }
+
     // Show actual empty state
     return (
       <View style={styles.emptyContainer}>
@@ -214,20 +492,116 @@ export default function ParticipantsScreen() {
     );
   }
 
+  if (isHost) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.content}>
+          <View style={styles.statsContainer}>
+            <Text style={styles.statsText}>
+              {applicantIds.length > 0
+                ? `${applicantIds.length} waiting for approval`
+                : 'No pending applications'}
+              {event.max_participant && ` • ${event.max_participant} max`}
+            </Text>
+            {ticketCounts.length > 1 && (
+              <View style={styles.ticketCounts}>
+                {ticketCounts.map((ticket) => (
+                  <View
+                    key={ticket.ticketId ?? 'none'}
+                    style={styles.ticketCount}
+                  >
+                    <Text style={styles.ticketCountText}>
+                      {ticket.title} · {ticket.count}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+          {renderSearchBar()}
+          <View style={styles.sortBar}>
+            <Text style={styles.sortLabel}>Sort by</Text>
+            <View style={styles.segmented}>
+              {SORT_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.segment,
+                    sort === option && styles.segmentActive,
+                  ]}
+                  onPress={() => setSort(option)}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      sort === option && styles.segmentTextActive,
+                    ]}
+                  >
+                    {SORT_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <SectionList
+            sections={sections}
+            renderItem={renderHostParticipant}
+            renderSectionHeader={renderSectionHeader}
+            keyExtractor={(item) => item.id.toString()}
+            contentContainerStyle={styles.listContainer}
+            showsVerticalScrollIndicator={false}
+            stickySectionHeadersEnabled={false}
+            ListEmptyComponent={
+              isLoadingAll ? (
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator size="large" color={colors.primary} />
+                  <Text style={styles.loadingText}>
+                    Loading participants...
+                  </Text>
+                </View>
+              ) : (
+                renderEmptyState()
+              )
+            }
+          />
+          {selected.length > 0 && (
+            <View style={styles.bulkActions}>
+              <Button
+                title={`Reject (${selected.length})`}
+                variant="outline"
+                onPress={handleReject}
+                disabled={reviewMutation.isPending}
+                style={styles.bulkButton}
+              />
+              <Button
+                title={`Approve (${selected.length})`}
+                onPress={() => review('approve')}
+                loading={reviewMutation.isPending}
+                style={styles.bulkButton}
+              />
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       {renderHeader()}
       <View style={styles.content}>
         <View style={styles.statsContainer}>
           <Text style={styles.statsText}>
-            {participants.length > 0 ? (
-              `${participants.length} participants`
+            {confirmedParticipants.length > 0 ? (
+              `${confirmedParticipants.length} participants`
             ) : (
               `${event.participants_count} participants total`
             )}
             {event.max_participant && ` • ${event.max_participant} max`}
           </Text>
         </View>
+        {renderSearchBar()}
         <FlatList
           data={participants}
           renderItem={renderParticipant}
@@ -269,6 +643,12 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 40,
   },
+  exportButton: {
+    width: 40,
+    padding: 8,
+    marginRight: -8,
+    alignItems: 'center',
+  },
   content: {
     flex: 1,
     backgroundColor: colors.background.secondary,
@@ -284,6 +664,75 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     textAlign: 'center',
   },
+  ticketCounts: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  ticketCount: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    margin: 3,
+    borderRadius: 12,
+    backgroundColor: colors.background.tertiary,
+  },
+  ticketCountText: {
+    fontSize: 12,
+    color: colors.text.secondary,
+    fontWeight: '500',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: colors.background.primary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  sortBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  sortLabel: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    backgroundColor: colors.background.tertiary,
+    padding: 2,
+  },
+  segment: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  segmentActive: {
+    backgroundColor: colors.primary,
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
   listContainer: {
     flexGrow: 1,
     paddingHorizontal: 20,
@@ -297,6 +746,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: colors.background.tertiary,
   },
+  checkbox: {
+    paddingRight: 12,
+  },
   participantInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -326,6 +778,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.text.secondary,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 16,
+    paddingBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textTransform: 'uppercase',
+  },
+  selectAllText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    padding: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+    borderTopColor: colors.background.tertiary,
+    backgroundColor: colors.background.primary,
+  },
+  bulkButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -7,22 +7,42 @@ import {
   Image,
   TouchableOpacity,
   Alert,
+  Switch,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 
 import Button from '../components/Button';
+import BadgeTile from '../components/BadgeTile';
 import GroupSelectionModal from '../components/GroupSelectionModal';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useReminders } from '../contexts/ReminderContext';
+import { useCalendarSync } from '../contexts/CalendarSyncContext';
 import { getAllGroups, getUserGroups, getAuthToken } from '../services/api';
+import { useBadgesByOwner } from '../services/badges';
+import { RootStackParamList } from '../types';
 import { colors } from '../utils/colors';
+import { formatTimezoneLabel } from '../utils/timezone';
+import { REMINDER_LEAD_OPTIONS } from '../utils/reminders';
+
+type ProfileScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Main'
+>;
 
 export default function ProfileScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<ProfileScreenNavigationProp>();
   const { user, signOut } = useAuth();
+  const { data: badges, isLoading: badgesLoading } = useBadgesByOwner(user?.id);
   const { selectedGroupId, allGroups, setAllGroups, setUserGroups } =
     useGroup();
+  const { mode, setMode, deviceTimezone } = useTimezone();
+  const reminders = useReminders();
+  const { syncAttending, setSyncAttending } = useCalendarSync();
   const [showGroupModal, setShowGroupModal] = useState(false);
 
   useEffect(() => {
@@ -75,6 +95,131 @@ export default function ProfileScreen() {
     setShowGroupModal(true);
   };
 
+  const handleTimezoneModeChange = async (useDeviceTime: boolean) => {
+    try {
+      await setMode(useDeviceTime ? 'device' : 'event');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save timezone setting.');
+    }
+  };
+
+  const renderTimezoneSetting = () => (
+    <View style={styles.menuItem}>
+      <Ionicons name="globe-outline" size={24} color={colors.text.secondary} />
+      <View style={styles.menuItemContent}>
+        <Text>Show Times in My Timezone</Text>
+        <Text style={styles.menuSubtext}>
+          {mode === 'device'
+            ? formatTimezoneLabel(deviceTimezone)
+            : "Using each event's timezone"}
+        </Text>
+      </View>
+      <Switch
+        value={mode === 'device'}
+        onValueChange={handleTimezoneModeChange}
+        trackColor={{ true: colors.primary }}
+      />
+    </View>
+  );
+
+  const handleRemindersChange = async (enabled: boolean) => {
+    try {
+      const saved = await reminders.setEnabled(enabled);
+      if (!saved) {
+        Alert.alert(
+          'Notifications Disabled',
+          'Allow notifications for Social Layer in Settings to get event reminders.'
+        );
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save reminder setting.');
+    }
+  };
+
+  const renderReminderSetting = () => (
+    <View style={styles.menuItem}>
+      <Ionicons
+        name="notifications-outline"
+        size={24}
+        color={colors.text.secondary}
+      />
+      <View style={styles.menuItemContent}>
+        <Text>Event Reminders</Text>
+        <Text style={styles.menuSubtext}>
+          {reminders.enabled ? 'Before starred and RSVP’d events' : 'Off'}
+        </Text>
+        {reminders.enabled && (
+          <View style={styles.leadOptions}>
+            {REMINDER_LEAD_OPTIONS.map((minutes) => {
+              const selected = reminders.leadMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[
+                    styles.leadOption,
+                    selected && styles.leadOptionSelected,
+                  ]}
+                  onPress={() => reminders.setLeadMinutes(minutes)}
+                >
+                  <Text
+                    style={[
+                      styles.leadOptionText,
+                      selected && styles.leadOptionTextSelected,
+                    ]}
+                  >
+                    {minutes < 60 ? `${minutes} min` : '1 hour'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </View>
+      <Switch
+        value={reminders.enabled}
+        onValueChange={handleRemindersChange}
+        trackColor={{ true: colors.primary }}
+      />
+    </View>
+  );
+
+  const handleSyncAttendingChange = async (enabled: boolean) => {
+    try {
+      const saved = await setSyncAttending(enabled);
+      if (!saved) {
+        Alert.alert(
+          'Calendar Access Needed',
+          'Allow calendar access for Social Layer in Settings to sync your events.'
+        );
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save calendar setting.');
+    }
+  };
+
+  const renderCalendarSetting = () => (
+    <View style={styles.menuItem}>
+      <Ionicons
+        name="calendar-outline"
+        size={24}
+        color={colors.text.secondary}
+      />
+      <View style={styles.menuItemContent}>
+        <Text>Sync Attending to Calendar</Text>
+        <Text style={styles.menuSubtext}>
+          {syncAttending
+            ? 'RSVP’d events are kept in your device calendar'
+            : 'Off'}
+        </Text>
+      </View>
+      <Switch
+        value={syncAttending}
+        onValueChange={handleSyncAttendingChange}
+        trackColor={{ true: colors.primary }}
+      />
+    </View>
+  );
+
   // Find the selected group info
   const selectedGroup = allGroups.find((group) => group.id === selectedGroupId);
 
@@ -129,10 +274,46 @@ export default function ProfileScreen() {
             color={colors.text.tertiary}
           />
         </TouchableOpacity>
+
+        <View style={[styles.menuContainer, styles.settingsContainer]}>
+          {renderTimezoneSetting()}
+        </View>
       </View>
     </View>
   );
 
+  const renderBadges = () => (
+    <View style={styles.badgesSection}>
+      <View style={styles.badgesHeader}>
+        <Text style={styles.badgesTitle}>Badges</Text>
+        {!!badges?.length && (
+          <Text style={styles.badgesCount}>{badges.length}</Text>
+        )}
+      </View>
+      {badgesLoading ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : badges && badges.length > 0 ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {badges.map((badge) => (
+            <BadgeTile
+              key={badge.id}
+              title={badge.badge_class?.title || badge.title}
+              imageUrl={badge.image_url || badge.badge_class?.image_url}
+              onPress={() =>
+                badge.badge_class &&
+                navigation.navigate('BadgeClass', {
+                  badgeClassId: badge.badge_class.id,
+                })
+              }
+            />
+          ))}
+        </ScrollView>
+      ) : (
+        <Text style={styles.badgesEmpty}>Attend events to collect badges.</Text>
+      )}
+    </View>
+  );
+
   const renderProfileContent = () => (
     <ScrollView contentContainerStyle={styles.contentContainer}>
       <View style={styles.profileHeader}>
@@ -150,8 +331,17 @@ export default function ProfileScreen() {
         <Text style={styles.name}>{user?.nickname || 'Unknown User'}</Text>
         <Text style={styles.handle}>@{user?.handle || 'unknown'}</Text>
         <Text style={styles.bio}>{user?.about || 'No bio available'}</Text>
+        <Button
+          title="Edit Profile"
+          onPress={() => navigation.navigate('EditProfile')}
+          variant="outline"
+          size="small"
+          style={styles.editButton}
+        />
       </View>
 
+      {renderBadges()}
+
       <View style={styles.menuContainer}>
         <TouchableOpacity style={styles.menuItem} onPress={handleSwitchGroups}>
           <Image
@@ -177,6 +367,10 @@ export default function ProfileScreen() {
           />
         </TouchableOpacity>
 
+        {renderTimezoneSetting()}
+        {renderReminderSetting()}
+        {renderCalendarSetting()}
+
         <TouchableOpacity
           style={[styles.menuItem, styles.signOutItem]}
           onPress={handleSignOut}
@@ -284,6 +478,32 @@ const styles = StyleSheet.create({
     minWidth: 120,
   },
 
+  badgesSection: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    paddingTop: 16,
+    paddingLeft: 16,
+  },
+  badgesHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  badgesTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+  },
+  badgesCount: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    marginLeft: 8,
+  },
+  badgesEmpty: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    marginBottom: 16,
+  },
   menuContainer: {
     backgroundColor: '#fff',
     margin: 16,
@@ -307,6 +527,35 @@ const styles = StyleSheet.create({
     color: '#333',
     marginLeft: 12,
   },
+  settingsContainer: {
+    marginHorizontal: 0,
+  },
+  leadOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  leadOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  leadOptionSelected: {
+    backgroundColor: colors.primaryLight,
+    borderColor: colors.primary,
+  },
+  leadOptionText: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  leadOptionTextSelected: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
   signOutItem: {
     borderBottomWidth: 0,
   },
@@ -13,13 +13,17 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../contexts/AuthContext';
 import { useGroup } from '../contexts/GroupContext';
 import { useSearchEvents, useStarEventMutation } from '../services/events';
+import { useGroupAccess } from '../services/groups';
 import { getAuthToken } from '../services/api';
 import EventCard from '../components/EventCard';
-import { EventWithJoinStatus } from '../types';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { EventWithJoinStatus, RootStackParamList } from '../types';
 import { colors } from '../utils/colors';
+import { parseServerTime } from '../utils/timezone';
 
 // Custom hook for debounced search
 const useDebounce = (value: string, delay: number) => {
@@ -38,16 +42,25 @@ const useDebounce = (value: string, delay: number) => {
   return debouncedValue;
 };
 
+type SearchScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Main'
+>;
+
 type SearchFilter = 'all' | 'upcoming' | 'past';
 
 export default function SearchScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<SearchScreenNavigationProp>();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchFilter, setSearchFilter] = useState<SearchFilter>('all');
   const [hasSearched, setHasSearched] = useState(false);
 
   const { user, isDemoMode, demoStarredEvents, toggleDemoStar } = useAuth();
   const { selectedGroupId } = useGroup();
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
 
   // Debounce search query to avoid too many API calls
   const debouncedSearchQuery = useDebounce(searchQuery, 500);
@@ -63,7 +76,8 @@ export default function SearchScreen() {
   } = useSearchEvents(
     debouncedSearchQuery,
     selectedGroupId,
-    debouncedSearchQuery.length >= 2 // Only search when query is at least 2 characters
+    // Only search when query is at least 2 characters
+    canViewEvents && debouncedSearchQuery.length >= 2
   );
 
   // Filter search results based on selected filter
@@ -76,7 +90,7 @@ export default function SearchScreen() {
 
     const now = new Date();
     return searchResults.filter((event) => {
-      const eventDate = new Date(event.start_time);
+      const eventDate = parseServerTime(event.start_time);
       if (searchFilter === 'upcoming') {
         return eventDate >= now;
       } else {
@@ -135,7 +149,7 @@ export default function SearchScreen() {
   };
 
   const handleEventPress = (eventId: number) => {
-    navigation.navigate('EventDetail' as any, { eventId });
+    navigation.navigate('EventDetail', { eventId });
   };
 
   const clearSearch = () => {
@@ -158,6 +172,19 @@ export default function SearchScreen() {
   };
 
   const renderSearchResults = () => {
+    if (!canViewEvents) {
+      return (
+        <View style={styles.emptyState}>
+          <MembersOnlyNotice
+            reason="view"
+            onViewGroup={() =>
+              navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+            }
+          />
+        </View>
+      );
+    }
+
     if (!hasSearched) {
       return (
         <View style={styles.emptyState}>
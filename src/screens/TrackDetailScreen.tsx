@@ -0,0 +1,269 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { RootStackParamList } from '../types';
+import EventCard from '../components/EventCard';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useMyEvents } from '../services/events';
+import { useGroupAccess } from '../services/groups';
+import { useTrackEvents, useVisibleTracks } from '../services/tracks';
+import { colors } from '../utils/colors';
+import { formatDateRange, groupEventsByDate } from '../utils/dateUtils';
+
+type TrackDetailRouteProp = RouteProp<RootStackParamList, 'TrackDetail'>;
+type TrackDetailNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'TrackDetail'
+>;
+
+export default function TrackDetailScreen() {
+  const route = useRoute<TrackDetailRouteProp>();
+  const navigation = useNavigation<TrackDetailNavigationProp>();
+  const { trackId } = route.params;
+  const { user, isDemoMode, demoStarredEvents, demoAttendingEvents } =
+    useAuth();
+  const { selectedGroupId } = useGroup();
+  const { listTimezone } = useTimezone();
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  // Only visible tracks resolve, so a ticket-limited viewer can't open others
+  const { data: tracks, isLoading } = useVisibleTracks(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const {
+    data: events,
+    isLoading: eventsLoading,
+    isRefetching,
+    refetch,
+  } = useTrackEvents(selectedGroupId, trackId);
+  const { data: myEvents } = useMyEvents(
+    user?.id,
+    isDemoMode,
+    demoStarredEvents,
+    demoAttendingEvents
+  );
+
+  const track = tracks.find((t) => t.id === trackId);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!track) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="git-branch-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.errorTitle}>Track Not Available</Text>
+        <Text style={styles.emptyText}>
+          This track doesn't exist or isn't included in your ticket.
+        </Text>
+      </View>
+    );
+  }
+
+  const dateRange = formatDateRange(track.start_date, track.end_date);
+  const sections = groupEventsByDate(events || [], listTimezone);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={refetch}
+          colors={[colors.primary]}
+        />
+      }
+    >
+      <View style={styles.header}>
+        {track.icon_url ? (
+          <Image
+            source={{ uri: track.icon_url, cache: 'force-cache' }}
+            style={styles.icon}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.icon, styles.iconPlaceholder]}>
+            <Ionicons
+              name="git-branch-outline"
+              size={40}
+              color={colors.text.tertiary}
+            />
+          </View>
+        )}
+        <Text style={styles.title}>{track.title}</Text>
+        {!!dateRange && (
+          <View style={styles.dateRow}>
+            <Ionicons
+              name="calendar-outline"
+              size={16}
+              color={colors.text.secondary}
+            />
+            <Text style={styles.dateText}>{dateRange}</Text>
+          </View>
+        )}
+      </View>
+
+      {!!track.about && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>About This Track</Text>
+          <Text style={styles.content}>{track.about}</Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Events</Text>
+        {!canViewEvents ? (
+          <MembersOnlyNotice
+            reason="view"
+            onViewGroup={() =>
+              navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+            }
+          />
+        ) : eventsLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : sections.length === 0 ? (
+          <Text style={styles.emptyText}>No events in this track yet.</Text>
+        ) : (
+          sections.map((section) => (
+            <View key={section.date}>
+              <Text style={styles.dateLabel}>{section.dateLabel}</Text>
+              {section.data.map((event) => (
+                <EventCard
+                  key={event.id}
+                  event={{
+                    ...event,
+                    track,
+                    is_owner: event.owner?.id === user?.id,
+                    is_attending: !!myEvents?.attending.some(
+                      (e) => e.id === event.id
+                    ),
+                    is_pending_approval: !!myEvents?.pendingApproval.includes(
+                      event.id
+                    ),
+                    is_starred: !!myEvents?.starred.some(
+                      (e) => e.id === event.id
+                    ),
+                  }}
+                  onPress={() =>
+                    navigation.navigate('EventDetail', { eventId: event.id })
+                  }
+                />
+              ))}
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  header: {
+    backgroundColor: colors.background.secondary,
+    padding: 24,
+    alignItems: 'center',
+  },
+  icon: {
+    width: 80,
+    height: 80,
+    borderRadius: 16,
+    backgroundColor: colors.background.tertiary,
+    marginBottom: 16,
+  },
+  iconPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginLeft: 6,
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  content: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    lineHeight: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+  },
+  dateLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,436 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import EventCard from '../components/EventCard';
+import BadgeTile from '../components/BadgeTile';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import { useProfile, useProfileEvents } from '../services/profiles';
+import { useBadgesByOwner } from '../services/badges';
+import {
+  Event,
+  EventWithJoinStatus,
+  RootStackParamList,
+  SocialMedia,
+} from '../types';
+import { colors } from '../utils/colors';
+
+type UserProfileRouteProp = RouteProp<RootStackParamList, 'UserProfile'>;
+type UserProfileNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'UserProfile'
+>;
+
+type SocialPlatform = keyof SocialMedia;
+
+const SOCIAL_PLATFORMS: {
+  key: SocialPlatform;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  baseUrl: string | null;
+}[] = [
+  {
+    key: 'twitter',
+    label: 'X',
+    icon: 'logo-twitter',
+    baseUrl: 'https://x.com/',
+  },
+  {
+    key: 'github',
+    label: 'GitHub',
+    icon: 'logo-github',
+    baseUrl: 'https://github.com/',
+  },
+  {
+    key: 'farcaster',
+    label: 'Farcaster',
+    icon: 'chatbubbles-outline',
+    baseUrl: 'https://warpcast.com/',
+  },
+  {
+    key: 'ens',
+    label: 'ENS',
+    icon: 'diamond-outline',
+    baseUrl: 'https://app.ens.domains/',
+  },
+  {
+    key: 'lens',
+    label: 'Lens',
+    icon: 'leaf-outline',
+    baseUrl: 'https://hey.xyz/u/',
+  },
+  {
+    key: 'telegram',
+    label: 'Telegram',
+    icon: 'paper-plane-outline',
+    baseUrl: 'https://t.me/',
+  },
+  { key: 'discord', label: 'Discord', icon: 'logo-discord', baseUrl: null },
+  {
+    key: 'nostr',
+    label: 'Nostr',
+    icon: 'radio-outline',
+    baseUrl: 'https://njump.me/',
+  },
+  { key: 'website', label: 'Website', icon: 'globe-outline', baseUrl: '' },
+];
+
+// Links are stored either as full URLs or as bare handles
+function getSocialUrl(value: string, baseUrl: string | null): string | null {
+  if (/^https?:\/\//i.test(value)) return value;
+  if (baseUrl === null) return null;
+  if (baseUrl === '') return `https://${value}`;
+  return `${baseUrl}${value.replace(/^@/, '')}`;
+}
+
+export default function UserProfileScreen() {
+  const route = useRoute<UserProfileRouteProp>();
+  const navigation = useNavigation<UserProfileNavigationProp>();
+  const { user } = useAuth();
+  const { selectedGroupId, allGroups } = useGroup();
+  const [activeTab, setActiveTab] = useState<'hosting' | 'attending'>(
+    'hosting'
+  );
+
+  const { data: profile, isLoading, error } = useProfile(route.params.handle);
+  const { data: profileEvents, isLoading: eventsLoading } = useProfileEvents(
+    profile?.id,
+    selectedGroupId
+  );
+  const { data: badges } = useBadgesByOwner(profile?.id);
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerTitle: profile?.nickname || `@${route.params.handle}`,
+    });
+  }, [navigation, profile?.nickname, route.params.handle]);
+
+  const handleOpenLink = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error('Failed to open link:', error);
+      Alert.alert('Error', 'Failed to open link. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="person-circle-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.errorTitle}>Profile Not Found</Text>
+        <Text style={styles.errorDescription}>
+          We couldn't find @{route.params.handle}.
+        </Text>
+      </View>
+    );
+  }
+
+  const socialLinks = SOCIAL_PLATFORMS.filter(
+    ({ key }) => !!profile.social_links?.[key]
+  );
+  const selectedGroup = allGroups.find((group) => group.id === selectedGroupId);
+  const events: EventWithJoinStatus[] = (profileEvents?.[activeTab] || []).map(
+    (event: Event) => ({
+      ...event,
+      is_owner: event.owner?.id === user?.id,
+      is_attending: false,
+      is_starred: false,
+    })
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <View style={styles.profileHeader}>
+        {profile.image_url ? (
+          <Image
+            source={{ uri: profile.image_url, cache: 'force-cache' }}
+            style={styles.avatar}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder]}>
+            <Ionicons name="person" size={56} color={colors.text.tertiary} />
+          </View>
+        )}
+        <Text style={styles.name}>{profile.nickname || profile.handle}</Text>
+        <Text style={styles.handle}>@{profile.handle}</Text>
+        {!!profile.location && (
+          <View style={styles.locationRow}>
+            <Ionicons
+              name="location-outline"
+              size={16}
+              color={colors.text.secondary}
+            />
+            <Text style={styles.location}>{profile.location}</Text>
+          </View>
+        )}
+        {!!profile.about && <Text style={styles.bio}>{profile.about}</Text>}
+      </View>
+
+      {socialLinks.length > 0 && (
+        <View style={styles.section}>
+          {socialLinks.map(({ key, label, icon, baseUrl }) => {
+            const value = profile.social_links[key] as string;
+            const url = getSocialUrl(value, baseUrl);
+            return (
+              <TouchableOpacity
+                key={key}
+                style={styles.socialLink}
+                onPress={() => url && handleOpenLink(url)}
+                disabled={!url}
+              >
+                <Ionicons name={icon} size={20} color={colors.primary} />
+                <Text style={styles.socialLabel}>{label}</Text>
+                <Text style={styles.socialValue} numberOfLines={1}>
+                  {value}
+                </Text>
+                {url && (
+                  <Ionicons
+                    name="open-outline"
+                    size={16}
+                    color={colors.text.tertiary}
+                  />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {!!badges?.length && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Badges</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {badges.map((badge) => (
+              <BadgeTile
+                key={badge.id}
+                title={badge.badge_class?.title || badge.title}
+                imageUrl={badge.image_url || badge.badge_class?.image_url}
+                onPress={() =>
+                  badge.badge_class &&
+                  navigation.navigate('BadgeClass', {
+                    badgeClassId: badge.badge_class.id,
+                  })
+                }
+              />
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          Events in{' '}
+          {selectedGroup?.nickname || selectedGroup?.handle || 'this group'}
+        </Text>
+        <View style={styles.tabContainer}>
+          {(['hosting', 'attending'] as const).map((tab) => {
+            const isActive = activeTab === tab;
+            const count = profileEvents?.[tab].length;
+            return (
+              <TouchableOpacity
+                key={tab}
+                style={[styles.tabButton, isActive && styles.activeTabButton]}
+                onPress={() => setActiveTab(tab)}
+              >
+                <Text
+                  style={[styles.tabText, isActive && styles.activeTabText]}
+                >
+                  {tab === 'hosting' ? 'Hosting' : 'Attending'}
+                  {count !== undefined && ` (${count})`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {eventsLoading ? (
+          <ActivityIndicator
+            color={colors.primary}
+            style={styles.eventsLoading}
+          />
+        ) : events.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {activeTab === 'hosting'
+              ? 'No hosted events in this group yet.'
+              : 'No attended events in this group yet.'}
+          </Text>
+        ) : (
+          events.map((event) => (
+            <EventCard
+              key={event.id}
+              event={event}
+              onPress={() =>
+                navigation.push('EventDetail', { eventId: event.id })
+              }
+            />
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  errorDescription: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  profileHeader: {
+    backgroundColor: colors.background.secondary,
+    padding: 24,
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: colors.background.tertiary,
+    marginBottom: 16,
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 4,
+  },
+  handle: {
+    fontSize: 16,
+    color: colors.primary,
+    marginBottom: 8,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  location: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginLeft: 4,
+  },
+  bio: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  socialLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  socialLabel: {
+    width: 90,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginLeft: 12,
+  },
+  socialValue: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text.secondary,
+    marginRight: 8,
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  tabButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginHorizontal: 4,
+    backgroundColor: colors.background.primary,
+  },
+  activeTabButton: {
+    backgroundColor: colors.primaryLight,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  activeTabText: {
+    color: colors.primary,
+  },
+  eventsLoading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
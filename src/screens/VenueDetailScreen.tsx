@@ -0,0 +1,503 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Linking,
+  RefreshControl,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { RootStackParamList, Venue } from '../types';
+import MembersOnlyNotice from '../components/MembersOnlyNotice';
+import { useAuth } from '../contexts/AuthContext';
+import { useGroup } from '../contexts/GroupContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useGroupAccess } from '../services/groups';
+import { useGroupVenues, useVenueEvents } from '../services/venues';
+import { colors } from '../utils/colors';
+import { formatDateRange } from '../utils/dateUtils';
+import { getDateKey, parseServerTime } from '../utils/timezone';
+import {
+  ScheduleEntry,
+  buildDaySchedule,
+  formatOpeningHours,
+  getOpeningHours,
+  getScheduleDays,
+  getWeeklyHours,
+} from '../utils/venues';
+
+type VenueDetailRouteProp = RouteProp<RootStackParamList, 'VenueDetail'>;
+type VenueDetailNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'VenueDetail'
+>;
+
+const formatDayLabel = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const openInMaps = async (venue: Venue) => {
+  const query =
+    venue.geo_lat && venue.geo_lng
+      ? `${venue.geo_lat},${venue.geo_lng}`
+      : encodeURIComponent(venue.formatted_address || venue.location || '');
+
+  try {
+    const iosUrl = `maps:?q=${query}`;
+    const url = (await Linking.canOpenURL(iosUrl))
+      ? iosUrl
+      : `https://www.google.com/maps/search/?api=1&query=${query}`;
+    await Linking.openURL(url);
+  } catch (error) {
+    console.error('VenueDetailScreen: Error opening map', error);
+  }
+};
+
+export default function VenueDetailScreen() {
+  const route = useRoute<VenueDetailRouteProp>();
+  const navigation = useNavigation<VenueDetailNavigationProp>();
+  const { venueId } = route.params;
+  const { user, isDemoMode } = useAuth();
+  const { selectedGroupId } = useGroup();
+  const { listTimezone } = useTimezone();
+  const { canViewEvents } = useGroupAccess(
+    selectedGroupId,
+    isDemoMode ? undefined : user?.id
+  );
+  const { width } = useWindowDimensions();
+  const { data: venues, isLoading } = useGroupVenues(selectedGroupId);
+  const {
+    data: events,
+    isLoading: eventsLoading,
+    isRefetching,
+    refetch,
+  } = useVenueEvents(selectedGroupId, venueId);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const venue = venues?.find((v) => v.id === venueId);
+  const days = useMemo(
+    () => (canViewEvents ? getScheduleDays(events || [], listTimezone) : []),
+    [events, canViewEvents, listTimezone]
+  );
+
+  // Start on today, or the next day with sessions, or the last one
+  useEffect(() => {
+    if (days.length === 0 || (selectedDay && days.includes(selectedDay))) {
+      return;
+    }
+    const today = getDateKey(new Date(), listTimezone);
+    setSelectedDay(days.find((day) => day >= today) || days[days.length - 1]);
+  }, [days, selectedDay, listTimezone]);
+
+  useEffect(() => {
+    if (venue) navigation.setOptions({ title: venue.title });
+  }, [venue, navigation]);
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: listTimezone,
+    });
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!venue) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name="business-outline"
+          size={64}
+          color={colors.text.tertiary}
+        />
+        <Text style={styles.errorTitle}>Venue Not Found</Text>
+      </View>
+    );
+  }
+
+  const weeklyHours = getWeeklyHours(venue);
+  const dayHours = selectedDay && getOpeningHours(venue, selectedDay);
+  const availability = formatDateRange(venue.start_date, venue.end_date);
+  const schedule = selectedDay
+    ? buildDaySchedule(events || [], selectedDay, listTimezone)
+    : [];
+  const address = venue.formatted_address || venue.location;
+
+  const renderEntry = (entry: ScheduleEntry, index: number) => {
+    if (entry.kind === 'free') {
+      return (
+        <View key={`free-${index}`} style={styles.freeSlot}>
+          <Text style={styles.freeText}>
+            Free · {formatTime(entry.start)} – {formatTime(entry.end)}
+          </Text>
+        </View>
+      );
+    }
+
+    const { event, status } = entry;
+    return (
+      <TouchableOpacity
+        key={event.id}
+        style={[
+          styles.session,
+          status === 'ongoing' && styles.sessionOngoing,
+          status === 'past' && styles.sessionPast,
+        ]}
+        onPress={() =>
+          navigation.navigate('EventDetail', { eventId: event.id })
+        }
+      >
+        <View style={styles.sessionTimes}>
+          <Text style={styles.sessionTime}>
+            {formatTime(parseServerTime(event.start_time))}
+          </Text>
+          <Text style={styles.sessionEndTime}>
+            {formatTime(parseServerTime(event.end_time))}
+          </Text>
+        </View>
+        <View style={styles.sessionContent}>
+          <Text style={styles.sessionTitle} numberOfLines={2}>
+            {event.title}
+          </Text>
+          {!!(event.owner?.nickname || event.owner?.handle) && (
+            <Text style={styles.sessionHost} numberOfLines={1}>
+              {event.owner?.nickname || event.owner?.handle}
+            </Text>
+          )}
+          {status === 'ongoing' && (
+            <Text style={styles.liveText}>Happening now</Text>
+          )}
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={18}
+          color={colors.text.tertiary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={refetch}
+          colors={[colors.primary]}
+        />
+      }
+    >
+      {!!venue.image_urls?.length && (
+        <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator>
+          {venue.image_urls.map((uri) => (
+            <Image
+              key={uri}
+              source={{ uri, cache: 'force-cache' }}
+              style={[styles.image, { width }]}
+              resizeMode="cover"
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.header}>
+        <Text style={styles.title}>{venue.title}</Text>
+        {!!address && (
+          <TouchableOpacity
+            style={styles.infoRow}
+            onPress={() => openInMaps(venue)}
+          >
+            <Ionicons name="location" size={18} color={colors.primary} />
+            <Text style={[styles.infoText, styles.linkText]}>{address}</Text>
+          </TouchableOpacity>
+        )}
+        {!!venue.capacity && (
+          <View style={styles.infoRow}>
+            <Ionicons name="people" size={18} color={colors.primary} />
+            <Text style={styles.infoText}>Capacity {venue.capacity}</Text>
+          </View>
+        )}
+        {!!availability && (
+          <View style={styles.infoRow}>
+            <Ionicons name="calendar" size={18} color={colors.primary} />
+            <Text style={styles.infoText}>Available {availability}</Text>
+          </View>
+        )}
+        {!!venue.link && (
+          <TouchableOpacity
+            style={styles.infoRow}
+            onPress={() => Linking.openURL(venue.link!)}
+          >
+            <Ionicons name="link" size={18} color={colors.primary} />
+            <Text style={[styles.infoText, styles.linkText]} numberOfLines={1}>
+              {venue.link}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!!venue.about && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>About This Venue</Text>
+          <Text style={styles.content}>{venue.about}</Text>
+        </View>
+      )}
+
+      {weeklyHours && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Opening Hours</Text>
+          {weeklyHours.map((row) => (
+            <View key={row.day} style={styles.hoursRow}>
+              <Text style={styles.hoursDay}>{row.day}</Text>
+              <Text style={styles.hoursText}>{row.hours}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Schedule</Text>
+        {days.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.dayChips}
+          >
+            {days.map((day) => (
+              <TouchableOpacity
+                key={day}
+                style={[
+                  styles.dayChip,
+                  selectedDay === day && styles.dayChipActive,
+                ]}
+                onPress={() => setSelectedDay(day)}
+              >
+                <Text
+                  style={[
+                    styles.dayChipText,
+                    selectedDay === day && styles.dayChipTextActive,
+                  ]}
+                >
+                  {formatDayLabel(day)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+        {selectedDay && (
+          <Text style={styles.dayHeading}>
+            {formatDayLabel(selectedDay)}
+            {dayHours ? ` · Open ${formatOpeningHours(dayHours)}` : ''}
+          </Text>
+        )}
+        {!canViewEvents ? (
+          <MembersOnlyNotice
+            reason="view"
+            onViewGroup={() =>
+              navigation.navigate('GroupDetail', { groupId: selectedGroupId })
+            }
+          />
+        ) : eventsLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : schedule.length === 0 ? (
+          <Text style={styles.emptyText}>Nothing scheduled here yet.</Text>
+        ) : (
+          schedule.map(renderEntry)
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  contentContainer: {
+    paddingBottom: 32,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    backgroundColor: colors.background.primary,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  image: {
+    height: 200,
+    backgroundColor: colors.background.tertiary,
+  },
+  header: {
+    backgroundColor: colors.background.secondary,
+    padding: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.secondary,
+    marginLeft: 8,
+  },
+  linkText: {
+    color: colors.primary,
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: 12,
+  },
+  content: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    lineHeight: 24,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  hoursDay: {
+    width: 56,
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  hoursText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.secondary,
+  },
+  dayChips: {
+    paddingBottom: 12,
+  },
+  dayChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  dayChipActive: {
+    backgroundColor: colors.primary,
+  },
+  dayChipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  dayChipTextActive: {
+    color: '#fff',
+  },
+  dayHeading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.tertiary,
+  },
+  session: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.primary,
+  },
+  sessionOngoing: {
+    backgroundColor: colors.status.infoBg,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    marginHorizontal: -8,
+  },
+  sessionPast: {
+    opacity: 0.5,
+  },
+  sessionTimes: {
+    width: 72,
+  },
+  sessionTime: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  sessionEndTime: {
+    fontSize: 12,
+    color: colors.text.tertiary,
+    marginTop: 2,
+  },
+  sessionContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  sessionHost: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  liveText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.status.info,
+    marginTop: 4,
+  },
+  freeSlot: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.primary,
+  },
+  freeText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: colors.text.tertiary,
+  },
+});
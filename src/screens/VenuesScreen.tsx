@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+  Image,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Event, RootStackParamList, Venue } from '../types';
+import { useGroup } from '../contexts/GroupContext';
+import { useSync } from '../contexts/SyncContext';
+import { useTimezone } from '../contexts/TimezoneContext';
+import { useGroupVenues } from '../services/venues';
+import { selectEvents } from '../services/offlineStore';
+import { colors } from '../utils/colors';
+import { formatEventTime } from '../utils/dateUtils';
+import { getDateKey } from '../utils/timezone';
+import {
+  formatOpeningHours,
+  getNowAndNext,
+  getOpeningHours,
+} from '../utils/venues';
+
+type VenuesScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'Venues'
+>;
+
+export default function VenuesScreen() {
+  const navigation = useNavigation<VenuesScreenNavigationProp>();
+  const { selectedGroupId } = useGroup();
+  const { snapshot } = useSync();
+  const { listTimezone } = useTimezone();
+  const {
+    data: venues,
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useGroupVenues(selectedGroupId);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [, setTick] = useState(0);
+
+  // "Now" and "Next" shift with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Synced events grouped by venue, so every row can show what's on
+  const eventsByVenue = useMemo(() => {
+    const map = new Map<number, Event[]>();
+    if (!snapshot) return map;
+
+    selectEvents(snapshot, { upcomingOnly: true }).forEach((event) => {
+      if (!event.venue_id) return;
+      map.set(event.venue_id, [...(map.get(event.venue_id) || []), event]);
+    });
+    return map;
+  }, [snapshot]);
+
+  const filteredVenues = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return venues || [];
+
+    return (venues || []).filter((venue) =>
+      [venue.title, venue.location, venue.formatted_address].some((field) =>
+        field?.toLowerCase().includes(query)
+      )
+    );
+  }, [venues, searchQuery]);
+
+  const renderVenue = ({ item }: { item: Venue }) => {
+    const { current, next } = getNowAndNext(eventsByVenue.get(item.id) || []);
+    const hours = getOpeningHours(item, getDateKey(new Date(), listTimezone));
+    const nextTime = next && formatEventTime(next.start_time, listTimezone);
+
+    return (
+      <TouchableOpacity
+        style={styles.venueItem}
+        onPress={() => navigation.navigate('VenueDetail', { venueId: item.id })}
+      >
+        {item.image_urls?.[0] ? (
+          <Image
+            source={{ uri: item.image_urls[0], cache: 'force-cache' }}
+            style={styles.thumbnail}
+            resizeMode="cover"
+          />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+            <Ionicons
+              name="business-outline"
+              size={24}
+              color={colors.text.tertiary}
+            />
+          </View>
+        )}
+        <View style={styles.venueContent}>
+          <Text style={styles.venueTitle} numberOfLines={1}>
+            {item.title}
+          </Text>
+          {!!(item.formatted_address || item.location) && (
+            <Text style={styles.venueAddress} numberOfLines={1}>
+              {item.formatted_address || item.location}
+            </Text>
+          )}
+          <View style={styles.metaRow}>
+            {!!item.capacity && (
+              <Text style={styles.metaText}>
+                <Ionicons name="people-outline" size={12} /> {item.capacity}
+              </Text>
+            )}
+            {hours && (
+              <Text style={styles.metaText}>
+                <Ionicons name="time-outline" size={12} />{' '}
+                {formatOpeningHours(hours)}
+              </Text>
+            )}
+          </View>
+          {current ? (
+            <Text style={styles.nowText} numberOfLines={1}>
+              Now: {current.title}
+            </Text>
+          ) : next && nextTime ? (
+            <Text style={styles.nextText} numberOfLines={1}>
+              Next: {next.title} · {nextTime.date}, {nextTime.time}
+            </Text>
+          ) : null}
+        </View>
+        <Ionicons
+          name="chevron-forward"
+          size={18}
+          color={colors.text.tertiary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={colors.text.tertiary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search venues"
+          placeholderTextColor={colors.text.tertiary}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+      <FlatList
+        data={filteredVenues}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderVenue}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={refetch}
+            tintColor={colors.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Ionicons
+              name="business-outline"
+              size={64}
+              color={colors.text.tertiary}
+            />
+            <Text style={styles.emptyTitle}>
+              {searchQuery ? 'No Matching Venues' : 'No Venues'}
+            </Text>
+            <Text style={styles.emptyText}>
+              {searchQuery
+                ? 'Try a different name or address.'
+                : "This community hasn't added any venues yet."}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginTop: 16,
+  },
+  emptyText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.primary,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    marginLeft: 8,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: 16,
+  },
+  venueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 10,
+    backgroundColor: colors.background.secondary,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: colors.background.tertiary,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  venueContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  venueTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  venueAddress: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: colors.text.tertiary,
+    marginRight: 12,
+  },
+  nowText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.status.info,
+    marginTop: 4,
+  },
+  nextText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 4,
+  },
+});
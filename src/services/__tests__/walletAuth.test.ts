@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { getWalletNonce, signInWithWallet } from '../api';
+import {
+  authenticateWithWallet,
+  createMockWalletSigner,
+  toChecksumAddress,
+} from '../walletAuth';
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: async (_algorithm: string, value: string) =>
+    require('crypto').createHash('sha256').update(value).digest('hex'),
+}));
+
+// Stands in for the backend: hands out a nonce and trades the signed message
+// for a token. The tests check what it was sent.
+jest.mock('../api', () => ({
+  getWalletNonce: jest.fn(async () => 'n0nc3'),
+  signInWithWallet: jest.fn(async () => 'wallet_auth_token'),
+}));
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+describe('toChecksumAddress', () => {
+  // Test vectors from EIP-55
+  it.each([
+    '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+    '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+    '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+  ])('encodes %s', (address) => {
+    expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+    expect(toChecksumAddress(address.slice(2).toUpperCase())).toBe(address);
+  });
+});
+
+describe('authenticateWithWallet', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('signs in with the mock Ethereum signer', async () => {
+    const signer = createMockWalletSigner('evm', 'test-seed');
+    const address = await signer.getAddress();
+
+    expect(address).toBe(toChecksumAddress(address));
+    await expect(authenticateWithWallet(signer)).resolves.toBe(
+      'wallet_auth_token'
+    );
+
+    expect(getWalletNonce).toHaveBeenCalledWith(address);
+    const [chain, sentAddress, message, signature] = (
+      signInWithWallet as jest.Mock
+    ).mock.calls[0];
+    expect(chain).toBe('evm');
+    expect(sentAddress).toBe(address);
+    expect(message).toMatch(
+      /^app\.sola\.day wants you to sign in with your Ethereum account:\n/
+    );
+    expect(message).toContain(`\n${address}\n`);
+    expect(message).toContain('\nChain ID: 1\n');
+    expect(message).toContain('\nNonce: n0nc3\n');
+    expect(signature).toBe(await signer.signMessage(message));
+  });
+
+  it('signs in with the mock Solana signer', async () => {
+    const signer = createMockWalletSigner('solana', 'test-seed');
+    const address = await signer.getAddress();
+
+    await expect(authenticateWithWallet(signer)).resolves.toBe(
+      'wallet_auth_token'
+    );
+
+    const [chain, sentAddress, message, signature] = (
+      signInWithWallet as jest.Mock
+    ).mock.calls[0];
+    expect(chain).toBe('solana');
+    expect(sentAddress).toBe(sha256('solana:test-seed').slice(0, 44));
+    expect(sentAddress).toBe(address);
+    expect(message).toContain('wants you to sign in with your Solana account');
+    expect(message).toContain('\nChain ID: mainnet\n');
+    expect(signature).toBe(await signer.signMessage(message));
+  });
+
+  it('checksums the wallet address and ends the session', async () => {
+    const address = '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359';
+    const signer = {
+      ...createMockWalletSigner('evm'),
+      getAddress: async () => address.toLowerCase(),
+      disconnect: jest.fn(async () => undefined),
+    };
+
+    await authenticateWithWallet(signer);
+
+    expect(getWalletNonce).toHaveBeenCalledWith(address);
+    expect((signInWithWallet as jest.Mock).mock.calls[0][1]).toBe(address);
+    expect(signer.disconnect).toHaveBeenCalled();
+  });
+
+  it('fails when the server rejects the signature', async () => {
+    (signInWithWallet as jest.Mock).mockRejectedValueOnce(
+      new Error('Invalid signature')
+    );
+
+    await expect(
+      authenticateWithWallet(createMockWalletSigner('evm'))
+    ).rejects.toThrow('Invalid signature');
+  });
+});
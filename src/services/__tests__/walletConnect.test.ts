@@ -0,0 +1,94 @@
+import { Linking } from 'react-native';
+import SignClient from '@walletconnect/sign-client';
+import { createWalletConnectSigner } from '../walletConnect';
+
+// Stands in for the relay and the wallet app on the other end of it
+const client = {
+  connect: jest.fn(),
+  request: jest.fn(),
+  disconnect: jest.fn(async () => undefined),
+};
+
+jest.mock('@walletconnect/sign-client', () => ({
+  __esModule: true,
+  default: { init: jest.fn() },
+}));
+
+const ADDRESS = '0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359';
+
+const approveWith = (accounts: string[]) =>
+  client.connect.mockResolvedValue({
+    uri: 'wc:abc@2?relay-protocol=irn&symKey=123',
+    approval: async () => ({
+      topic: 'session-topic',
+      namespaces: { eip155: { accounts } },
+      peer: { metadata: { redirect: { native: 'wallet://' } } },
+    }),
+  });
+
+describe('WalletConnect signer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SignClient.init as jest.Mock).mockResolvedValue(client);
+    jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+  });
+
+  it('opens the wallet and returns the approved account', async () => {
+    approveWith([`eip155:1:${ADDRESS}`]);
+    const signer = createWalletConnectSigner();
+
+    await expect(signer.getAddress()).resolves.toBe(ADDRESS);
+    expect(Linking.openURL).toHaveBeenCalledWith(
+      'wc:abc@2?relay-protocol=irn&symKey=123'
+    );
+    expect(client.connect.mock.calls[0][0].optionalNamespaces.eip155).toEqual(
+      expect.objectContaining({
+        chains: ['eip155:1'],
+        methods: ['personal_sign'],
+      })
+    );
+  });
+
+  it('asks the wallet to sign the hex-encoded message', async () => {
+    approveWith([`eip155:1:${ADDRESS}`]);
+    client.request.mockResolvedValue('0xsignature');
+    const signer = createWalletConnectSigner();
+    await signer.getAddress();
+
+    await expect(signer.signMessage('hi ✓')).resolves.toBe('0xsignature');
+    expect(client.request).toHaveBeenCalledWith({
+      topic: 'session-topic',
+      chainId: 'eip155:1',
+      request: {
+        method: 'personal_sign',
+        params: ['0x686920e29c93', ADDRESS],
+      },
+    });
+    expect(Linking.openURL).toHaveBeenLastCalledWith('wallet://');
+
+    await signer.disconnect?.();
+    expect(client.disconnect).toHaveBeenCalledWith(
+      expect.objectContaining({ topic: 'session-topic' })
+    );
+  });
+
+  it('rejects sessions without a mainnet account', async () => {
+    approveWith([`eip155:137:${ADDRESS}`]);
+    const signer = createWalletConnectSigner();
+
+    await expect(signer.getAddress()).rejects.toThrow(
+      'The wallet did not share an Ethereum account'
+    );
+    expect(client.disconnect).toHaveBeenCalled();
+  });
+
+  it('explains when no wallet app can open the connection', async () => {
+    approveWith([`eip155:1:${ADDRESS}`]);
+    (Linking.openURL as jest.Mock).mockRejectedValueOnce(new Error('No app'));
+    const signer = createWalletConnectSigner();
+
+    await expect(signer.getAddress()).rejects.toThrow(
+      'No wallet app that supports WalletConnect found'
+    );
+  });
+});
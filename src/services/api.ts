@@ -1,5 +1,6 @@
 import {
   ApolloClient,
+  FetchPolicy,
   InMemoryCache,
   gql,
   createHttpLink,
@@ -9,7 +10,22 @@ import { setContext } from '@apollo/client/link/context';
 import { onError } from '@apollo/client/link/error';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
-import { Profile, Event, EventWithJoinStatus, Group } from '../types';
+import {
+  Profile,
+  Badge,
+  BadgeClass,
+  Event,
+  EventDraft,
+  EventUpdate,
+  EventWithJoinStatus,
+  Group,
+  Membership,
+  Participant,
+  ProfileUpdate,
+  Track,
+  Venue,
+} from '../types';
+import { WalletChain } from './walletAuth';
 
 // API Configuration
 const API_URL = Constants.expoConfig?.extra?.apiUrl;
@@ -17,7 +33,6 @@ const GRAPH_URL = Constants.expoConfig?.extra?.graphUrl;
 
 // Group Configuration - Edge Esmeralda Pop-up City
 const DEFAULT_GROUP_ID = 3579;
-const LOCAL_TIMEZONE = 'America/Los_Angeles'; // PDT/PST
 
 if (!API_URL || !GRAPH_URL) {
   throw new Error('Missing configuration: API_URL or GRAPH_URL is not defined');
@@ -219,15 +234,18 @@ export const getEventDetail = async (
   }
 };
 
+// React Native's FormData accepts a { uri, name, type } descriptor for files
+export type UploadableFile = Blob | { uri: string; name: string; type: string };
+
 export const uploadFile = async (
-  file: FormData,
+  file: UploadableFile,
   auth_token: string
 ): Promise<string> => {
   const formData = new FormData();
   formData.append('auth_token', auth_token);
   formData.append('uploader', 'user');
   formData.append('resource', Math.random().toString(36).slice(-8));
-  formData.append('data', file);
+  formData.append('data', file as Blob);
 
   const response = await fetch(`${API_URL}/service/upload_image`, {
     method: 'POST',
@@ -243,7 +261,7 @@ export const uploadFile = async (
 };
 
 export const updateProfile = async (
-  profile: Profile,
+  changes: ProfileUpdate,
   auth_token: string
 ): Promise<Profile> => {
   const response = await fetch(`${API_URL}/profile/update`, {
@@ -251,17 +269,173 @@ export const updateProfile = async (
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ ...profile, auth_token }),
+    body: JSON.stringify({ ...changes, auth_token }),
   });
 
   if (!response.ok) {
-    throw new Error('Update failed');
+    const errorText = await response.text();
+    console.error('updateProfile: API error', {
+      status: response.status,
+      statusText: response.statusText,
+      body: errorText,
+    });
+    throw new Error(errorText || 'Update failed');
   }
 
   const data = await response.json();
   return data.profile as Profile;
 };
 
+export const createEvent = async (
+  draft: EventDraft,
+  auth_token: string
+): Promise<Event> => {
+  const url = `${API_URL}/event/create`;
+  const { group_id, event_roles, ...event } = draft;
+  console.log('createEvent: Creating event in group', group_id);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        auth_token,
+        group_id,
+        event: {
+          ...event,
+          event_roles_attributes: event_roles,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('createEvent: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        group_id,
+      });
+      throw new Error(
+        errorText || `Failed to create event: ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    console.log('createEvent: Success', data.event?.id);
+    return {
+      ...data.event,
+      owner: data.event.owner || data.event.profile,
+    } as Event;
+  } catch (error) {
+    console.error('createEvent: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      group_id,
+    });
+    throw error;
+  }
+};
+
+export const updateEvent = async (
+  eventId: number,
+  changes: EventUpdate,
+  auth_token: string
+): Promise<Event> => {
+  const url = `${API_URL}/event/update`;
+  const { event_roles, ...event } = changes;
+  console.log('updateEvent: Updating event', eventId);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        auth_token,
+        id: eventId,
+        event: {
+          ...event,
+          ...(event_roles ? { event_roles_attributes: event_roles } : {}),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('updateEvent: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        eventId,
+      });
+      throw new Error(
+        errorText || `Failed to update event: ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    return {
+      ...data.event,
+      owner: data.event.owner || data.event.profile,
+    } as Event;
+  } catch (error) {
+    console.error('updateEvent: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      eventId,
+    });
+    throw error;
+  }
+};
+
+export const cancelEvent = async (
+  eventId: number,
+  auth_token: string
+): Promise<void> => {
+  const url = `${API_URL}/event/cancel_event`;
+  console.log('cancelEvent: Canceling event', eventId);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: eventId,
+        auth_token,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('cancelEvent: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        eventId,
+      });
+      throw new Error(
+        errorText || `Failed to cancel event: ${response.status}`
+      );
+    }
+  } catch (error) {
+    console.error('cancelEvent: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      eventId,
+    });
+    throw error;
+  }
+};
+
 // GraphQL Queries
 export const GET_EVENTS = gql`
   query GetEvents(
@@ -289,6 +463,8 @@ export const GET_EVENTS = gql`
       max_participant
       status
       display
+      track_id
+      venue_id
       owner {
         id
         handle
@@ -335,8 +511,11 @@ export const GET_EVENT_DETAIL = gql`
       max_participant
       min_participant
       participants_count
+      badge_class_id
       status
       display
+      track_id
+      venue_id
       owner {
         id
         handle
@@ -344,8 +523,12 @@ export const GET_EVENT_DETAIL = gql`
         image_url
       }
       event_roles {
+        id
         role
         nickname
+        image_url
+        item_id
+        item_type
         profile {
           id
           handle
@@ -360,7 +543,7 @@ export const GET_EVENT_DETAIL = gql`
         image_url
       }
       participants(where: {
-        status: {_neq: "cancelled"}, 
+        status: {_nin: ["cancelled", "waitlisted"]}, 
         _or: [
           {payment_status: {_is_null: true}}, 
           {payment_status: {_eq: "succeeded"}}
@@ -391,6 +574,10 @@ export const GET_EVENT_DETAIL = gql`
         title
         content
         quantity
+        status
+        end_time
+        ticket_type
+        tracks_allowed
         need_approval
         payment_chain
         payment_token_price
@@ -399,13 +586,83 @@ export const GET_EVENT_DETAIL = gql`
           id
           price
           token_name
+          token_address
+          receiver_address
           chain
+          protocol
         }
       }
     }
   }
 `;
 
+// The event detail query hides unpaid participants, so the viewer's own
+// participation (including pending and failed payments) is loaded separately
+export const GET_MY_PARTICIPATION = gql`
+  query GetMyParticipation($eventId: bigint!, $profileId: bigint!) {
+    participants(
+      where: {
+        event_id: { _eq: $eventId }
+        profile_id: { _eq: $profileId }
+        status: { _neq: "cancelled" }
+      }
+      order_by: { id: desc }
+      limit: 1
+    ) {
+      id
+      status
+      payment_status
+      ticket_id
+      created_at
+      ticket {
+        id
+        title
+      }
+    }
+  }
+`;
+
+// People waiting for a spot at a full event, first in line first
+export const GET_EVENT_WAITLIST = gql`
+  query GetEventWaitlist($eventId: bigint!) {
+    participants(
+      where: { event_id: { _eq: $eventId }, status: { _eq: "waitlisted" } }
+      order_by: [{ created_at: asc }, { id: asc }]
+    ) {
+      id
+      profile_id
+      created_at
+    }
+  }
+`;
+
+// Every participant of an event, cancelled ones included, for its hosts
+export const GET_EVENT_PARTICIPANTS = gql`
+  query GetEventParticipants($eventId: bigint!) {
+    participants(
+      where: { event_id: { _eq: $eventId } }
+      order_by: { created_at: asc }
+    ) {
+      id
+      status
+      payment_status
+      ticket_id
+      created_at
+      profile {
+        id
+        handle
+        nickname
+        image_url
+      }
+      ticket {
+        id
+        title
+        need_approval
+      }
+    }
+  }
+`;
+
 export const GET_USER_EVENTS = gql`
   query GetUserEvents($userId: Int!) {
     participants(
@@ -555,6 +812,121 @@ export const verifyEmailPin = async (
   }
 };
 
+// Trades a Google ID token for a Social Layer auth token
+export const signInWithGoogleIdToken = async (
+  idToken: string
+): Promise<string> => {
+  const url = `${API_URL}/profile/signin_with_google`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id_token: idToken }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('signInWithGoogleIdToken: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+      });
+      throw new Error(errorText || `Google sign-in failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.auth_token) {
+      console.error('signInWithGoogleIdToken: No auth_token in response');
+      throw new Error('No auth token received from server');
+    }
+
+    return data.auth_token;
+  } catch (error) {
+    console.error('signInWithGoogleIdToken: Network/Parse error', error);
+    throw error;
+  }
+};
+
+// Fetches a one-time nonce for the wallet to sign
+export const getWalletNonce = async (address: string): Promise<string> => {
+  const url = `${API_URL}/profile/get_nonce?address=${encodeURIComponent(address)}`;
+
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('getWalletNonce: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+      });
+      throw new Error(errorText || `Failed to get nonce: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.nonce) {
+      throw new Error('No nonce received from server');
+    }
+    return data.nonce;
+  } catch (error) {
+    console.error('getWalletNonce: Network/Parse error', error);
+    throw error;
+  }
+};
+
+export const signInWithWallet = async (
+  chain: WalletChain,
+  address: string,
+  message: string,
+  signature: string
+): Promise<string> => {
+  const url =
+    chain === 'evm'
+      ? `${API_URL}/profile/signin_with_ethereum`
+      : `${API_URL}/profile/signin_with_solana`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ address, message, signature }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('signInWithWallet: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        address,
+      });
+      throw new Error(errorText || `Wallet sign-in failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.auth_token) {
+      console.error('signInWithWallet: No auth_token in response');
+      throw new Error('No auth token received from server');
+    }
+
+    return data.auth_token;
+  } catch (error) {
+    console.error('signInWithWallet: Network/Parse error', error);
+    throw error;
+  }
+};
+
 // RSVP Functions
 export const attendEvent = async (
   eventId: number,
@@ -603,23 +975,19 @@ export const attendEvent = async (
   }
 };
 
-export const cancelAttendance = async (
+export const joinEventWithTicket = async (
   eventId: number,
+  ticketId: number,
+  paymentMethodId: number | undefined,
   authToken: string
-): Promise<void> => {
-  // Check if this is a demo token
-  if (authToken.startsWith('demo_auth_token_')) {
-    console.log(
-      'cancelAttendance: Demo mode - simulating successful cancellation',
-      eventId
-    );
-    // Simulate a small delay
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    return;
-  }
-
-  const url = `${API_URL}/event/cancel`;
-  console.log('cancelAttendance: Canceling attendance for event', eventId);
+): Promise<Participant> => {
+  const url = `${API_URL}/ticket/rsvp`;
+  console.log(
+    'joinEventWithTicket: Joining event',
+    eventId,
+    'with ticket',
+    ticketId
+  );
 
   try {
     const response = await fetch(url, {
@@ -629,28 +997,221 @@ export const cancelAttendance = async (
       },
       body: JSON.stringify({
         id: eventId,
+        ticket_id: ticketId,
+        payment_method_id: paymentMethodId,
         auth_token: authToken,
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error('cancelAttendance: API error', {
+      console.error('joinEventWithTicket: API error', {
         status: response.status,
         statusText: response.statusText,
         body: errorText,
         url,
         eventId,
+        ticketId,
       });
-      throw new Error(
-        errorText || `Failed to cancel attendance: ${response.status}`
-      );
+      throw new Error(errorText || `Failed to join event: ${response.status}`);
     }
 
-    console.log(
+    const data = await response.json();
+    return data.participant as Participant;
+  } catch (error) {
+    console.error('joinEventWithTicket: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      eventId,
+      ticketId,
+    });
+    throw error;
+  }
+};
+
+export const getMyParticipation = async (
+  eventId: number,
+  profileId: number
+): Promise<Participant | null> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_MY_PARTICIPATION,
+      variables: { eventId, profileId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.participants[0] || null;
+  } catch (error) {
+    console.error('getMyParticipation: GraphQL error', {
+      error: error instanceof Error ? error.message : error,
+      eventId,
+      profileId,
+    });
+    throw error;
+  }
+};
+
+export const getEventParticipants = async (
+  eventId: number
+): Promise<Participant[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_EVENT_PARTICIPANTS,
+      variables: { eventId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.participants || [];
+  } catch (error) {
+    console.error('getEventParticipants: GraphQL error', error);
+    throw error;
+  }
+};
+
+export const getEventWaitlist = async (
+  eventId: number
+): Promise<Pick<Participant, 'id' | 'profile_id' | 'created_at'>[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_EVENT_WAITLIST,
+      variables: { eventId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.participants || [];
+  } catch (error) {
+    console.error('getEventWaitlist: GraphQL error', error);
+    throw error;
+  }
+};
+
+// Queues the viewer for a full event. They join as "waitlisted" and become
+// "attending" when a spot is handed to them. POST /event/join_waitlist takes
+// the same { id, auth_token } body as /event/join.
+export const joinWaitlist = async (
+  eventId: number,
+  authToken: string
+): Promise<void> => {
+  if (authToken.startsWith('demo_auth_token_')) {
+    console.log('joinWaitlist: Demo mode - simulating waitlist join', eventId);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return;
+  }
+
+  const url = `${API_URL}/event/join_waitlist`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: eventId,
+        auth_token: authToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('joinWaitlist: API error', {
+        status: response.status,
+        body: errorText,
+        eventId,
+      });
+      throw new Error(
+        errorText || `Failed to join waitlist: ${response.status}`
+      );
+    }
+  } catch (error) {
+    console.error('joinWaitlist: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      eventId,
+    });
+    throw error;
+  }
+};
+
+// Hands freed spots to the front of the waitlist. The server checks there
+// is room, so calling it when nothing opened up is harmless. POST
+// /event/promote_waitlist takes the same { id, auth_token } body as
+// /event/cancel.
+export const promoteWaitlist = async (
+  eventId: number,
+  authToken: string
+): Promise<void> => {
+  const url = `${API_URL}/event/promote_waitlist`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      id: eventId,
+      auth_token: authToken,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      errorText || `Failed to promote waitlist: ${response.status}`
+    );
+  }
+};
+
+export const cancelAttendance = async (
+  eventId: number,
+  authToken: string
+): Promise<void> => {
+  // Check if this is a demo token
+  if (authToken.startsWith('demo_auth_token_')) {
+    console.log(
+      'cancelAttendance: Demo mode - simulating successful cancellation',
+      eventId
+    );
+    // Simulate a small delay
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return;
+  }
+
+  const url = `${API_URL}/event/cancel`;
+  console.log('cancelAttendance: Canceling attendance for event', eventId);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: eventId,
+        auth_token: authToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('cancelAttendance: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        eventId,
+      });
+      throw new Error(
+        errorText || `Failed to cancel attendance: ${response.status}`
+      );
+    }
+
+    console.log(
       'cancelAttendance: Successfully canceled attendance for event',
       eventId
     );
+
+    // The cancellation itself went through, so a failed promotion is only
+    // logged; the next cancellation will retry it
+    await promoteWaitlist(eventId, authToken).catch((error) =>
+      console.warn('cancelAttendance: Waitlist promotion failed', error)
+    );
   } catch (error) {
     console.error('cancelAttendance: Network/Parse error', {
       error: error instanceof Error ? error.message : error,
@@ -661,10 +1222,126 @@ export const cancelAttendance = async (
   }
 };
 
+// Marks an attendee as checked in; only the event's hosts may do this
+export const checkInParticipant = async (
+  eventId: number,
+  participantId: number,
+  authToken: string
+): Promise<void> => {
+  // Check if this is a demo token
+  if (authToken.startsWith('demo_auth_token_')) {
+    console.log(
+      'checkInParticipant: Demo mode - simulating successful check-in',
+      participantId
+    );
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return;
+  }
+
+  const url = `${API_URL}/event/checkin`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: eventId,
+        participant_id: participantId,
+        auth_token: authToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('checkInParticipant: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        participantId,
+      });
+      throw new Error(errorText || `Failed to check in: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('checkInParticipant: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      participantId,
+    });
+    throw error;
+  }
+};
+
+// Approves or rejects a request for an approval-only ticket; hosts only
+export const reviewParticipant = async (
+  eventId: number,
+  participantId: number,
+  decision: 'approve' | 'reject',
+  authToken: string
+): Promise<void> => {
+  // Check if this is a demo token
+  if (authToken.startsWith('demo_auth_token_')) {
+    console.log(
+      `reviewParticipant: Demo mode - simulating ${decision}`,
+      participantId
+    );
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return;
+  }
+
+  const url = `${API_URL}/event/${decision}_participant`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: eventId,
+        participant_id: participantId,
+        auth_token: authToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('reviewParticipant: API error', {
+        status: response.status,
+        statusText: response.statusText,
+        body: errorText,
+        url,
+        participantId,
+      });
+      throw new Error(
+        errorText || `Failed to ${decision} participant: ${response.status}`
+      );
+    }
+  } catch (error) {
+    console.error('reviewParticipant: Network/Parse error', {
+      error: error instanceof Error ? error.message : error,
+      url,
+      participantId,
+    });
+    throw error;
+  }
+};
+
 // My Events Functions
 export const getMyEvents = async (
-  authToken: string
-): Promise<{ attending: Event[]; hosting: Event[]; starred: Event[] }> => {
+  authToken: string,
+  fetchPolicy?: FetchPolicy
+): Promise<{
+  attending: Event[];
+  hosting: Event[];
+  starred: Event[];
+  // Attending events where the viewer's request awaits host approval
+  pendingApproval: number[];
+  // Full events the viewer is queued for; not included in `attending`
+  waitlisted: number[];
+}> => {
   const profile = await getProfileByToken(authToken);
   if (!profile) {
     throw new Error('Unable to get user profile');
@@ -677,6 +1354,8 @@ export const getMyEvents = async (
       attending: [],
       hosting: [],
       starred: [],
+      pendingApproval: [],
+      waitlisted: [],
     };
   }
 
@@ -688,9 +1367,10 @@ export const getMyEvents = async (
           participants(
             where: {
               profile_id: { _eq: $userId }
-              status: { _in: ["applied", "attending", "checked"] }
+              status: { _in: ["applied", "attending", "checked", "waitlisted"] }
             }
           ) {
+            status
             event {
               id
               title
@@ -698,6 +1378,8 @@ export const getMyEvents = async (
               end_time
               timezone
               location
+              formatted_address
+              meeting_url
               cover_url
               content
               tags
@@ -722,6 +1404,7 @@ export const getMyEvents = async (
         }
       `,
       variables: { userId: profile.id },
+      fetchPolicy,
     });
 
     // Get hosting events
@@ -761,6 +1444,7 @@ export const getMyEvents = async (
         }
       `,
       variables: { userId: profile.id },
+      fetchPolicy,
     });
 
     // Get starred events - using REST API similar to web app
@@ -790,9 +1474,15 @@ export const getMyEvents = async (
       console.warn('getMyEvents: Error fetching starred events', error);
     }
 
-    const attendingEvents = attendingResult.data.participants.map(
-      (p: any) => p.event
-    );
+    const attendingEvents = attendingResult.data.participants
+      .filter((p: any) => p.status !== 'waitlisted')
+      .map((p: any) => p.event);
+    const waitlisted: number[] = attendingResult.data.participants
+      .filter((p: any) => p.status === 'waitlisted')
+      .map((p: any) => p.event.id);
+    const pendingApproval: number[] = attendingResult.data.participants
+      .filter((p: any) => p.status === 'applied')
+      .map((p: any) => p.event.id);
     const hostingEvents = hostingResult.data.events;
 
     console.log('getMyEvents: Success', {
@@ -818,6 +1508,8 @@ export const getMyEvents = async (
       attending: attendingEvents,
       hosting: hostingEvents,
       starred: starredEvents,
+      pendingApproval,
+      waitlisted,
     };
   } catch (error) {
     console.error('getMyEvents: Error', error);
@@ -849,6 +1541,34 @@ export const getEventsForGroup = (
   };
 };
 
+// Events a profile hosts or attends within a group
+export const getEventsForProfile = (
+  profileId: number,
+  groupId: number,
+  relation: 'hosting' | 'attending'
+) => {
+  const whereClause: any = { group_id: { _eq: groupId } };
+
+  if (relation === 'hosting') {
+    whereClause.owner_id = { _eq: profileId };
+  } else {
+    whereClause.participants = {
+      profile_id: { _eq: profileId },
+      status: { _in: ['applied', 'attending', 'checked'] },
+    };
+  }
+
+  return {
+    query: GET_EVENTS,
+    variables: {
+      limit: 100,
+      offset: 0,
+      groupId: groupId,
+      where: whereClause,
+    },
+  };
+};
+
 // Calendar-specific function to get events for a date range
 export const getEventsForCalendar = (
   groupId: number = DEFAULT_GROUP_ID,
@@ -888,7 +1608,8 @@ export const getEventsWithPagination = (
       limit,
       offset,
       groupId,
-      where: { group_id: { _eq: groupId } },
+      // Callers narrow this further, e.g. by end time or track
+      where: { group_id: { _eq: groupId } } as Record<string, unknown>,
     },
   };
 };
@@ -1183,12 +1904,32 @@ export const GET_ALL_GROUPS = gql`
       events_count
       memberships_count
       status
+      timezone
+      event_tags
     }
   }
 `;
 
+// Groups the user belongs to, and groups of events they've RSVP'd to
 export const GET_USER_GROUPS = gql`
   query GetUserGroups($userId: Int!) {
+    memberships(
+      where: {
+        profile_id: { _eq: $userId }
+        _or: [{ status: { _is_null: true } }, { status: { _neq: "pending" } }]
+      }
+    ) {
+      group {
+        id
+        handle
+        nickname
+        image_url
+        about
+        events_count
+        memberships_count
+        status
+      }
+    }
     participants(
       where: {
         profile_id: { _eq: $userId }
@@ -1236,7 +1977,7 @@ export const getUserGroups = async (authToken: string): Promise<Group[]> => {
   }
 
   try {
-    // Get user's attended events to find groups they've RSVP'd to
+    // Get user's memberships and attended events to find their groups
     const profile = await getProfileByToken(authToken);
     if (!profile) {
       return [];
@@ -1253,8 +1994,10 @@ export const getUserGroups = async (authToken: string): Promise<Group[]> => {
       fetchPolicy: 'network-only',
     });
 
-    const userGroups = attendingResult.data.participants
-      .map((p: any) => p.event.group)
+    const userGroups = [
+      ...attendingResult.data.memberships.map((m: any) => m.group),
+      ...attendingResult.data.participants.map((p: any) => p.event.group),
+    ]
       .filter((group: any) => group && group.id)
       .reduce((unique: any[], group: any) => {
         if (!unique.find((g) => g.id === group.id)) {
@@ -1271,5 +2014,562 @@ export const getUserGroups = async (authToken: string): Promise<Group[]> => {
   }
 };
 
-// Export timezone for use in components
-export { LOCAL_TIMEZONE };
+// A group's page, including who may view and join its events
+export const GET_GROUP_DETAIL = gql`
+  query GetGroupDetail($groupId: bigint!) {
+    groups_by_pk(id: $groupId) {
+      id
+      handle
+      nickname
+      image_url
+      about
+      location
+      events_count
+      memberships_count
+      status
+      timezone
+      event_tags
+      map_enabled
+      can_publish_event
+      can_join_event
+      can_view_event
+    }
+  }
+`;
+
+// Members by role, plus requests still waiting for a manager
+export const GET_GROUP_MEMBERSHIPS = gql`
+  query GetGroupMemberships($groupId: bigint!) {
+    memberships(
+      where: { group_id: { _eq: $groupId } }
+      order_by: { created_at: asc }
+    ) {
+      id
+      role
+      status
+      created_at
+      profile {
+        id
+        handle
+        nickname
+        image_url
+      }
+    }
+  }
+`;
+
+export const GET_MY_MEMBERSHIP = gql`
+  query GetMyMembership($groupId: bigint!, $profileId: bigint!) {
+    memberships(
+      where: { group_id: { _eq: $groupId }, profile_id: { _eq: $profileId } }
+      limit: 1
+    ) {
+      id
+      role
+      status
+      created_at
+      profile {
+        id
+        handle
+        nickname
+        image_url
+      }
+    }
+  }
+`;
+
+export const getGroupDetail = async (
+  groupId: number
+): Promise<Group | null> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_GROUP_DETAIL,
+      variables: { groupId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.groups_by_pk || null;
+  } catch (error) {
+    console.error('getGroupDetail: GraphQL error', error);
+    throw error;
+  }
+};
+
+export const getGroupMemberships = async (
+  groupId: number
+): Promise<Membership[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_GROUP_MEMBERSHIPS,
+      variables: { groupId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.memberships || [];
+  } catch (error) {
+    console.error('getGroupMemberships: GraphQL error', error);
+    throw error;
+  }
+};
+
+// The viewer's membership of a group, or null when they aren't in it
+export const getMyMembership = async (
+  groupId: number,
+  profileId: number
+): Promise<Membership | null> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_MY_MEMBERSHIP,
+      variables: { groupId, profileId },
+      fetchPolicy: 'network-only',
+    });
+    return result.data.memberships[0] || null;
+  } catch (error) {
+    console.error('getMyMembership: GraphQL error', error);
+    throw error;
+  }
+};
+
+// Shared by the membership actions below, which all post the group id and
+// the viewer's token
+const postGroupAction = async (
+  action: string,
+  body: Record<string, unknown>,
+  authToken: string
+): Promise<void> => {
+  const url = `${API_URL}/group/${action}`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ ...body, auth_token: authToken }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`group/${action}: API error`, {
+        status: response.status,
+        body: errorText,
+        ...body,
+      });
+      throw new Error(errorText || `Failed to ${action}: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`group/${action}: Network/Parse error`, {
+      error: error instanceof Error ? error.message : error,
+      url,
+    });
+    throw error;
+  }
+};
+
+// Open groups add the viewer straight away; others record a membership
+// request ("pending") for a manager to review
+export const joinGroup = (groupId: number, authToken: string) =>
+  postGroupAction('join', { id: groupId }, authToken);
+
+// Also withdraws a membership request that hasn't been reviewed yet
+export const leaveGroup = (groupId: number, authToken: string) =>
+  postGroupAction('leave', { id: groupId }, authToken);
+
+// Accepts or declines a membership request; only managers may do this
+export const reviewMembershipRequest = (
+  groupId: number,
+  membershipId: number,
+  decision: 'accept' | 'reject',
+  authToken: string
+) =>
+  postGroupAction(
+    `${decision}_request`,
+    { id: groupId, membership_id: membershipId },
+    authToken
+  );
+
+// Badge Queries
+export const GET_BADGES_BY_OWNER = gql`
+  query GetBadgesByOwner($ownerId: Int!, $limit: Int!) {
+    badges(
+      where: { owner_id: { _eq: $ownerId }, display: { _neq: "hide" } }
+      order_by: { id: desc }
+      limit: $limit
+    ) {
+      id
+      title
+      image_url
+      content
+      display
+      created_at
+      creator_id
+      owner_id
+      badge_class {
+        id
+        title
+        image_url
+        badge_type
+      }
+      creator {
+        id
+        handle
+        nickname
+        image_url
+      }
+    }
+  }
+`;
+
+export const GET_BADGE_CLASS_DETAIL = gql`
+  query GetBadgeClassDetail($id: bigint!, $holdersLimit: Int!) {
+    badge_classes_by_pk(id: $id) {
+      id
+      title
+      image_url
+      content
+      metadata
+      badge_type
+      transferable
+      group_id
+      counter
+      created_at
+      creator {
+        id
+        handle
+        nickname
+        image_url
+      }
+      badges(
+        where: { display: { _neq: "hide" } }
+        order_by: { id: desc }
+        limit: $holdersLimit
+      ) {
+        id
+        created_at
+        owner {
+          id
+          handle
+          nickname
+          image_url
+        }
+      }
+    }
+  }
+`;
+
+// Badge API Functions
+export const getBadgesByOwner = async (
+  ownerId: number,
+  limit: number = 100
+): Promise<Badge[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_BADGES_BY_OWNER,
+      variables: { ownerId, limit },
+      fetchPolicy: 'network-only',
+    });
+
+    const badges = result.data.badges || [];
+    console.log('getBadgesByOwner: Success', `${badges.length} badges`);
+    return badges as Badge[];
+  } catch (error) {
+    console.error('getBadgesByOwner: GraphQL error', error);
+    throw error;
+  }
+};
+
+export type BadgeClassDetail = BadgeClass & {
+  badges: Pick<Badge, 'id' | 'created_at' | 'owner'>[];
+};
+
+export const getBadgeClass = async (
+  badgeClassId: number,
+  holdersLimit: number = 50
+): Promise<BadgeClassDetail | null> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_BADGE_CLASS_DETAIL,
+      variables: { id: badgeClassId, holdersLimit },
+      fetchPolicy: 'network-only',
+    });
+
+    return result.data.badge_classes_by_pk || null;
+  } catch (error) {
+    console.error('getBadgeClass: GraphQL error', error);
+    throw error;
+  }
+};
+
+// Offline Sync Queries
+export const GET_EVENTS_UPDATED_SINCE = gql`
+  query GetEventsUpdatedSince(
+    $groupId: bigint!
+    $since: timestamp!
+    $limit: Int!
+    $offset: Int!
+  ) {
+    events(
+      where: { group_id: { _eq: $groupId }, updated_at: { _gt: $since } }
+      order_by: { updated_at: asc }
+      limit: $limit
+      offset: $offset
+    ) {
+      id
+      title
+      start_time
+      end_time
+      timezone
+      location
+      formatted_address
+      geo_lat
+      geo_lng
+      cover_url
+      content
+      tags
+      participants_count
+      max_participant
+      status
+      display
+      track_id
+      venue_id
+      updated_at
+      owner {
+        id
+        handle
+        nickname
+        image_url
+      }
+      group {
+        id
+        handle
+        nickname
+        image_url
+      }
+      event_roles {
+        role
+        nickname
+        profile {
+          id
+          handle
+          nickname
+          image_url
+        }
+      }
+    }
+  }
+`;
+
+export const GET_TRACKS_FOR_GROUP = gql`
+  query GetTracksForGroup($groupId: Int!) {
+    tracks(where: { group_id: { _eq: $groupId } }, order_by: { id: asc }) {
+      id
+      tag
+      title
+      about
+      start_date
+      end_date
+      icon_url
+    }
+  }
+`;
+
+// Tickets the viewer holds in a group that are limited to certain tracks
+export const GET_MY_TRACK_TICKETS = gql`
+  query GetMyTrackTickets($groupId: bigint!, $profileId: bigint!) {
+    participants(
+      where: {
+        profile_id: { _eq: $profileId }
+        status: { _neq: "cancelled" }
+        event: { group_id: { _eq: $groupId } }
+        ticket_id: { _is_null: false }
+      }
+    ) {
+      id
+      ticket {
+        id
+        tracks_allowed
+      }
+    }
+  }
+`;
+
+export const GET_VENUES_FOR_GROUP = gql`
+  query GetVenuesForGroup($groupId: Int!) {
+    venues(
+      where: { group_id: { _eq: $groupId }, removed: { _is_null: true } }
+      order_by: { title: asc }
+    ) {
+      id
+      title
+      about
+      location
+      formatted_address
+      geo_lat
+      geo_lng
+      capacity
+      link
+      start_date
+      end_date
+      image_urls
+      venue_timeslots {
+        id
+        day_of_week
+        start_at
+        end_at
+        disabled
+      }
+      venue_overrides {
+        id
+        day
+        start_at
+        end_at
+        disabled
+      }
+      updated_at
+    }
+  }
+`;
+
+// Offline Sync API Functions
+
+// Events in a group changed after `since`, oldest change first
+export const getEventsUpdatedSince = async (
+  groupId: number,
+  since: string,
+  limit: number = 200,
+  offset: number = 0
+): Promise<Event[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_EVENTS_UPDATED_SINCE,
+      variables: { groupId, since, limit, offset },
+      fetchPolicy: 'network-only',
+    });
+
+    return result.data.events || [];
+  } catch (error) {
+    console.error('getEventsUpdatedSince: GraphQL error', error);
+    throw error;
+  }
+};
+
+export const getTracksForGroup = async (groupId: number): Promise<Track[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_TRACKS_FOR_GROUP,
+      variables: { groupId },
+      fetchPolicy: 'network-only',
+    });
+
+    return result.data.tracks || [];
+  } catch (error) {
+    console.error('getTracksForGroup: GraphQL error', error);
+    throw error;
+  }
+};
+
+const ALL_EVENTS_PAGE_SIZE = 200;
+
+// Reads every event matching `where`, a page at a time, so long schedules
+// aren't cut off
+const getAllEvents = async (
+  groupId: number,
+  where: Record<string, unknown>
+): Promise<Event[]> => {
+  const events: Event[] = [];
+  let page: Event[];
+  do {
+    const result = await apolloClient.query({
+      query: GET_EVENTS,
+      variables: {
+        limit: ALL_EVENTS_PAGE_SIZE,
+        offset: events.length,
+        groupId,
+        where,
+      },
+      fetchPolicy: 'network-only',
+    });
+    page = result.data.events || [];
+    events.push(...page);
+  } while (page.length === ALL_EVENTS_PAGE_SIZE);
+
+  return events;
+};
+
+export const getEventsForTrack = async (
+  groupId: number,
+  trackId: number
+): Promise<Event[]> => {
+  try {
+    return await getAllEvents(groupId, {
+      group_id: { _eq: groupId },
+      track_id: { _eq: trackId },
+      status: { _neq: 'cancel' },
+    });
+  } catch (error) {
+    console.error('getEventsForTrack: GraphQL error', error);
+    throw error;
+  }
+};
+
+// Track ids the viewer's tickets give access to, or null when they may see
+// every track: they hold no tickets in the group, or at least one ticket
+// that isn't limited to tracks
+export const getMyAllowedTrackIds = async (
+  groupId: number,
+  profileId: number
+): Promise<number[] | null> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_MY_TRACK_TICKETS,
+      variables: { groupId, profileId },
+      fetchPolicy: 'network-only',
+    });
+
+    const tickets = (result.data.participants || [])
+      .map((participant: any) => participant.ticket)
+      .filter(Boolean);
+    if (
+      tickets.length === 0 ||
+      tickets.some((ticket: any) => !ticket.tracks_allowed?.length)
+    ) {
+      return null;
+    }
+
+    return Array.from(
+      new Set<number>(tickets.flatMap((ticket: any) => ticket.tracks_allowed))
+    );
+  } catch (error) {
+    console.error('getMyAllowedTrackIds: GraphQL error', error);
+    throw error;
+  }
+};
+
+export const getVenuesForGroup = async (groupId: number): Promise<Venue[]> => {
+  try {
+    const result = await apolloClient.query({
+      query: GET_VENUES_FOR_GROUP,
+      variables: { groupId },
+      fetchPolicy: 'network-only',
+    });
+
+    return result.data.venues || [];
+  } catch (error) {
+    console.error('getVenuesForGroup: GraphQL error', error);
+    throw error;
+  }
+};
+
+export const getEventsForVenue = async (
+  groupId: number,
+  venueId: number
+): Promise<Event[]> => {
+  try {
+    return await getAllEvents(groupId, {
+      group_id: { _eq: groupId },
+      venue_id: { _eq: venueId },
+      status: { _neq: 'cancel' },
+    });
+  } catch (error) {
+    console.error('getEventsForVenue: GraphQL error', error);
+    throw error;
+  }
+};
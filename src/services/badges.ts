@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { getBadgeClass, getBadgesByOwner } from './api';
+
+export const BADGE_QUERY_KEYS = {
+  BADGES_BY_OWNER: 'badgesByOwner',
+  BADGE_CLASS: 'badgeClass',
+} as const;
+
+// Hook to get the badges a profile holds
+export const useBadgesByOwner = (ownerId?: number) => {
+  return useQuery({
+    queryKey: [BADGE_QUERY_KEYS.BADGES_BY_OWNER, ownerId],
+    queryFn: () => getBadgesByOwner(ownerId!),
+    enabled: !!ownerId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // Keep in memory for 30 minutes
+  });
+};
+
+// Hook to get a badge class with its most recent holders
+export const useBadgeClass = (badgeClassId?: number | null) => {
+  return useQuery({
+    queryKey: [BADGE_QUERY_KEYS.BADGE_CLASS, badgeClassId],
+    queryFn: () => getBadgeClass(badgeClassId!),
+    enabled: !!badgeClassId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 60 * 60 * 1000, // Keep in memory for 1 hour
+  });
+};
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { QueryClient } from '@tanstack/react-query';
+import NetInfo from '@react-native-community/netinfo';
+import { QueryClient, onlineManager } from '@tanstack/react-query';
 import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
 import { persistQueryClient } from '@tanstack/react-query-persist-client';
 
@@ -11,6 +12,14 @@ const CACHE_KEYS = {
   EVENT_DETAIL: 'event_detail_cache',
 } as const;
 
+// One staleness policy for every cache in the app
+export const CACHE_TTL = {
+  // Data younger than this is served without asking the network
+  FRESH: 10 * 60 * 1000,
+  // Data older than this is dropped, even when offline
+  MAX_AGE: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
 // Create persister for React Query
 export const createPersister = () => {
   return createAsyncStoragePersister({
@@ -24,10 +33,12 @@ export const createQueryClient = () => {
   const queryClient = new QueryClient({
     defaultOptions: {
       queries: {
-        // Cache for 10 minutes by default
-        staleTime: 10 * 60 * 1000,
-        // Keep unused data for 30 minutes
-        gcTime: 30 * 60 * 1000,
+        staleTime: CACHE_TTL.FRESH,
+        // Keep unused data for as long as the persister keeps it
+        gcTime: CACHE_TTL.MAX_AGE,
+        // Always run the query function so it can fall back to the offline
+        // store instead of sitting paused with no data
+        networkMode: 'offlineFirst',
         // Retry failed requests
         retry: 2,
         // Don't refetch on window focus in mobile app
@@ -38,6 +49,7 @@ export const createQueryClient = () => {
       mutations: {
         // Retry failed mutations once
         retry: 1,
+        networkMode: 'offlineFirst',
       },
     },
   });
@@ -53,7 +65,7 @@ export const setupPersistence = async (queryClient: QueryClient) => {
     await persistQueryClient({
       queryClient,
       persister,
-      maxAge: 1000 * 60 * 60 * 24, // 24 hours
+      maxAge: CACHE_TTL.MAX_AGE,
       buster: '1.0', // Change this to invalidate all cached data
     });
   } catch (error) {
@@ -61,6 +73,15 @@ export const setupPersistence = async (queryClient: QueryClient) => {
   }
 };
 
+// Let React Query pause retries and refetch on reconnect based on NetInfo
+export const setupOnlineManager = () => {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      setOnline(state.isConnected !== false);
+    })
+  );
+};
+
 // Manual cache management for starred events
 export const starredEventsCache = {
   async get(userId: number): Promise<Set<number>> {
@@ -163,15 +184,13 @@ export const attendingEventsCache = {
 
 // Event detail cache for offline access
 export const eventDetailCache = {
-  async get(eventId: number): Promise<any> {
+  async get(eventId: number, maxAge: number = CACHE_TTL.FRESH): Promise<any> {
     try {
       const cached = await AsyncStorage.getItem(
         `${CACHE_KEYS.EVENT_DETAIL}_${eventId}`
       );
       if (cached) {
         const data = JSON.parse(cached);
-        // Check if cache is still fresh (less than 1 hour old)
-        const maxAge = 60 * 60 * 1000; // 1 hour
         if (Date.now() - data.timestamp < maxAge) {
           return data.event;
         }
@@ -0,0 +1,30 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Event } from '../types';
+import { buildCalendar, getCalendarFileName } from '../utils/ical';
+
+export const getEventWebUrl = (event: Event) =>
+  `https://${event.group?.handle || 'event'}.sola.day/event/detail/${event.id}`;
+
+// Writes the events to an .ics file and opens the share sheet, where the user
+// can add them to a calendar app or send the file on
+export const shareCalendar = async (events: Event[], title: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const ics = buildCalendar(events, {
+    name: title,
+    getEventUrl: getEventWebUrl,
+  });
+  const uri = `${FileSystem.cacheDirectory}${getCalendarFileName(title)}`;
+  await FileSystem.writeAsStringAsync(uri, ics, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: title,
+  });
+};
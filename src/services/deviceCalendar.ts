@@ -0,0 +1,118 @@
+import { Platform } from 'react-native';
+import * as Calendar from 'expo-calendar';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { colors } from '../utils/colors';
+import {
+  CalendarAdapter,
+  CalendarLinkStore,
+  createCalendarSync,
+} from '../utils/calendarSync';
+
+const CALENDAR_ID_KEY = 'device_calendar_id';
+const CALENDAR_LINKS_KEY = 'device_calendar_links';
+const CALENDAR_TITLE = 'Social Layer';
+
+let calendarId: string | null = null;
+
+const findCalendar = async (id: string | null) => {
+  if (!id) return null;
+  const calendars = await Calendar.getCalendarsAsync(
+    Calendar.EntityTypes.EVENT
+  );
+  return calendars.find((calendar) => calendar.id === id) || null;
+};
+
+const createCalendar = async (): Promise<string> => {
+  const source =
+    Platform.OS === 'ios'
+      ? (await Calendar.getDefaultCalendarAsync()).source
+      : {
+          isLocalAccount: true,
+          name: CALENDAR_TITLE,
+          type: Calendar.SourceType.LOCAL,
+        };
+
+  return Calendar.createCalendarAsync({
+    title: CALENDAR_TITLE,
+    name: 'sociallayer',
+    color: colors.primary,
+    entityType: Calendar.EntityTypes.EVENT,
+    sourceId: 'id' in source ? source.id : undefined,
+    source,
+    ownerAccount: 'personal',
+    accessLevel: Calendar.CalendarAccessLevel.OWNER,
+  });
+};
+
+// Events go into a dedicated "Social Layer" calendar, created on first use,
+// so they can be hidden or removed in one go from the calendar app
+const getCalendarId = async (): Promise<string> => {
+  if (calendarId) return calendarId;
+
+  const storedId = await AsyncStorage.getItem(CALENDAR_ID_KEY);
+  if (await findCalendar(storedId)) {
+    calendarId = storedId;
+    return storedId!;
+  }
+
+  calendarId = await createCalendar();
+  await AsyncStorage.setItem(CALENDAR_ID_KEY, calendarId);
+  return calendarId;
+};
+
+export const expoCalendarAdapter: CalendarAdapter = {
+  async hasAccess() {
+    return (await Calendar.getCalendarPermissionsAsync()).granted;
+  },
+
+  async requestAccess() {
+    const current = await Calendar.getCalendarPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+
+    const requested = await Calendar.requestCalendarPermissionsAsync();
+    return requested.granted;
+  },
+
+  async createEvent(details) {
+    return Calendar.createEventAsync(await getCalendarId(), details);
+  },
+
+  async updateEvent(calendarEventId, details) {
+    await Calendar.updateEventAsync(calendarEventId, details);
+  },
+
+  async deleteEvent(calendarEventId) {
+    await Calendar.deleteEventAsync(calendarEventId);
+  },
+
+  async hasEvent(calendarEventId) {
+    try {
+      await Calendar.getEventAsync(calendarEventId);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+const asyncStorageLinkStore: CalendarLinkStore = {
+  async load() {
+    try {
+      const stored = await AsyncStorage.getItem(CALENDAR_LINKS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load calendar links:', error);
+      return {};
+    }
+  },
+
+  async save(links) {
+    await AsyncStorage.setItem(CALENDAR_LINKS_KEY, JSON.stringify(links));
+  },
+};
+
+export const deviceCalendarSync = createCalendarSync(
+  expoCalendarAdapter,
+  asyncStorageLinkStore
+);
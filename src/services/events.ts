@@ -1,8 +1,12 @@
+import { useEffect, useSyncExternalStore } from 'react';
 import {
   useQuery,
   useMutation,
   useQueryClient,
   useInfiniteQuery,
+  onlineManager,
+  QueryClient,
+  QueryKey,
 } from '@tanstack/react-query';
 import {
   getMyEvents,
@@ -10,20 +14,45 @@ import {
   unstarEvent,
   attendEvent,
   cancelAttendance,
+  checkInParticipant,
+  reviewParticipant,
+  getEventParticipants,
+  getEventWaitlist,
+  joinWaitlist,
   getAuthToken,
   apolloClient,
   getEventsForGroup,
   getEventsWithPagination,
   GET_EVENT_DETAIL,
   searchEvents,
+  createEvent,
+  updateEvent,
+  cancelEvent,
+  getMyParticipation,
+  joinEventWithTicket,
 } from './api';
 import {
   starredEventsCache,
   attendingEventsCache,
   eventDetailCache,
   preloadEventDetails,
+  CACHE_TTL,
 } from './caching';
-import { Event, EventWithJoinStatus } from '../types';
+import { offlineStore, selectEvents } from './offlineStore';
+import {
+  PendingAction,
+  PendingActionType,
+  isNetworkError,
+  pendingActionsQueue,
+} from './mutationQueue';
+import {
+  Event,
+  EventDraft,
+  EventUpdate,
+  EventWithJoinStatus,
+  Participant,
+} from '../types';
+import { parseServerTime } from '../utils/timezone';
 
 // Query Keys
 export const QUERY_KEYS = {
@@ -33,8 +62,14 @@ export const QUERY_KEYS = {
   STARRED_EVENTS: 'starredEvents',
   ATTENDING_EVENTS: 'attendingEvents',
   SEARCH_EVENTS: 'searchEvents',
+  MY_PARTICIPATION: 'myParticipation',
+  EVENT_PARTICIPANTS: 'eventParticipants',
+  EVENT_WAITLIST: 'eventWaitlist',
 } as const;
 
+// Events per page of the infinite list, online and offline alike
+const EVENTS_PAGE_SIZE = 20;
+
 // Hook to get events for a group with optimized caching
 export const useEvents = (groupId: number, upcomingOnly: boolean = false) => {
   const queryClient = useQueryClient();
@@ -71,15 +106,17 @@ export const useEvents = (groupId: number, upcomingOnly: boolean = false) => {
 
       return events;
     },
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 30 * 60 * 1000, // Keep in memory for 30 minutes
+    staleTime: CACHE_TTL.FRESH,
+    // Persisted lists must outlive the app restart they're persisted for
+    gcTime: CACHE_TTL.MAX_AGE,
   });
 };
 
 // Hook to get events with infinite scroll pagination
 export const useInfiniteEvents = (
   groupId: number,
-  upcomingOnly: boolean = false
+  upcomingOnly: boolean = false,
+  trackId: number | null = null
 ) => {
   const queryClient = useQueryClient();
 
@@ -89,6 +126,7 @@ export const useInfiniteEvents = (
       'infinite',
       groupId,
       upcomingOnly ? 'upcoming' : 'all',
+      trackId,
     ],
     queryFn: async ({ pageParam = 0 }) => {
       console.log(
@@ -103,7 +141,7 @@ export const useInfiniteEvents = (
       // Use pagination function for infinite scroll
       const { query, variables } = getEventsWithPagination(
         groupId,
-        20,
+        EVENTS_PAGE_SIZE,
         pageParam
       );
 
@@ -115,16 +153,30 @@ export const useInfiniteEvents = (
           end_time: { _gte: now.toISOString() },
         };
       }
+      if (trackId) {
+        variables.where = { ...variables.where, track_id: { _eq: trackId } };
+      }
 
       console.log('useInfiniteEvents: Query variables:', variables);
 
-      const result = await apolloClient.query({
-        query,
-        variables,
-        fetchPolicy: 'cache-first',
-      });
-
-      const events = result.data.events || [];
+      let events: Event[];
+      try {
+        const result = await apolloClient.query({
+          query,
+          variables,
+          fetchPolicy: 'cache-first',
+        });
+        events = result.data.events || [];
+      } catch (error) {
+        // Serve the synced snapshot when the network is unavailable
+        const snapshot = await offlineStore.get(groupId);
+        if (!snapshot) throw error;
+        console.log('useInfiniteEvents: Falling back to offline store');
+        const offset = pageParam as number;
+        events = selectEvents(snapshot, { upcomingOnly })
+          .filter((event) => !trackId || event.track_id === trackId)
+          .slice(offset, offset + EVENTS_PAGE_SIZE);
+      }
       console.log(
         'useInfiniteEvents: Received events for page:',
         pageParam,
@@ -137,12 +189,16 @@ export const useInfiniteEvents = (
 
       return {
         events,
-        nextOffset: events.length === 20 ? pageParam + 20 : undefined,
+        nextOffset:
+          events.length === EVENTS_PAGE_SIZE
+            ? pageParam + EVENTS_PAGE_SIZE
+            : undefined,
       };
     },
     getNextPageParam: (lastPage) => lastPage.nextOffset,
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 30 * 60 * 1000, // Keep in memory for 30 minutes
+    staleTime: CACHE_TTL.FRESH,
+    // Persisted lists must outlive the app restart they're persisted for
+    gcTime: CACHE_TTL.MAX_AGE,
   });
 };
 
@@ -166,12 +222,23 @@ export const useEventDetail = (eventId: number, forceRefresh: boolean = false) =
 
       // If not in cache, fetch from API
       console.log('Fetching event detail from API for event', eventId);
-      const result = await apolloClient.query({
-        query: GET_EVENT_DETAIL,
-        variables: { id: eventId },
-        fetchPolicy: 'network-only',
-        errorPolicy: 'all',
-      });
+      let result;
+      try {
+        result = await apolloClient.query({
+          query: GET_EVENT_DETAIL,
+          variables: { id: eventId },
+          fetchPolicy: 'network-only',
+          errorPolicy: 'all',
+        });
+      } catch (error) {
+        // Offline: accept anything we still have, however old
+        const offlineEvent =
+          (await eventDetailCache.get(eventId, CACHE_TTL.MAX_AGE)) ||
+          (await offlineStore.findEvent(eventId));
+        if (!offlineEvent) throw error;
+        console.log('Using offline event detail for event', eventId);
+        return offlineEvent;
+      }
 
       const event = result.data.events_by_pk;
       console.log('Fetched event from API:', {
@@ -189,8 +256,8 @@ export const useEventDetail = (eventId: number, forceRefresh: boolean = false) =
 
       return event;
     },
-    staleTime: forceRefresh ? 0 : 10 * 60 * 1000, // No stale time if force refresh
-    gcTime: 60 * 60 * 1000, // Keep in memory for 1 hour
+    staleTime: forceRefresh ? 0 : CACHE_TTL.FRESH, // No stale time if force refresh
+    gcTime: CACHE_TTL.MAX_AGE,
     // Return cached data while refetching in background
     placeholderData: forceRefresh ? undefined : (previousData) => previousData,
   });
@@ -237,6 +304,8 @@ export const useMyEvents = (
             attending: attendingEvents,
             hosting: [],
             starred: starredEvents,
+            pendingApproval: [],
+            waitlisted: [],
           };
         }
       }
@@ -245,10 +314,43 @@ export const useMyEvents = (
     },
     enabled: !!userId,
     staleTime: 2 * 60 * 1000, // 2 minutes - shorter for user-specific data
-    gcTime: 15 * 60 * 1000, // Keep in memory for 15 minutes
+    gcTime: CACHE_TTL.MAX_AGE,
   });
 };
 
+// Runs a star/RSVP/check-in request, or queues it for replay when there is
+// no connection. Returns true when the action was queued.
+const sendOrQueue = async (
+  type: PendingActionType,
+  eventId: number,
+  userId: number | undefined,
+  request: () => Promise<unknown>,
+  target?: Pick<PendingAction, 'participantId' | 'ticketId'>
+): Promise<boolean> => {
+  if (onlineManager.isOnline()) {
+    try {
+      await request();
+      return false;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await pendingActionsQueue.enqueue(type, eventId, userId, target);
+  return true;
+};
+
+// Star, RSVP and check-in actions still waiting to reach the server
+export const usePendingActions = (): PendingAction[] => {
+  useEffect(() => {
+    pendingActionsQueue.load();
+  }, []);
+
+  return useSyncExternalStore(
+    pendingActionsQueue.subscribe,
+    pendingActionsQueue.getAll
+  );
+};
+
 // Optimistic star/unstar mutation
 export const useStarEventMutation = () => {
   const queryClient = useQueryClient();
@@ -265,11 +367,15 @@ export const useStarEventMutation = () => {
       authToken: string;
       userId?: number;
     }) => {
-      if (isStarred) {
-        await unstarEvent(eventId, authToken);
-      } else {
-        await starEvent(eventId, authToken);
-      }
+      const queued = await sendOrQueue(
+        isStarred ? 'unstar' : 'star',
+        eventId,
+        userId,
+        () =>
+          isStarred
+            ? unstarEvent(eventId, authToken)
+            : starEvent(eventId, authToken)
+      );
 
       // Update local cache
       if (userId) {
@@ -279,6 +385,8 @@ export const useStarEventMutation = () => {
           await starredEventsCache.add(userId, eventId);
         }
       }
+
+      return { queued };
     },
     onMutate: async ({ eventId, isStarred, userId }) => {
       // Cancel any outgoing refetches
@@ -349,6 +457,9 @@ export const useStarEventMutation = () => {
       console.error('Star mutation failed:', err);
     },
     onSettled: (data, error, variables) => {
+      // Queued actions keep their optimistic state until they are replayed
+      if (data?.queued) return;
+
       // Always refetch to ensure consistency
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.MY_EVENTS, variables.userId],
@@ -373,11 +484,15 @@ export const useRSVPMutation = () => {
       authToken: string;
       userId?: number;
     }) => {
-      if (isAttending) {
-        await cancelAttendance(eventId, authToken);
-      } else {
-        await attendEvent(eventId, authToken);
-      }
+      const queued = await sendOrQueue(
+        isAttending ? 'cancel' : 'join',
+        eventId,
+        userId,
+        () =>
+          isAttending
+            ? cancelAttendance(eventId, authToken)
+            : attendEvent(eventId, authToken)
+      );
 
       // Update local cache
       if (userId) {
@@ -387,6 +502,8 @@ export const useRSVPMutation = () => {
           await attendingEventsCache.add(userId, eventId);
         }
       }
+
+      return { queued };
     },
     onMutate: async ({ eventId, isAttending, userId }) => {
       // Cancel any outgoing refetches
@@ -498,11 +615,509 @@ export const useRSVPMutation = () => {
       console.error('RSVP mutation failed:', err);
     },
     onSuccess: (data, variables) => {
+      // Queued actions keep their optimistic state until they are replayed
+      if (data.queued) return;
+
       // On successful mutation, we can trust our optimistic update
       // Only invalidate myEvents to refresh the my events screen
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.MY_EVENTS, variables.userId],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.MY_PARTICIPATION, variables.eventId],
+      });
+    },
+  });
+};
+
+// The viewer's own participation, polled while a payment is outstanding
+export const useMyParticipation = (eventId: number, userId?: number) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.MY_PARTICIPATION, eventId, userId],
+    queryFn: () => getMyParticipation(eventId, userId!),
+    enabled: !!userId,
+    staleTime: 30 * 1000,
+    refetchInterval: (query) =>
+      query.state.data?.payment_status === 'pending' ? 10 * 1000 : false,
+  });
+};
+
+export const useJoinWithTicketMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      eventId,
+      ticketId,
+      paymentMethodId,
+      authToken,
+      userId,
+    }: {
+      eventId: number;
+      ticketId: number;
+      paymentMethodId?: number;
+      authToken: string;
+      userId: number;
+    }) => {
+      const join = () =>
+        joinEventWithTicket(eventId, ticketId, paymentMethodId, authToken);
+      // Paying needs a connection, so only free tickets wait in the queue
+      if (paymentMethodId) {
+        return { participant: await join(), queued: false };
+      }
+
+      let participant = null as Participant | null;
+      const queued = await sendOrQueue(
+        'join',
+        eventId,
+        userId,
+        async () => {
+          participant = await join();
+        },
+        { ticketId }
+      );
+      return { participant, queued };
+    },
+    onSuccess: async ({ participant }, { eventId, userId }) => {
+      // Queued joins are refreshed once they're replayed
+      if (!participant) return;
+
+      queryClient.setQueryData(
+        [QUERY_KEYS.MY_PARTICIPATION, eventId, userId],
+        participant
+      );
+
+      // Unpaid tickets don't count as attending until the payment settles
+      if (
+        !participant.payment_status ||
+        participant.payment_status === 'succeeded'
+      ) {
+        await attendingEventsCache.add(userId, eventId);
+      }
+
+      await eventDetailCache.clear(eventId);
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.EVENT_DETAIL, eventId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.MY_EVENTS, userId],
+      });
+    },
+  });
+};
+
+// Who is queued for a full event, used to show the viewer their place in line
+export const useEventWaitlist = (eventId: number, enabled: boolean) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.EVENT_WAITLIST, eventId],
+    queryFn: () => getEventWaitlist(eventId),
+    enabled,
+    staleTime: 30 * 1000,
+  });
+};
+
+// Joins or leaves a full event's waitlist. Unlike RSVPs these aren't queued
+// offline, since the place in line is only known once the server has it.
+export const useWaitlistMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      eventId,
+      leave,
+      authToken,
+    }: {
+      eventId: number;
+      leave: boolean;
+      authToken: string;
+      userId: number;
+    }) =>
+      leave
+        ? cancelAttendance(eventId, authToken)
+        : joinWaitlist(eventId, authToken),
+    onSettled: async (data, error, { eventId, userId }) => {
+      await eventDetailCache.clear(eventId);
+      [
+        [QUERY_KEYS.EVENT_WAITLIST, eventId],
+        [QUERY_KEYS.MY_PARTICIPATION, eventId],
+        [QUERY_KEYS.EVENT_DETAIL, eventId],
+        [QUERY_KEYS.MY_EVENTS, userId],
+      ].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    },
+  });
+};
+
+type InfiniteEventsData = {
+  pages: { events: Event[]; nextOffset?: number }[];
+  pageParams: unknown[];
+};
+
+// Place an event into already-loaded infinite pages, keeping start_time order.
+// Events that sort after the loaded pages arrive with the next page instead.
+const insertIntoInfiniteEvents = (
+  data: InfiniteEventsData | undefined,
+  event: Event
+): InfiniteEventsData | undefined => {
+  if (!data?.pages?.length) return data;
+
+  const start = parseServerTime(event.start_time).getTime();
+  const lastPage = data.pages[data.pages.length - 1];
+  const pageIndex = data.pages.findIndex((page) =>
+    page.events.some((e) => parseServerTime(e.start_time).getTime() > start)
+  );
+  const targetIndex =
+    pageIndex !== -1
+      ? pageIndex
+      : lastPage.nextOffset === undefined
+        ? data.pages.length - 1
+        : -1;
+
+  if (targetIndex === -1) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => {
+      if (index !== targetIndex) return page;
+      const events = [...page.events.filter((e) => e.id !== event.id), event];
+      events.sort(
+        (a, b) =>
+          parseServerTime(a.start_time).getTime() -
+          parseServerTime(b.start_time).getTime()
+      );
+      return { ...page, events };
+    }),
+  };
+};
+
+// Create an event and show it in lists without waiting for a refetch
+export const useCreateEventMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      draft,
+      authToken,
+    }: {
+      draft: EventDraft;
+      authToken: string;
+    }) => {
+      return createEvent(draft, authToken);
+    },
+    onSuccess: async (event, { draft }) => {
+      const createdEvent: Event = {
+        ...event,
+        event_roles: event.event_roles ?? draft.event_roles,
+      };
+
+      // Apollo would otherwise keep serving the cached pages without it
+      apolloClient.cache.evict({ id: 'ROOT_QUERY', fieldName: 'events' });
+      apolloClient.cache.gc();
+
+      queryClient.setQueriesData<InfiniteEventsData>(
+        { queryKey: [QUERY_KEYS.EVENTS, 'infinite', draft.group_id] },
+        (old) => insertIntoInfiniteEvents(old, createdEvent)
+      );
+      queryClient.setQueryData(
+        [QUERY_KEYS.EVENT_DETAIL, createdEvent.id],
+        createdEvent
+      );
+      await eventDetailCache.set(createdEvent.id, createdEvent);
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_EVENTS] });
+    },
+  });
+};
+
+type MyEventsData = { attending: Event[]; hosting: Event[]; starred: Event[] };
+
+// Apply a change to one event wherever it appears in the EVENTS caches
+// (plain lists, calendar lists and infinite pages) and in MY_EVENTS
+const patchEventInLists = (
+  queryClient: QueryClient,
+  eventId: number,
+  patch: (event: Event) => Event
+) => {
+  const patchList = <T extends Event>(events: T[]) =>
+    events.map((e) => (e.id === eventId ? (patch(e) as T) : e));
+
+  queryClient.setQueriesData({ queryKey: [QUERY_KEYS.EVENTS] }, (old: any) => {
+    if (!old) return old;
+    if (Array.isArray(old)) return patchList(old);
+    if (Array.isArray(old.pages)) {
+      return {
+        ...old,
+        pages: old.pages.map((page: { events: Event[] }) => ({
+          ...page,
+          events: patchList(page.events),
+        })),
+      };
+    }
+    return old;
+  });
+
+  queryClient.setQueriesData<MyEventsData>(
+    { queryKey: [QUERY_KEYS.MY_EVENTS] },
+    (old) =>
+      old && {
+        ...old,
+        attending: patchList(old.attending),
+        hosting: patchList(old.hosting),
+        starred: patchList(old.starred),
+      }
+  );
+};
+
+type EventCachesSnapshot = {
+  lists: [QueryKey, unknown][];
+  myEvents: [QueryKey, unknown][];
+  detail: unknown;
+};
+
+const snapshotEventCaches = async (
+  queryClient: QueryClient,
+  eventId: number
+): Promise<EventCachesSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: [QUERY_KEYS.EVENTS] });
+  await queryClient.cancelQueries({ queryKey: [QUERY_KEYS.MY_EVENTS] });
+  await queryClient.cancelQueries({
+    queryKey: [QUERY_KEYS.EVENT_DETAIL, eventId],
+  });
+
+  return {
+    lists: queryClient.getQueriesData({ queryKey: [QUERY_KEYS.EVENTS] }),
+    myEvents: queryClient.getQueriesData({ queryKey: [QUERY_KEYS.MY_EVENTS] }),
+    detail: queryClient.getQueryData([QUERY_KEYS.EVENT_DETAIL, eventId]),
+  };
+};
+
+const restoreEventCaches = (
+  queryClient: QueryClient,
+  eventId: number,
+  snapshot: EventCachesSnapshot
+) => {
+  [...snapshot.lists, ...snapshot.myEvents].forEach(([key, data]) =>
+    queryClient.setQueryData(key, data)
+  );
+  queryClient.setQueryData([QUERY_KEYS.EVENT_DETAIL, eventId], snapshot.detail);
+};
+
+// Optimistic event edit for owners
+export const useUpdateEventMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      eventId,
+      changes,
+      authToken,
+    }: {
+      eventId: number;
+      changes: EventUpdate;
+      authToken: string;
+    }) => {
+      return updateEvent(eventId, changes, authToken);
+    },
+    onMutate: async ({ eventId, changes }) => {
+      const snapshot = await snapshotEventCaches(queryClient, eventId);
+
+      // Roles marked for removal should disappear right away
+      const { event_roles, ...fields } = changes;
+      const applyChanges = (event: Event): Event => ({
+        ...event,
+        ...fields,
+        ...(event_roles
+          ? { event_roles: event_roles.filter((r) => !r._destroy) }
+          : {}),
+      });
+
+      queryClient.setQueryData(
+        [QUERY_KEYS.EVENT_DETAIL, eventId],
+        (old: Event | undefined) => old && applyChanges(old)
+      );
+      patchEventInLists(queryClient, eventId, applyChanges);
+
+      return snapshot;
+    },
+    onError: (err, variables, context) => {
+      if (context) {
+        restoreEventCaches(queryClient, variables.eventId, context);
+      }
+      console.error('Update event mutation failed:', err);
+    },
+    onSettled: async (data, error, variables) => {
+      await eventDetailCache.clear(variables.eventId);
+      apolloClient.cache.evict({ id: 'ROOT_QUERY', fieldName: 'events' });
+      apolloClient.cache.gc();
+
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.EVENT_DETAIL, variables.eventId],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.EVENTS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_EVENTS] });
+    },
+  });
+};
+
+// Optimistic event cancellation for owners
+export const useCancelEventMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      eventId,
+      authToken,
+    }: {
+      eventId: number;
+      authToken: string;
+    }) => {
+      await cancelEvent(eventId, authToken);
+    },
+    onMutate: async ({ eventId }) => {
+      const snapshot = await snapshotEventCaches(queryClient, eventId);
+      const markCanceled = (event: Event): Event => ({
+        ...event,
+        status: 'cancel',
+      });
+
+      queryClient.setQueryData(
+        [QUERY_KEYS.EVENT_DETAIL, eventId],
+        (old: Event | undefined) => old && markCanceled(old)
+      );
+      patchEventInLists(queryClient, eventId, markCanceled);
+
+      return snapshot;
+    },
+    onError: (err, variables, context) => {
+      if (context) {
+        restoreEventCaches(queryClient, variables.eventId, context);
+      }
+      console.error('Cancel event mutation failed:', err);
+    },
+    onSettled: async (data, error, variables) => {
+      await eventDetailCache.clear(variables.eventId);
+      apolloClient.cache.evict({ id: 'ROOT_QUERY', fieldName: 'events' });
+      apolloClient.cache.gc();
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.EVENTS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.MY_EVENTS] });
+    },
+  });
+};
+
+// Hook to get an event's full guest list, cancelled participants included.
+// Only hosts can act on it, so it stays off for everyone else.
+export const useEventParticipants = (eventId: number, enabled: boolean) => {
+  return useQuery({
+    queryKey: [QUERY_KEYS.EVENT_PARTICIPANTS, eventId],
+    queryFn: () => getEventParticipants(eventId),
+    enabled,
+    staleTime: 30 * 1000,
+  });
+};
+
+// Approves or rejects several applications at once. Each request stands on
+// its own, so one failure doesn't undo the rest.
+export const useReviewParticipantsMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      eventId,
+      participantIds,
+      decision,
+      authToken,
+    }: {
+      eventId: number;
+      participantIds: number[];
+      decision: 'approve' | 'reject';
+      authToken: string;
+    }) => {
+      const results = await Promise.allSettled(
+        participantIds.map((participantId) =>
+          reviewParticipant(eventId, participantId, decision, authToken)
+        )
+      );
+      return {
+        failed: participantIds.filter(
+          (_, index) => results[index].status === 'rejected'
+        ),
+      };
+    },
+    onSettled: async (data, error, variables) => {
+      await eventDetailCache.clear(variables.eventId);
+      [QUERY_KEYS.EVENT_PARTICIPANTS, QUERY_KEYS.EVENT_DETAIL].forEach((key) =>
+        queryClient.invalidateQueries({
+          queryKey: [key, variables.eventId],
+        })
+      );
+    },
+  });
+};
+
+// Host check-in of one attendee, queued for replay when offline so scanning
+// keeps working at venues without a connection
+export const useCheckInMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      eventId,
+      participantId,
+      authToken,
+    }: {
+      eventId: number;
+      participantId: number;
+      authToken: string;
+    }) => {
+      const queued = await sendOrQueue(
+        'checkin',
+        eventId,
+        undefined,
+        () => checkInParticipant(eventId, participantId, authToken),
+        { participantId }
+      );
+      return { queued };
+    },
+    onMutate: async ({ eventId, participantId }) => {
+      await queryClient.cancelQueries({
+        queryKey: [QUERY_KEYS.EVENT_DETAIL, eventId],
+      });
+      const previousEvent = queryClient.getQueryData<Event>([
+        QUERY_KEYS.EVENT_DETAIL,
+        eventId,
+      ]);
+
+      queryClient.setQueryData(
+        [QUERY_KEYS.EVENT_DETAIL, eventId],
+        (old: Event | undefined) =>
+          old && {
+            ...old,
+            participants: (old.participants || []).map((participant) =>
+              participant.id === participantId
+                ? { ...participant, status: 'checked' }
+                : participant
+            ),
+          }
+      );
+
+      return { previousEvent };
+    },
+    onError: (err, variables, context) => {
+      if (context?.previousEvent) {
+        queryClient.setQueryData(
+          [QUERY_KEYS.EVENT_DETAIL, variables.eventId],
+          context.previousEvent
+        );
+      }
+      console.error('Check-in mutation failed:', err);
+    },
+    onSettled: async (data, error, variables) => {
+      // A queued check-in keeps its optimistic status until it is replayed
+      if (data?.queued) return;
+      await eventDetailCache.clear(variables.eventId);
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.EVENT_DETAIL, variables.eventId],
+      });
     },
   });
 };
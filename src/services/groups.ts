@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getGroupDetail,
+  getGroupMemberships,
+  getMyMembership,
+  joinGroup,
+  leaveGroup,
+  reviewMembershipRequest,
+} from './api';
+import { getGroupAccess } from '../utils/groupAccess';
+
+export const GROUP_QUERY_KEYS = {
+  GROUP_DETAIL: 'groupDetail',
+  GROUP_MEMBERS: 'groupMembers',
+  MY_MEMBERSHIP: 'myMembership',
+} as const;
+
+// Hook to get a group's page details and event permissions
+export const useGroupDetail = (groupId: number) => {
+  return useQuery({
+    queryKey: [GROUP_QUERY_KEYS.GROUP_DETAIL, groupId],
+    queryFn: () => getGroupDetail(groupId),
+    enabled: !!groupId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 60 * 60 * 1000, // Keep in memory for 1 hour
+  });
+};
+
+// Hook to get everyone in a group, pending requests included
+export const useGroupMembers = (groupId: number) => {
+  return useQuery({
+    queryKey: [GROUP_QUERY_KEYS.GROUP_MEMBERS, groupId],
+    queryFn: () => getGroupMemberships(groupId),
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+};
+
+export const useMyMembership = (groupId: number, userId?: number) => {
+  return useQuery({
+    queryKey: [GROUP_QUERY_KEYS.MY_MEMBERSHIP, groupId, userId],
+    queryFn: () => getMyMembership(groupId, userId!),
+    enabled: !!groupId && !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// Whether the viewer may see and join the group's events. Until the group
+// and the viewer's membership have loaded, events stay open rather than
+// flashing a locked screen; with no userId (signed out or demo) only the
+// group's settings apply.
+export const useGroupAccess = (groupId: number, userId?: number) => {
+  const { data: group } = useGroupDetail(groupId);
+  const { data: membership, isLoading } = useMyMembership(groupId, userId);
+
+  return {
+    group,
+    membership,
+    ...getGroupAccess(isLoading ? null : group, membership),
+  };
+};
+
+const useInvalidateGroup = () => {
+  const queryClient = useQueryClient();
+
+  return (groupId: number) =>
+    Object.values(GROUP_QUERY_KEYS).forEach((key) =>
+      queryClient.invalidateQueries({ queryKey: [key, groupId] })
+    );
+};
+
+// Joins (or requests to join) a group, or leaves it
+export const useGroupMembershipMutation = () => {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: ({
+      groupId,
+      leave,
+      authToken,
+    }: {
+      groupId: number;
+      leave: boolean;
+      authToken: string;
+    }) => (leave ? leaveGroup : joinGroup)(groupId, authToken),
+    onSettled: (data, error, { groupId }) => invalidateGroup(groupId),
+  });
+};
+
+// Manager review of a pending membership request
+export const useReviewMembershipMutation = () => {
+  const invalidateGroup = useInvalidateGroup();
+
+  return useMutation({
+    mutationFn: ({
+      groupId,
+      membershipId,
+      decision,
+      authToken,
+    }: {
+      groupId: number;
+      membershipId: number;
+      decision: 'accept' | 'reject';
+      authToken: string;
+    }) => reviewMembershipRequest(groupId, membershipId, decision, authToken),
+    onSettled: (data, error, { groupId }) => invalidateGroup(groupId),
+  });
+};
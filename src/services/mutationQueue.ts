@@ -0,0 +1,234 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  attendEvent,
+  cancelAttendance,
+  checkInParticipant,
+  getMyEvents,
+  joinEventWithTicket,
+  starEvent,
+  unstarEvent,
+} from './api';
+
+const QUEUE_KEY = 'pending_actions_queue';
+
+export type PendingActionType =
+  'star' | 'unstar' | 'join' | 'cancel' | 'checkin';
+
+// A star, RSVP change or host check-in made while offline, waiting to reach
+// the server
+export interface PendingAction {
+  id: string;
+  type: PendingActionType;
+  eventId: number;
+  userId?: number;
+  // The attendee a host checked in
+  participantId?: number;
+  // The free ticket a join was made with; ticketed events can't be joined
+  // without one
+  ticketId?: number;
+  createdAt: string;
+}
+
+const OPPOSITE_ACTION: Partial<Record<PendingActionType, PendingActionType>> = {
+  star: 'unstar',
+  unstar: 'star',
+  join: 'cancel',
+  cancel: 'join',
+};
+
+// fetch rejects with a TypeError when the request never reached the server
+export const isNetworkError = (error: any): boolean =>
+  error instanceof TypeError ||
+  /network request failed|failed to fetch/i.test(error?.message || '');
+
+// Adds an action to the queue. An action that undoes a pending one cancels it
+// out, and repeating a pending action is a no-op.
+export const addPendingAction = (
+  queue: PendingAction[],
+  action: PendingAction
+): PendingAction[] => {
+  const sameTarget = (pending: PendingAction) =>
+    pending.eventId === action.eventId &&
+    pending.participantId === action.participantId;
+
+  if (queue.some((p) => sameTarget(p) && p.type === action.type)) {
+    return queue;
+  }
+  const opposite = queue.findIndex(
+    (p) => sameTarget(p) && p.type === OPPOSITE_ACTION[action.type]
+  );
+  if (opposite !== -1) {
+    return queue.filter((_, index) => index !== opposite);
+  }
+  return [...queue, action];
+};
+
+interface ServerState {
+  starred: Set<number>;
+  attending: Set<number>;
+}
+
+// True when the server already reflects the action, e.g. the event was
+// starred from another device while this one was offline
+export const isAlreadyApplied = (
+  action: PendingAction,
+  server: ServerState
+): boolean => {
+  switch (action.type) {
+    case 'star':
+      return server.starred.has(action.eventId);
+    case 'unstar':
+      return !server.starred.has(action.eventId);
+    case 'join':
+      return server.attending.has(action.eventId);
+    case 'cancel':
+      return !server.attending.has(action.eventId);
+    case 'checkin':
+      // Checking in twice is harmless, so just send it
+      return false;
+  }
+};
+
+let actions: PendingAction[] = [];
+let loaded = false;
+const listeners = new Set<() => void>();
+
+const persist = async () => {
+  listeners.forEach((listener) => listener());
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(actions));
+  } catch (error) {
+    console.warn('Failed to persist pending actions:', error);
+  }
+};
+
+export const pendingActionsQueue = {
+  async load(): Promise<PendingAction[]> {
+    if (loaded) return actions;
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_KEY);
+      if (stored) {
+        actions = JSON.parse(stored);
+        listeners.forEach((listener) => listener());
+      }
+    } catch (error) {
+      console.warn('Failed to load pending actions:', error);
+    }
+    loaded = true;
+    return actions;
+  },
+
+  getAll(): PendingAction[] {
+    return actions;
+  },
+
+  async enqueue(
+    type: PendingActionType,
+    eventId: number,
+    userId?: number,
+    target: Pick<PendingAction, 'participantId' | 'ticketId'> = {}
+  ): Promise<void> {
+    await this.load();
+    actions = addPendingAction(actions, {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      eventId,
+      userId,
+      ...target,
+      createdAt: new Date().toISOString(),
+    });
+    await persist();
+  },
+
+  async remove(actionId: string): Promise<void> {
+    actions = actions.filter((action) => action.id !== actionId);
+    await persist();
+  },
+
+  async clear(): Promise<void> {
+    actions = [];
+    await persist();
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+const executeAction = (action: PendingAction, authToken: string) => {
+  switch (action.type) {
+    case 'star':
+      return starEvent(action.eventId, authToken);
+    case 'unstar':
+      return unstarEvent(action.eventId, authToken);
+    case 'join':
+      return action.ticketId
+        ? joinEventWithTicket(
+            action.eventId,
+            action.ticketId,
+            undefined,
+            authToken
+          )
+        : attendEvent(action.eventId, authToken);
+    case 'cancel':
+      return cancelAttendance(action.eventId, authToken);
+    case 'checkin':
+      return checkInParticipant(
+        action.eventId,
+        action.participantId!,
+        authToken
+      );
+  }
+};
+
+let replaying = false;
+
+// Sends queued actions in the order they were made. Stops at the first
+// network failure so the rest keep their order for the next attempt. Actions
+// the server rejects are dropped and returned.
+export const replayPendingActions = async (
+  authToken: string
+): Promise<{ confirmed: number; rejected: PendingAction[] }> => {
+  const rejected: PendingAction[] = [];
+  let confirmed = 0;
+
+  await pendingActionsQueue.load();
+  if (replaying || pendingActionsQueue.getAll().length === 0) {
+    return { confirmed, rejected };
+  }
+
+  replaying = true;
+  try {
+    // Compare against fresh server state, not Apollo's cached copy
+    const myEvents = await getMyEvents(authToken, 'network-only');
+    const server: ServerState = {
+      starred: new Set(myEvents.starred.map((event) => event.id)),
+      attending: new Set(myEvents.attending.map((event) => event.id)),
+    };
+
+    for (const action of [...pendingActionsQueue.getAll()]) {
+      if (!isAlreadyApplied(action, server)) {
+        try {
+          await executeAction(action, authToken);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.warn('replayPendingActions: Server rejected', action, error);
+          rejected.push(action);
+          await pendingActionsQueue.remove(action.id);
+          continue;
+        }
+      }
+      confirmed += 1;
+      await pendingActionsQueue.remove(action.id);
+    }
+  } catch (error) {
+    console.error('replayPendingActions: Error', error);
+  } finally {
+    replaying = false;
+  }
+
+  return { confirmed, rejected };
+};
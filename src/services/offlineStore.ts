@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Event, Track, Venue } from '../types';
+import { parseServerTime } from '../utils/timezone';
+
+const STORE_KEY = 'offline_group_snapshot';
+
+// Everything needed to browse a group without a network connection
+export interface GroupSnapshot {
+  groupId: number;
+  events: Record<number, Event>;
+  tracks: Track[];
+  venues: Venue[];
+  // Newest events.updated_at seen so far; the next sync asks for anything newer
+  cursor: string | null;
+  lastSyncedAt: string | null;
+  lastFullSyncAt: string | null;
+}
+
+export const createEmptySnapshot = (groupId: number): GroupSnapshot => ({
+  groupId,
+  events: {},
+  tracks: [],
+  venues: [],
+  cursor: null,
+  lastSyncedAt: null,
+  lastFullSyncAt: null,
+});
+
+// Applies a batch of changed events on top of the stored ones and advances
+// the cursor. Hasura timestamps share one format, so string order is time order.
+export const mergeEventChanges = (
+  snapshot: GroupSnapshot,
+  changed: Event[]
+): GroupSnapshot => {
+  if (changed.length === 0) return snapshot;
+
+  const events = { ...snapshot.events };
+  let cursor = snapshot.cursor;
+  changed.forEach((event) => {
+    events[event.id] = event;
+    if (event.updated_at && (!cursor || event.updated_at > cursor)) {
+      cursor = event.updated_at;
+    }
+  });
+
+  return { ...snapshot, events, cursor };
+};
+
+interface EventSelection {
+  upcomingOnly?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Mirrors the where clauses of the list and calendar queries
+export const selectEvents = (
+  snapshot: GroupSnapshot,
+  { upcomingOnly = false, startDate, endDate }: EventSelection = {}
+): Event[] => {
+  const now = Date.now();
+  const start = startDate ? new Date(startDate).getTime() : null;
+  const end = endDate ? new Date(endDate).getTime() : null;
+
+  return Object.values(snapshot.events)
+    .filter((event) => {
+      const startTime = parseServerTime(event.start_time).getTime();
+      if (upcomingOnly && parseServerTime(event.end_time).getTime() < now) {
+        return false;
+      }
+      if (start !== null && startTime < start) return false;
+      if (end !== null && startTime > end) return false;
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        parseServerTime(a.start_time).getTime() -
+        parseServerTime(b.start_time).getTime()
+    );
+};
+
+export const offlineStore = {
+  async get(groupId: number): Promise<GroupSnapshot | null> {
+    try {
+      const stored = await AsyncStorage.getItem(`${STORE_KEY}_${groupId}`);
+      if (stored) {
+        return JSON.parse(stored) as GroupSnapshot;
+      }
+    } catch (error) {
+      console.warn('Failed to read offline snapshot:', error);
+    }
+    return null;
+  },
+
+  async set(snapshot: GroupSnapshot): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        `${STORE_KEY}_${snapshot.groupId}`,
+        JSON.stringify(snapshot)
+      );
+    } catch (error) {
+      console.warn('Failed to save offline snapshot:', error);
+    }
+  },
+
+  async getEvent(groupId: number, eventId: number): Promise<Event | null> {
+    const snapshot = await this.get(groupId);
+    return snapshot?.events[eventId] || null;
+  },
+
+  // Looks through every stored group, for screens that only know the event id
+  async findEvent(eventId: number): Promise<Event | null> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const snapshotKeys = keys.filter((key) => key.startsWith(STORE_KEY));
+      for (const key of snapshotKeys) {
+        const stored = await AsyncStorage.getItem(key);
+        const event = stored
+          ? (JSON.parse(stored) as GroupSnapshot).events[eventId]
+          : undefined;
+        if (event) return event;
+      }
+    } catch (error) {
+      console.warn('Failed to search offline snapshots:', error);
+    }
+    return null;
+  },
+
+  async clear(groupId?: number): Promise<void> {
+    try {
+      if (groupId) {
+        await AsyncStorage.removeItem(`${STORE_KEY}_${groupId}`);
+      } else {
+        const keys = await AsyncStorage.getAllKeys();
+        await AsyncStorage.multiRemove(
+          keys.filter((key) => key.startsWith(STORE_KEY))
+        );
+      }
+    } catch (error) {
+      console.warn('Failed to clear offline snapshot:', error);
+    }
+  },
+};
@@ -0,0 +1,32 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  ListParticipant,
+  buildParticipantsCsv,
+  getParticipantsFileName,
+} from '../utils/participants';
+
+// Writes the guest list to a .csv file and opens the share sheet, so hosts
+// can open it in a spreadsheet app or send it on
+export const shareParticipantsCsv = async (
+  participants: ListParticipant[],
+  eventTitle: string
+) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const csv = buildParticipantsCsv(participants);
+  const uri = `${FileSystem.cacheDirectory}${getParticipantsFileName(
+    eventTitle
+  )}`;
+  await FileSystem.writeAsStringAsync(uri, csv, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: `${eventTitle} participants`,
+  });
+};
@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  apolloClient,
+  getEventsForProfile,
+  getProfileByHandle,
+  updateProfile,
+} from './api';
+import { Event, ProfileUpdate } from '../types';
+
+export const PROFILE_QUERY_KEYS = {
+  PROFILE: 'profile',
+  PROFILE_EVENTS: 'profileEvents',
+} as const;
+
+// Hook to get a public profile by handle
+export const useProfile = (handle: string) => {
+  return useQuery({
+    queryKey: [PROFILE_QUERY_KEYS.PROFILE, handle],
+    queryFn: async () => {
+      const profile = await getProfileByHandle(handle);
+      if (!profile) {
+        throw new Error(`Profile @${handle} not found`);
+      }
+      return profile;
+    },
+    enabled: !!handle,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // Keep in memory for 30 minutes
+    retry: 1,
+  });
+};
+
+// Hook to get the events a profile hosts and attends in a group
+export const useProfileEvents = (profileId?: number, groupId?: number) => {
+  return useQuery({
+    queryKey: [PROFILE_QUERY_KEYS.PROFILE_EVENTS, profileId, groupId],
+    queryFn: async () => {
+      const [hosting, attending] = await Promise.all(
+        (['hosting', 'attending'] as const).map(async (relation) => {
+          const { query, variables } = getEventsForProfile(
+            profileId!,
+            groupId!,
+            relation
+          );
+          const result = await apolloClient.query({
+            query,
+            variables,
+            fetchPolicy: 'network-only',
+          });
+          return (result.data.events || []) as Event[];
+        })
+      );
+
+      return { hosting, attending };
+    },
+    enabled: !!profileId && !!groupId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 15 * 60 * 1000, // Keep in memory for 15 minutes
+  });
+};
+
+export const useUpdateProfileMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      changes,
+      authToken,
+    }: {
+      changes: ProfileUpdate;
+      authToken: string;
+    }) => updateProfile(changes, authToken),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(
+        [PROFILE_QUERY_KEYS.PROFILE, profile.handle],
+        profile
+      );
+    },
+  });
+};
@@ -0,0 +1,110 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import {
+  PlannedReminder,
+  ScheduledReminder,
+  diffReminders,
+} from '../utils/reminders';
+
+const REMINDER_TYPE = 'event_reminder';
+const WAITLIST_TYPE = 'waitlist_promotion';
+const REMINDER_CHANNEL_ID = 'event-reminders';
+
+// Show reminders as banners even while the app is open
+export const configureNotifications = async () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Event reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+};
+
+export const requestReminderPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+export const getScheduledReminders = async (): Promise<ScheduledReminder[]> => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  return scheduled
+    .filter((request) => request.content.data?.type === REMINDER_TYPE)
+    .map((request) => ({
+      notificationId: request.identifier,
+      eventId: Number(request.content.data.eventId),
+      signature: String(request.content.data.signature),
+    }));
+};
+
+const scheduleReminder = (reminder: PlannedReminder) =>
+  Notifications.scheduleNotificationAsync({
+    content: {
+      title: reminder.title,
+      body: reminder.body,
+      data: {
+        type: REMINDER_TYPE,
+        eventId: reminder.eventId,
+        signature: reminder.signature,
+      },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: reminder.fireAt,
+      channelId: REMINDER_CHANNEL_ID,
+    },
+  });
+
+// Makes the OS schedule match the planned reminders. Only touches
+// notifications this module created.
+export const syncReminders = async (planned: PlannedReminder[]) => {
+  const scheduled = await getScheduledReminders();
+  const { toSchedule, toCancel } = diffReminders(scheduled, planned);
+
+  await Promise.all(
+    toCancel.map((reminder) =>
+      Notifications.cancelScheduledNotificationAsync(reminder.notificationId)
+    )
+  );
+  await Promise.all(toSchedule.map(scheduleReminder));
+
+  console.log('syncReminders: Done', {
+    scheduled: toSchedule.length,
+    cancelled: toCancel.length,
+  });
+};
+
+export const cancelAllReminders = () => syncReminders([]);
+
+// Shown straight away when a spot opens up for a waitlisted event
+export const notifyWaitlistPromotion = (event: { id: number; title: string }) =>
+  Notifications.scheduleNotificationAsync({
+    content: {
+      title: "You're in!",
+      body: `A spot opened up at ${event.title}. You're now attending.`,
+      data: { type: WAITLIST_TYPE, eventId: event.id },
+    },
+    trigger: null,
+  });
+
+// Event id carried by a tapped reminder or waitlist notice, if it was one
+export const getReminderEventId = (
+  response: Notifications.NotificationResponse
+): number | null => {
+  const data = response.notification.request.content.data;
+  return data?.type === REMINDER_TYPE || data?.type === WAITLIST_TYPE
+    ? Number(data.eventId)
+    : null;
+};
@@ -0,0 +1,70 @@
+import {
+  getEventsUpdatedSince,
+  getTracksForGroup,
+  getVenuesForGroup,
+} from './api';
+import { CACHE_TTL } from './caching';
+import {
+  GroupSnapshot,
+  createEmptySnapshot,
+  mergeEventChanges,
+  offlineStore,
+} from './offlineStore';
+
+const SYNC_PAGE_SIZE = 200;
+const EPOCH = '1970-01-01T00:00:00';
+
+// Deltas by updated_at can't see hard-deleted events, so the snapshot is
+// rebuilt from scratch once it is older than this
+const FULL_SYNC_INTERVAL = CACHE_TTL.MAX_AGE;
+
+const needsFullSync = (snapshot: GroupSnapshot, now: number): boolean =>
+  !snapshot.lastFullSyncAt ||
+  now - new Date(snapshot.lastFullSyncAt).getTime() > FULL_SYNC_INTERVAL;
+
+// Brings the stored snapshot of a group up to date and returns it
+export const syncGroup = async (groupId: number): Promise<GroupSnapshot> => {
+  const now = Date.now();
+  const stored = await offlineStore.get(groupId);
+  const fullSync = !stored || needsFullSync(stored, now);
+  let snapshot = fullSync ? createEmptySnapshot(groupId) : stored;
+
+  console.log('syncGroup: Starting', {
+    groupId,
+    fullSync,
+    cursor: snapshot.cursor,
+  });
+
+  // Page through changes oldest-first. The cursor is fixed for the whole run
+  // so offsets stay stable.
+  const since = snapshot.cursor || EPOCH;
+  let offset = 0;
+  let page;
+  do {
+    page = await getEventsUpdatedSince(groupId, since, SYNC_PAGE_SIZE, offset);
+    snapshot = mergeEventChanges(snapshot, page);
+    offset += page.length;
+  } while (page.length === SYNC_PAGE_SIZE);
+
+  const [tracks, venues] = await Promise.all([
+    getTracksForGroup(groupId),
+    getVenuesForGroup(groupId),
+  ]);
+
+  const syncedAt = new Date(now).toISOString();
+  snapshot = {
+    ...snapshot,
+    tracks,
+    venues,
+    lastSyncedAt: syncedAt,
+    lastFullSyncAt: fullSync ? syncedAt : snapshot.lastFullSyncAt,
+  };
+  await offlineStore.set(snapshot);
+
+  console.log('syncGroup: Done', {
+    groupId,
+    changedEvents: offset,
+    totalEvents: Object.keys(snapshot.events).length,
+  });
+  return snapshot;
+};
@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  getEventsForTrack,
+  getMyAllowedTrackIds,
+  getTracksForGroup,
+} from './api';
+import { offlineStore, selectEvents } from './offlineStore';
+import { Track } from '../types';
+
+export const TRACK_QUERY_KEYS = {
+  GROUP_TRACKS: 'groupTracks',
+  TRACK_EVENTS: 'trackEvents',
+  MY_TRACK_ACCESS: 'myTrackAccess',
+} as const;
+
+// Hook to get a group's tracks, from the synced snapshot when offline
+export const useGroupTracks = (groupId: number) => {
+  return useQuery({
+    queryKey: [TRACK_QUERY_KEYS.GROUP_TRACKS, groupId],
+    queryFn: async () => {
+      try {
+        return await getTracksForGroup(groupId);
+      } catch (error) {
+        const snapshot = await offlineStore.get(groupId);
+        if (!snapshot) throw error;
+        return snapshot.tracks;
+      }
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 60 * 60 * 1000, // Keep in memory for 1 hour
+  });
+};
+
+// Tracks the viewer may browse. Holders of track-limited tickets only see
+// the tracks their tickets allow; everyone else sees all of them.
+export const useVisibleTracks = (groupId: number, userId?: number) => {
+  const tracksQuery = useGroupTracks(groupId);
+  const { data: allowedTrackIds } = useQuery({
+    queryKey: [TRACK_QUERY_KEYS.MY_TRACK_ACCESS, groupId, userId],
+    queryFn: () => getMyAllowedTrackIds(groupId, userId!),
+    enabled: !!userId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const tracks: Track[] = (tracksQuery.data || []).filter(
+    (track) => !allowedTrackIds || allowedTrackIds.includes(track.id)
+  );
+
+  return { ...tracksQuery, data: tracks };
+};
+
+// Hook to get a track's events, from the synced snapshot when offline
+export const useTrackEvents = (groupId: number, trackId: number) => {
+  return useQuery({
+    queryKey: [TRACK_QUERY_KEYS.TRACK_EVENTS, groupId, trackId],
+    queryFn: async () => {
+      try {
+        return await getEventsForTrack(groupId, trackId);
+      } catch (error) {
+        const snapshot = await offlineStore.get(groupId);
+        if (!snapshot) throw error;
+        return selectEvents(snapshot).filter(
+          (event) => event.track_id === trackId && event.status !== 'cancel'
+        );
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
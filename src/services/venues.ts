@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { getEventsForVenue, getVenuesForGroup } from './api';
+import { offlineStore, selectEvents } from './offlineStore';
+
+export const VENUE_QUERY_KEYS = {
+  GROUP_VENUES: 'groupVenues',
+  VENUE_EVENTS: 'venueEvents',
+} as const;
+
+// Hook to get a group's venues, from the synced snapshot when offline
+export const useGroupVenues = (groupId: number) => {
+  return useQuery({
+    queryKey: [VENUE_QUERY_KEYS.GROUP_VENUES, groupId],
+    queryFn: async () => {
+      try {
+        return await getVenuesForGroup(groupId);
+      } catch (error) {
+        const snapshot = await offlineStore.get(groupId);
+        if (!snapshot) throw error;
+        return snapshot.venues;
+      }
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 60 * 60 * 1000, // Keep in memory for 1 hour
+  });
+};
+
+// Hook to get the events held at a venue, from the synced snapshot when offline
+export const useVenueEvents = (groupId: number, venueId: number) => {
+  return useQuery({
+    queryKey: [VENUE_QUERY_KEYS.VENUE_EVENTS, groupId, venueId],
+    queryFn: async () => {
+      try {
+        return await getEventsForVenue(groupId, venueId);
+      } catch (error) {
+        const snapshot = await offlineStore.get(groupId);
+        if (!snapshot) throw error;
+        return selectEvents(snapshot).filter(
+          (event) => event.venue_id === venueId && event.status !== 'cancel'
+        );
+      }
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
@@ -0,0 +1,180 @@
+import Constants from 'expo-constants';
+import * as Crypto from 'expo-crypto';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { getWalletNonce, signInWithWallet } from './api';
+import {
+  createWalletConnectSigner,
+  isWalletConnectAvailable,
+} from './walletConnect';
+
+export type WalletChain = 'evm' | 'solana';
+
+// Anything that can produce a wallet address and sign a plain-text message.
+// Wallet connectors (WalletConnect, Solana Mobile Wallet Adapter, ...) plug
+// into sign-in by implementing this interface.
+export interface WalletSigner {
+  id: string;
+  name: string;
+  chain: WalletChain;
+  chainId?: number; // EVM only
+  getAddress: () => Promise<string>;
+  signMessage: (message: string) => Promise<string>;
+  // Ends the wallet session once sign-in is over
+  disconnect?: () => Promise<void>;
+}
+
+export interface WalletChallenge {
+  domain: string;
+  address: string;
+  uri: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  chainId?: number;
+  statement?: string;
+}
+
+const SIGN_IN_DOMAIN: string =
+  Constants.expoConfig?.extra?.walletSignInDomain || 'app.sola.day';
+
+export const SIGN_IN_STATEMENT = 'Sign in to Social Layer';
+
+// How long a signed message stays valid
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+export const createWalletChallenge = (
+  address: string,
+  nonce: string,
+  chainId?: number,
+  now: Date = new Date()
+): WalletChallenge => ({
+  domain: SIGN_IN_DOMAIN,
+  address,
+  uri: `https://${SIGN_IN_DOMAIN}`,
+  nonce,
+  issuedAt: now.toISOString(),
+  expirationTime: new Date(now.getTime() + CHALLENGE_TTL_MS).toISOString(),
+  chainId,
+  statement: SIGN_IN_STATEMENT,
+});
+
+// EIP-55 mixed-case encoding. SIWE messages must carry the checksummed form.
+export const toChecksumAddress = (address: string): string => {
+  const hex = address.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(hex)));
+  return `0x${[...hex]
+    .map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char))
+    .join('')}`;
+};
+
+// EIP-4361 (Sign-In with Ethereum) message
+export const buildSiweMessage = (challenge: WalletChallenge): string => {
+  const lines = [
+    `${challenge.domain} wants you to sign in with your Ethereum account:`,
+    challenge.address,
+    '',
+  ];
+  if (challenge.statement) {
+    lines.push(challenge.statement, '');
+  }
+  lines.push(
+    `URI: ${challenge.uri}`,
+    'Version: 1',
+    `Chain ID: ${challenge.chainId ?? 1}`,
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${challenge.issuedAt}`
+  );
+  if (challenge.expirationTime) {
+    lines.push(`Expiration Time: ${challenge.expirationTime}`);
+  }
+  return lines.join('\n');
+};
+
+// Sign-In with Solana message, the Solana counterpart of EIP-4361
+export const buildSolanaSignInMessage = (
+  challenge: WalletChallenge
+): string => {
+  const lines = [
+    `${challenge.domain} wants you to sign in with your Solana account:`,
+    challenge.address,
+    '',
+  ];
+  if (challenge.statement) {
+    lines.push(challenge.statement, '');
+  }
+  lines.push(
+    `URI: ${challenge.uri}`,
+    'Version: 1',
+    'Chain ID: mainnet',
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${challenge.issuedAt}`
+  );
+  if (challenge.expirationTime) {
+    lines.push(`Expiration Time: ${challenge.expirationTime}`);
+  }
+  return lines.join('\n');
+};
+
+export const buildWalletSignInMessage = (
+  chain: WalletChain,
+  challenge: WalletChallenge
+): string =>
+  chain === 'evm'
+    ? buildSiweMessage(challenge)
+    : buildSolanaSignInMessage(challenge);
+
+const sha256 = (value: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, value);
+
+// Deterministic signer for tests. Its signatures are not valid ECDSA/Ed25519
+// signatures, so the real API rejects them.
+export const createMockWalletSigner = (
+  chain: WalletChain,
+  seed = 'social-layer-dev'
+): WalletSigner => ({
+  id: `mock-${chain}`,
+  name: chain === 'evm' ? 'Mock Ethereum Wallet' : 'Mock Solana Wallet',
+  chain,
+  chainId: chain === 'evm' ? 1 : undefined,
+  getAddress: async () => {
+    const digest = await sha256(`${chain}:${seed}`);
+    return chain === 'evm'
+      ? toChecksumAddress(digest.slice(0, 40))
+      : digest.slice(0, 44);
+  },
+  signMessage: async (message: string) => {
+    const first = await sha256(`${seed}:${message}`);
+    const second = await sha256(`${message}:${seed}`);
+    return chain === 'evm' ? `0x${first}${second}1b` : `${first}${second}`;
+  },
+});
+
+// Signers offered on the sign-in screen. WalletConnect needs a project ID
+// in app.json; without one the sign-in screen shows no wallet buttons.
+export const getAvailableWalletSigners = (): WalletSigner[] =>
+  isWalletConnectAvailable() ? [createWalletConnectSigner()] : [];
+
+// Signs a fresh server challenge with the wallet and exchanges the signature
+// for an auth token
+export const authenticateWithWallet = async (
+  signer: WalletSigner
+): Promise<string> => {
+  try {
+    const rawAddress = await signer.getAddress();
+    const address =
+      signer.chain === 'evm' ? toChecksumAddress(rawAddress) : rawAddress;
+    const nonce = await getWalletNonce(address);
+    const message = buildWalletSignInMessage(
+      signer.chain,
+      createWalletChallenge(address, nonce, signer.chainId)
+    );
+    const signature = await signer.signMessage(message);
+
+    return await signInWithWallet(signer.chain, address, message, signature);
+  } finally {
+    signer
+      .disconnect?.()
+      .catch((error) => console.warn('Failed to disconnect wallet:', error));
+  }
+};
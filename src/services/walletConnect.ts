@@ -0,0 +1,128 @@
+import { Linking } from 'react-native';
+import Constants from 'expo-constants';
+import SignClient from '@walletconnect/sign-client';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { WalletSigner } from './walletAuth';
+
+// Free project ID from https://cloud.reown.com, needed to reach the relay
+const PROJECT_ID: string =
+  Constants.expoConfig?.extra?.walletConnectProjectId || '';
+
+const CHAIN_ID = 1;
+const CAIP_CHAIN_ID = `eip155:${CHAIN_ID}`;
+
+// Shown in the wallet's connection prompt
+const APP_METADATA = {
+  name: 'Social Layer',
+  description: 'Sign in to Social Layer',
+  url: 'https://app.sola.day',
+  icons: [],
+  redirect: { native: 'sociallayer://' },
+};
+
+// Sent when closing the session, see the WalletConnect error codes
+const USER_DISCONNECTED = { code: 6000, message: 'User disconnected.' };
+
+export const isWalletConnectAvailable = (): boolean => !!PROJECT_ID;
+
+let clientPromise: Promise<SignClient> | null = null;
+
+const getClient = () => {
+  if (!clientPromise) {
+    clientPromise = SignClient.init({
+      projectId: PROJECT_ID,
+      metadata: APP_METADATA,
+    });
+    // Let the next sign-in try again after a failed start
+    clientPromise.catch(() => {
+      clientPromise = null;
+    });
+  }
+  return clientPromise;
+};
+
+interface WalletSession {
+  topic: string;
+  address: string;
+  // Deep link back into the wallet app, when the wallet provides one
+  walletLink?: string;
+}
+
+// Signs in with any Ethereum wallet app that speaks WalletConnect v2. Getting
+// the address opens the wallet to approve a session; signing opens it again
+// for the message.
+export const createWalletConnectSigner = (): WalletSigner => {
+  let session: WalletSession | null = null;
+
+  return {
+    id: 'walletconnect',
+    name: 'WalletConnect',
+    chain: 'evm',
+    chainId: CHAIN_ID,
+    getAddress: async () => {
+      const client = await getClient();
+      const { uri, approval } = await client.connect({
+        optionalNamespaces: {
+          eip155: {
+            methods: ['personal_sign'],
+            chains: [CAIP_CHAIN_ID],
+            events: [],
+          },
+        },
+      });
+      const approved = approval();
+      // Nobody waits for the approval if the wallet cannot be opened
+      approved.catch(() => undefined);
+
+      if (uri) {
+        try {
+          await Linking.openURL(uri);
+        } catch {
+          throw new Error('No wallet app that supports WalletConnect found');
+        }
+      }
+
+      const { topic, namespaces, peer } = await approved;
+      // CAIP-10 account ID, e.g. eip155:1:0xab16...
+      const account = namespaces.eip155?.accounts.find((id) =>
+        id.startsWith(`${CAIP_CHAIN_ID}:`)
+      );
+      if (!account) {
+        await client.disconnect({ topic, reason: USER_DISCONNECTED });
+        throw new Error('The wallet did not share an Ethereum account');
+      }
+
+      session = {
+        topic,
+        address: account.split(':')[2],
+        walletLink: peer.metadata.redirect?.native,
+      };
+      return session.address;
+    },
+    signMessage: async (message: string) => {
+      if (!session) {
+        throw new Error('Connect a wallet before signing');
+      }
+      const client = await getClient();
+      const signature = client.request<string>({
+        topic: session.topic,
+        chainId: CAIP_CHAIN_ID,
+        request: {
+          method: 'personal_sign',
+          params: [`0x${bytesToHex(utf8ToBytes(message))}`, session.address],
+        },
+      });
+      if (session.walletLink) {
+        Linking.openURL(session.walletLink).catch(() => undefined);
+      }
+      return signature;
+    },
+    disconnect: async () => {
+      if (!session) return;
+      const { topic } = session;
+      session = null;
+      const client = await getClient();
+      await client.disconnect({ topic, reason: USER_DISCONNECTED });
+    },
+  };
+};
@@ -32,6 +32,14 @@ export interface Profile {
   social_links: SocialMedia;
 }
 
+// Fields a user can change on their own profile
+export type ProfileUpdate = Partial<
+  Pick<
+    Profile,
+    'nickname' | 'about' | 'location' | 'image_url' | 'social_links'
+  >
+>;
+
 export type ProfileSample = Pick<
   Profile,
   'id' | 'handle' | 'nickname' | 'image_url'
@@ -76,12 +84,36 @@ export interface Event {
   display: string | null;
   pinned: boolean;
   participants: Participant[] | null;
+  updated_at?: string;
 }
 
+// Fields an organizer fills in when creating an event
+export type EventDraft = Pick<
+  Event,
+  | 'title'
+  | 'start_time'
+  | 'end_time'
+  | 'timezone'
+  | 'meeting_url'
+  | 'location'
+  | 'cover_url'
+  | 'content'
+  | 'tags'
+  | 'max_participant'
+> & {
+  group_id: number;
+  event_roles: EventRole[];
+};
+
+// Changes an owner can make to an existing event
+export type EventUpdate = Partial<Omit<EventDraft, 'group_id'>>;
+
 export interface EventWithJoinStatus extends Event {
   is_owner: boolean;
   is_attending: boolean;
   is_starred: boolean;
+  // Applied with a ticket the host hasn't approved yet
+  is_pending_approval?: boolean;
   track?: Track;
 }
 
@@ -138,6 +170,42 @@ export interface Track {
   icon_url: string | null;
 }
 
+export interface Venue {
+  id: number;
+  title: string;
+  about: string | null;
+  location: string | null;
+  formatted_address: string | null;
+  geo_lat: string | null;
+  geo_lng: string | null;
+  capacity: number | null;
+  link: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  image_urls: string[] | null;
+  venue_timeslots?: VenueTimeslot[];
+  venue_overrides?: VenueOverride[];
+  updated_at: string;
+}
+
+// Regular weekly opening hours; times are "HH:mm" in the venue's local time
+export interface VenueTimeslot {
+  id: number;
+  day_of_week: string;
+  start_at: string | null;
+  end_at: string | null;
+  disabled: boolean | null;
+}
+
+// Opening hours for one specific date, replacing the weekly ones
+export interface VenueOverride {
+  id: number;
+  day: string;
+  start_at: string | null;
+  end_at: string | null;
+  disabled: boolean | null;
+}
+
 export enum EventRoleType {
   Speaker = 'speaker',
   CoHost = 'co_host',
@@ -191,6 +259,9 @@ export interface Group {
 export interface Membership {
   id: number;
   role: string;
+  // "pending" while a membership request waits for a manager
+  status?: string | null;
+  created_at?: string;
   profile: ProfileSample;
 }
 
@@ -233,6 +304,9 @@ export interface Badge {
   owner: ProfileSample;
 }
 
+// Lifecycle of a paid ticket; free tickets leave payment_status null
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed';
+
 export interface Participant {
   id: number;
   event_id: number;
@@ -256,13 +330,23 @@ export type RootStackParamList = {
   Main: undefined;
   EventDetail: { eventId: number };
   Participants: { eventId: number };
-  Profile: { handle: string };
+  UserProfile: { handle: string };
+  EditProfile: undefined;
   CreateEvent: undefined;
+  EditEvent: { eventId: number };
+  BadgeClass: { badgeClassId: number };
   Auth: undefined;
+  NearMe: undefined;
+  TrackDetail: { trackId: number };
+  Venues: undefined;
+  VenueDetail: { venueId: number };
+  CheckIn: { eventId: number };
+  GroupDetail: { groupId: number };
 };
 
 export type TabParamList = {
   Discover: undefined;
+  Map: undefined;
   Search: undefined;
   Calendar: undefined;
   MyEvents: undefined;
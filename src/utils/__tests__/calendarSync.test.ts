@@ -0,0 +1,194 @@
+import {
+  CalendarAdapter,
+  CalendarEventDetails,
+  CalendarLinkStore,
+  CalendarLinks,
+  createCalendarSync,
+  getCalendarSignature,
+} from '../calendarSync';
+
+// Calendar kept in memory, for exercising the sync logic without a device
+const createInMemoryCalendarAdapter = (): CalendarAdapter & {
+  events: Map<string, CalendarEventDetails>;
+  granted: boolean;
+} => {
+  const events = new Map<string, CalendarEventDetails>();
+  let nextId = 1;
+
+  const adapter = {
+    events,
+    granted: true,
+    hasAccess: async () => adapter.granted,
+    requestAccess: async () => adapter.granted,
+    createEvent: async (details: CalendarEventDetails) => {
+      const id = String(nextId++);
+      events.set(id, details);
+      return id;
+    },
+    updateEvent: async (
+      calendarEventId: string,
+      details: CalendarEventDetails
+    ) => {
+      if (!events.has(calendarEventId)) {
+        throw new Error(`Calendar event ${calendarEventId} not found`);
+      }
+      events.set(calendarEventId, details);
+    },
+    deleteEvent: async (calendarEventId: string) => {
+      events.delete(calendarEventId);
+    },
+    hasEvent: async (calendarEventId: string) => events.has(calendarEventId),
+  };
+  return adapter;
+};
+
+const createInMemoryLinkStore = (): CalendarLinkStore => {
+  let links: CalendarLinks = {};
+  return {
+    load: async () => ({ ...links }),
+    save: async (next) => {
+      links = { ...next };
+    },
+  };
+};
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const makeEvent = (id: number, overrides = {}) => ({
+  id,
+  title: `Event ${id}`,
+  start_time: '2025-06-10T09:00:00Z',
+  end_time: '2025-06-10T10:00:00Z',
+  timezone: 'UTC',
+  location: 'Main Hall',
+  meeting_url: null,
+  content: null,
+  status: 'open',
+  ...overrides,
+});
+
+const setup = () => {
+  const adapter = createInMemoryCalendarAdapter();
+  const sync = createCalendarSync(adapter, createInMemoryLinkStore());
+  return { adapter, sync };
+};
+
+describe('calendar sync reconcile', () => {
+  it('adds upcoming attended events when syncing attending', async () => {
+    const { adapter, sync } = setup();
+    const past = makeEvent(2, { end_time: '2025-05-01T10:00:00Z' });
+
+    const links = await sync.reconcile({
+      events: [makeEvent(1), past, makeEvent(3)],
+      attendingIds: new Set([1, 2]),
+      syncAttending: true,
+      now: NOW,
+    });
+
+    expect(Object.keys(links)).toEqual(['1']);
+    expect(links[1].source).toBe('attending');
+    expect(adapter.events.get(links[1].calendarEventId)?.title).toBe('Event 1');
+  });
+
+  it('updates entries whose event changed', async () => {
+    const { adapter, sync } = setup();
+    await sync.addEvent(makeEvent(1));
+
+    const moved = makeEvent(1, { title: 'Moved', location: 'Annex' });
+    const links = await sync.reconcile({
+      events: [moved],
+      attendingIds: new Set(),
+      syncAttending: false,
+      now: NOW,
+    });
+
+    expect(links[1].signature).toBe(getCalendarSignature(moved));
+    expect(adapter.events.get(links[1].calendarEventId)).toMatchObject({
+      title: 'Moved',
+      location: 'Annex',
+    });
+  });
+
+  it('leaves unchanged entries alone', async () => {
+    const { adapter, sync } = setup();
+    const event = makeEvent(1, {
+      formatted_address: '1 Main St',
+      meeting_url: 'https://meet.example.com/1',
+    });
+    // Loaded from the event page, then again from the attending list
+    const fromDetail = { ...event, updated_at: '2025-05-01T00:00:00Z' };
+    const fromList = { ...event, updated_at: '2025-05-02T00:00:00Z' };
+    await sync.addEvent(fromDetail);
+    const updateEvent = jest.spyOn(adapter, 'updateEvent');
+
+    await sync.reconcile({
+      events: [fromList],
+      attendingIds: new Set([1]),
+      syncAttending: true,
+      now: NOW,
+    });
+
+    expect(updateEvent).not.toHaveBeenCalled();
+  });
+
+  it('removes canceled events and dropped RSVPs but keeps manual entries', async () => {
+    const { adapter, sync } = setup();
+    await sync.reconcile({
+      events: [makeEvent(1), makeEvent(2)],
+      attendingIds: new Set([1, 2]),
+      syncAttending: true,
+      now: NOW,
+    });
+    await sync.addEvent(makeEvent(3));
+
+    const links = await sync.reconcile({
+      events: [makeEvent(1, { status: 'cancel' }), makeEvent(2), makeEvent(3)],
+      attendingIds: new Set([1]),
+      syncAttending: true,
+      now: NOW,
+    });
+
+    expect(Object.keys(links)).toEqual(['3']);
+    expect(adapter.events.size).toBe(1);
+  });
+
+  it('does not restore entries the user deleted from their calendar', async () => {
+    const { adapter, sync } = setup();
+    const input = {
+      events: [makeEvent(1)],
+      attendingIds: new Set([1]),
+      syncAttending: true,
+      now: NOW,
+    };
+    const first = await sync.reconcile(input);
+    adapter.events.delete(first[1].calendarEventId);
+
+    const links = await sync.reconcile(input);
+    expect(links[1].dismissed).toBe(true);
+
+    await sync.reconcile(input);
+    expect(adapter.events.size).toBe(0);
+  });
+
+  it('leaves everything alone without calendar permission', async () => {
+    const { adapter, sync } = setup();
+    const added = await sync.addEvent(makeEvent(1));
+    adapter.granted = false;
+    const createEvent = jest.spyOn(adapter, 'createEvent');
+    const updateEvent = jest.spyOn(adapter, 'updateEvent');
+    const hasEvent = jest.spyOn(adapter, 'hasEvent');
+
+    const links = await sync.reconcile({
+      events: [makeEvent(1, { title: 'Moved' }), makeEvent(2)],
+      attendingIds: new Set([2]),
+      syncAttending: true,
+      now: NOW,
+    });
+
+    expect(links).toEqual(added);
+    expect(links[1].dismissed).toBeUndefined();
+    expect(createEvent).not.toHaveBeenCalled();
+    expect(updateEvent).not.toHaveBeenCalled();
+    expect(hasEvent).not.toHaveBeenCalled();
+  });
+});
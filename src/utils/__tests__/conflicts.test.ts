@@ -0,0 +1,128 @@
+import { eventsOverlap, findConflicts, getMySchedule } from '../conflicts';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const makeEvent = (
+  id: number,
+  start_time: string,
+  end_time: string,
+  status = 'open'
+) => ({ id, start_time, end_time, status });
+
+describe('eventsOverlap', () => {
+  it('does not count back-to-back events as a clash', () => {
+    const first = makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z');
+    const second = makeEvent(2, '2025-06-10T10:00:00Z', '2025-06-10T11:00:00Z');
+
+    expect(eventsOverlap(first, second)).toBe(false);
+    expect(eventsOverlap(second, first)).toBe(false);
+  });
+
+  it('catches events that cross midnight', () => {
+    const lateNight = makeEvent(
+      1,
+      '2025-06-10T22:00:00Z',
+      '2025-06-11T02:00:00Z'
+    );
+    const earlyMorning = makeEvent(
+      2,
+      '2025-06-11T01:00:00Z',
+      '2025-06-11T03:00:00Z'
+    );
+    const nextEvening = makeEvent(
+      3,
+      '2025-06-11T22:00:00Z',
+      '2025-06-11T23:00:00Z'
+    );
+
+    expect(eventsOverlap(lateNight, earlyMorning)).toBe(true);
+    expect(eventsOverlap(lateNight, nextEvening)).toBe(false);
+  });
+
+  it('compares instants, not wall-clock times, across timezones', () => {
+    // 9:00 in Berlin is 8:00 in London
+    const berlin = makeEvent(
+      1,
+      '2025-06-10T09:00:00+02:00',
+      '2025-06-10T10:00:00+02:00'
+    );
+    const london = makeEvent(
+      2,
+      '2025-06-10T08:30:00+01:00',
+      '2025-06-10T09:30:00+01:00'
+    );
+    const londonLater = makeEvent(
+      3,
+      '2025-06-10T09:00:00+01:00',
+      '2025-06-10T10:00:00+01:00'
+    );
+
+    expect(eventsOverlap(berlin, london)).toBe(true);
+    expect(eventsOverlap(berlin, londonLater)).toBe(false);
+  });
+
+  it('reads server times without an offset as UTC', () => {
+    const utc = makeEvent(1, '2025-06-10 09:00:00', '2025-06-10 10:00:00');
+    const tokyo = makeEvent(
+      2,
+      '2025-06-10T18:30:00+09:00',
+      '2025-06-10T19:30:00+09:00'
+    );
+
+    expect(eventsOverlap(utc, tokyo)).toBe(true);
+  });
+});
+
+describe('findConflicts', () => {
+  const event = makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T11:00:00Z');
+
+  it('lists overlapping events soonest first, once each', () => {
+    const later = makeEvent(2, '2025-06-10T10:00:00Z', '2025-06-10T12:00:00Z');
+    const earlier = makeEvent(
+      3,
+      '2025-06-10T08:00:00Z',
+      '2025-06-10T09:30:00Z'
+    );
+    const apart = makeEvent(4, '2025-06-10T11:00:00Z', '2025-06-10T12:00:00Z');
+
+    expect(
+      findConflicts(event, [later, event, apart, earlier, later], NOW)
+    ).toEqual([earlier, later]);
+  });
+
+  it('ignores canceled events', () => {
+    const canceled = makeEvent(
+      2,
+      '2025-06-10T10:00:00Z',
+      '2025-06-10T12:00:00Z',
+      'cancel'
+    );
+
+    expect(findConflicts(event, [canceled], NOW)).toEqual([]);
+    expect(
+      findConflicts(
+        { ...event, status: 'cancel' },
+        [{ ...canceled, id: 3, status: 'open' }],
+        NOW
+      )
+    ).toEqual([]);
+  });
+
+  it('ignores events that have already ended', () => {
+    const other = makeEvent(2, '2025-06-10T10:00:00Z', '2025-06-10T12:00:00Z');
+
+    expect(
+      findConflicts(event, [other], new Date('2025-06-10T11:00:00Z'))
+    ).toEqual([]);
+  });
+});
+
+describe('getMySchedule', () => {
+  it('merges attending and starred events without duplicates', () => {
+    const a = makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z');
+    const b = makeEvent(2, '2025-06-10T11:00:00Z', '2025-06-10T12:00:00Z');
+
+    expect(getMySchedule({ attending: [a, b], starred: [b] })).toEqual([a, b]);
+    expect(getMySchedule(undefined)).toEqual([]);
+  });
+});
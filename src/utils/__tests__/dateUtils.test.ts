@@ -0,0 +1,23 @@
+import { isTomorrow } from '../dateUtils';
+
+describe('isTomorrow', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('matches the next calendar day in the given timezone', () => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T20:00:00Z') });
+
+    // Already June 2 in Tokyo, so tomorrow there is June 3
+    expect(isTomorrow('2025-06-02T10:00:00Z', 'UTC')).toBe(true);
+    expect(isTomorrow('2025-06-02T10:00:00Z', 'Asia/Tokyo')).toBe(false);
+    expect(isTomorrow('2025-06-03T10:00:00Z', 'Asia/Tokyo')).toBe(true);
+  });
+
+  it('does not skip a 23-hour day', () => {
+    // 23:30 the night before US clocks spring forward, so 24 hours later is
+    // already the day after tomorrow
+    jest.useFakeTimers({ now: new Date('2024-03-10T04:30:00Z') });
+
+    expect(isTomorrow('2024-03-10T16:00:00Z', 'America/New_York')).toBe(true);
+    expect(isTomorrow('2024-03-11T16:00:00Z', 'America/New_York')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { Venue } from '../../types';
+import {
+  MapPoint,
+  MapRegion,
+  clusterPoints,
+  getEventCoordinate,
+  getRegionForCoordinates,
+  parseCoordinate,
+} from '../geo';
+
+const point = (
+  item: string,
+  latitude: number,
+  longitude: number
+): MapPoint<string> => ({ item, coordinate: { latitude, longitude } });
+
+// A city-sized view around Lisbon
+const CITY: MapRegion = {
+  latitude: 38.72,
+  longitude: -9.14,
+  latitudeDelta: 0.12,
+  longitudeDelta: 0.12,
+};
+
+const zoomIn = (region: MapRegion, factor: number): MapRegion => ({
+  ...region,
+  latitudeDelta: region.latitudeDelta / factor,
+  longitudeDelta: region.longitudeDelta / factor,
+});
+
+const sortedItems = (clusters: { items: string[] }[]) =>
+  clusters.map((cluster) => [...cluster.items].sort()).sort();
+
+describe('parseCoordinate', () => {
+  it('parses the strings the API returns', () => {
+    expect(parseCoordinate('38.7223', '-9.1393')).toEqual({
+      latitude: 38.7223,
+      longitude: -9.1393,
+    });
+  });
+
+  it.each([
+    [null, '1'],
+    ['abc', '1'],
+    ['91', '0'],
+    ['0', '181'],
+    ['0', '0'],
+  ])('rejects %p, %p', (lat, lng) => {
+    expect(parseCoordinate(lat, lng)).toBeNull();
+  });
+});
+
+describe('getEventCoordinate', () => {
+  const venues = new Map([
+    [7, { id: 7, geo_lat: '38.71', geo_lng: '-9.13' } as Venue],
+  ]);
+
+  it("prefers the event's own coordinates over its venue's", () => {
+    expect(
+      getEventCoordinate(
+        { geo_lat: '38.7', geo_lng: '-9.1', venue_id: 7 },
+        venues
+      )
+    ).toEqual({ latitude: 38.7, longitude: -9.1 });
+  });
+
+  it("falls back to the venue's coordinates", () => {
+    expect(
+      getEventCoordinate({ geo_lat: null, geo_lng: null, venue_id: 7 }, venues)
+    ).toEqual({ latitude: 38.71, longitude: -9.13 });
+    expect(
+      getEventCoordinate({ geo_lat: null, geo_lng: null, venue_id: 8 }, venues)
+    ).toBeNull();
+  });
+});
+
+describe('clusterPoints', () => {
+  const points = [
+    point('a', 38.7101, -9.1301),
+    point('b', 38.7104, -9.1303),
+    point('c', 38.7181, -9.1201),
+    point('far', 38.78, -9.2),
+  ];
+
+  it('merges nearby points and keeps distant ones apart', () => {
+    const clusters = clusterPoints(points, CITY);
+
+    expect(sortedItems(clusters)).toEqual([['a', 'b', 'c'], ['far']]);
+    const merged = clusters.find((cluster) => cluster.items.length === 3)!;
+    expect(merged.coordinate.latitude).toBeCloseTo(38.7129, 4);
+    expect(merged.singleLocation).toBe(false);
+    // Zooming to the cluster's region shows all of its members
+    expect(merged.region.latitudeDelta).toBeGreaterThanOrEqual(0.008);
+  });
+
+  it('splits clusters apart when zooming in', () => {
+    const clusters = clusterPoints(points, zoomIn(CITY, 12));
+
+    expect(sortedItems(clusters)).toEqual([['a', 'b'], ['c'], ['far']]);
+  });
+
+  it('marks clusters at one place, which zooming would never split', () => {
+    const sameVenue = [
+      point('x', 38.7101, -9.1301),
+      point('y', 38.7101, -9.1301),
+    ];
+
+    const [cluster] = clusterPoints(sameVenue, zoomIn(CITY, 1000));
+
+    expect(cluster.items).toEqual(['x', 'y']);
+    expect(cluster.singleLocation).toBe(true);
+  });
+});
+
+describe('getRegionForCoordinates', () => {
+  it('pads the bounds of the coordinates', () => {
+    const region = getRegionForCoordinates([
+      { latitude: 38.7, longitude: -9.2 },
+      { latitude: 38.8, longitude: -9.1 },
+    ]);
+
+    expect(region.latitude).toBeCloseTo(38.75);
+    expect(region.longitude).toBeCloseTo(-9.15);
+    expect(region.latitudeDelta).toBeCloseTo(0.14);
+    expect(region.longitudeDelta).toBeCloseTo(0.14);
+  });
+
+  it('does not zoom in past street level on a single point', () => {
+    const region = getRegionForCoordinates([
+      { latitude: 38.7, longitude: -9.2 },
+    ]);
+
+    expect(region.latitudeDelta).toBe(0.01);
+    expect(region.longitudeDelta).toBe(0.01);
+  });
+});
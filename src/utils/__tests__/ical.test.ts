@@ -0,0 +1,182 @@
+import { Event } from '../../types';
+import {
+  buildCalendar,
+  escapeText,
+  foldLine,
+  getCalendarFileName,
+  getEventUid,
+} from '../ical';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const makeEvent = (overrides: Partial<Event> = {}) =>
+  ({
+    id: 42,
+    title: 'Opening Night',
+    start_time: '2025-06-10T22:00:00Z',
+    end_time: '2025-06-11T00:00:00Z',
+    timezone: 'America/New_York',
+    location: 'Main Hall',
+    formatted_address: null,
+    geo_lat: null,
+    geo_lng: null,
+    meeting_url: null,
+    content: null,
+    status: 'open',
+    group: { id: 1, handle: 'demo', nickname: null, image_url: null },
+    ...overrides,
+  }) as Event;
+
+// Unfolded content lines of a calendar
+const getLines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('escapeText', () => {
+  it('escapes separators, backslashes and newlines', () => {
+    expect(escapeText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds by UTF-8 octets without splitting a character', () => {
+    // 3 + 30 × 3 octets, too long for one line
+    const line = `SUMMARY:${'€'.repeat(30)}`;
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n ');
+
+    expect(parts.length).toBe(2);
+    parts.forEach((part, index) => {
+      const octets = Buffer.byteLength(part, 'utf8') + (index > 0 ? 1 : 0);
+      expect(octets).toBeLessThanOrEqual(75);
+    });
+    expect(parts.join('')).toBe(line);
+  });
+
+  it('keeps emoji whole', () => {
+    const line = `SUMMARY:${'🎉'.repeat(40)}`;
+    const parts = foldLine(line).split('\r\n ');
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part) => {
+      expect(part).not.toMatch(/^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/);
+    });
+    expect(parts.join('')).toBe(line);
+  });
+});
+
+describe('buildCalendar', () => {
+  it('writes local times with a VTIMEZONE covering the DST changes', () => {
+    const lines = getLines(buildCalendar([makeEvent()], { now: NOW }));
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20250610T180000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20250610T200000');
+
+    const timezone = lines.slice(
+      lines.indexOf('BEGIN:VTIMEZONE'),
+      lines.indexOf('END:VTIMEZONE') + 1
+    );
+    expect(timezone).toContain('TZID:America/New_York');
+    // Spring forward on March 9 and fall back on November 2, 2025
+    expect(timezone).toEqual(
+      expect.arrayContaining([
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250309T020000',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'BEGIN:STANDARD',
+        'DTSTART:20251102T020000',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+      ])
+    );
+  });
+
+  it('writes UTC times without a VTIMEZONE for UTC events', () => {
+    const lines = getLines(
+      buildCalendar([makeEvent({ timezone: 'UTC' })], { now: NOW })
+    );
+
+    expect(lines).toContain('DTSTART:20250610T220000Z');
+    expect(lines).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('escapes text values', () => {
+    const lines = getLines(
+      buildCalendar(
+        [
+          makeEvent({
+            title: 'Talks, drinks; more',
+            content: 'Line one\nLine two',
+          }),
+        ],
+        { now: NOW }
+      )
+    );
+
+    expect(lines).toContain('SUMMARY:Talks\\, drinks\\; more');
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two');
+  });
+
+  it('folds every content line to 75 octets', () => {
+    const ics = buildCalendar(
+      [
+        makeEvent({
+          title: 'Überraschung! '.repeat(10),
+          content: '日本語'.repeat(30),
+        }),
+      ],
+      { now: NOW }
+    );
+
+    ics
+      .split('\r\n')
+      .forEach((line) =>
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+      );
+    expect(getLines(ics)).toContain(`SUMMARY:${'Überraschung! '.repeat(10)}`);
+  });
+
+  it('keeps UIDs and sequence numbers stable across exports', () => {
+    const event = makeEvent({ updated_at: '2025-05-01T08:00:00Z' });
+    const first = getLines(buildCalendar([event], { now: NOW }));
+    const again = getLines(
+      buildCalendar([event, event], { now: new Date('2025-06-02T12:00:00Z') })
+    );
+    const sequence = `SEQUENCE:${Date.parse('2025-05-01T08:00:00Z') / 1000}`;
+
+    expect(first).toContain(`UID:${getEventUid(42)}`);
+    expect(first).toContain(sequence);
+    expect(again.filter((line) => line.startsWith('UID:'))).toEqual([
+      `UID:${getEventUid(42)}`,
+    ]);
+    expect(again).toContain(sequence);
+
+    const edited = getLines(
+      buildCalendar([{ ...event, updated_at: '2025-05-02T08:00:00Z' }], {
+        now: NOW,
+      })
+    );
+    const editedSequence = edited.find((line) => line.startsWith('SEQUENCE:'));
+    expect(Number(editedSequence!.slice(9))).toBeGreaterThan(
+      Number(sequence.slice(9))
+    );
+  });
+
+  it('marks canceled events', () => {
+    const lines = getLines(
+      buildCalendar([makeEvent({ status: 'cancel' })], { now: NOW })
+    );
+
+    expect(lines).toContain('STATUS:CANCELLED');
+  });
+});
+
+describe('getCalendarFileName', () => {
+  it('slugs the title', () => {
+    expect(getCalendarFileName('Starred Events')).toBe('starred-events.ics');
+  });
+});
@@ -0,0 +1,47 @@
+import { buildParticipantsCsv, ListParticipant } from '../participants';
+
+const participant = (nickname: string): ListParticipant => ({
+  id: 1,
+  status: 'attending',
+  created_at: '2025-01-01T00:00:00Z',
+  profile: { nickname, handle: 'handle' },
+});
+
+const firstCell = (csv: string) => csv.split('\r\n')[1].split(',')[0];
+
+describe('buildParticipantsCsv', () => {
+  it('writes a header and one row per participant', () => {
+    const csv = buildParticipantsCsv([participant('Alice')]);
+    expect(csv).toBe(
+      'Name,Handle,Status,Ticket,Payment Status,Checked In,Joined At\r\n' +
+        'Alice,handle,attending,,,no,2025-01-01T00:00:00Z'
+    );
+  });
+
+  it('quotes fields holding commas, quotes or line breaks', () => {
+    expect(firstCell(buildParticipantsCsv([participant('Doe "JD"')]))).toBe(
+      '"Doe ""JD"""'
+    );
+    expect(buildParticipantsCsv([participant('Doe, Jane')])).toContain(
+      '"Doe, Jane",handle'
+    );
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tTab'])(
+    'neutralizes the formula-like name %j',
+    (name) => {
+      expect(firstCell(buildParticipantsCsv([participant(name)]))).toBe(
+        `'${name}`
+      );
+    }
+  );
+
+  it('prefixes before quoting so the apostrophe stays inside the quotes', () => {
+    expect(buildParticipantsCsv([participant('=1,2')])).toContain(
+      `"'=1,2",handle`
+    );
+    expect(buildParticipantsCsv([participant('\rX')])).toContain(
+      `"'\rX",handle`
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  PlannedReminder,
+  ScheduledReminder,
+  diffReminders,
+  planReminders,
+} from '../reminders';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const makeEvent = (id: number, overrides = {}) => ({
+  id,
+  title: `Event ${id}`,
+  start_time: '2025-06-02T09:00:00Z',
+  location: 'Main Hall',
+  status: 'open',
+  ...overrides,
+});
+
+// What the OS would hold after scheduling the given plan
+const toScheduled = (planned: PlannedReminder[]): ScheduledReminder[] =>
+  planned.map((reminder) => ({
+    notificationId: `notification-${reminder.eventId}`,
+    eventId: reminder.eventId,
+    signature: reminder.signature,
+  }));
+
+describe('planReminders', () => {
+  it('plans one reminder per event, soonest first', () => {
+    const later = makeEvent(1, { start_time: '2025-06-03T09:00:00Z' });
+    const sooner = makeEvent(2);
+
+    // Starred and attending lists both contain event 1
+    const planned = planReminders([later, sooner, later], 15, NOW);
+
+    expect(planned.map((reminder) => reminder.eventId)).toEqual([2, 1]);
+    expect(planned[0]).toMatchObject({
+      title: 'Event 2',
+      body: 'Starts in 15 minutes at Main Hall',
+      fireAt: new Date('2025-06-02T08:45:00Z'),
+    });
+  });
+
+  it('skips canceled events and reminders already due', () => {
+    const planned = planReminders(
+      [
+        makeEvent(1, { status: 'cancel' }),
+        makeEvent(2, { start_time: '2025-06-01T12:10:00Z' }),
+        makeEvent(3, { start_time: '2025-06-01T12:20:00Z', location: null }),
+      ],
+      15,
+      NOW
+    );
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({
+      eventId: 3,
+      body: 'Starts in 15 minutes',
+    });
+  });
+
+  it('words whole hours as hours', () => {
+    expect(planReminders([makeEvent(1)], 60, NOW)[0].body).toBe(
+      'Starts in 1 hour at Main Hall'
+    );
+  });
+
+  it('keeps only the 60 soonest reminders', () => {
+    const events = Array.from({ length: 70 }, (_, i) =>
+      makeEvent(70 - i, {
+        start_time: new Date(
+          Date.UTC(2025, 5, 2) + (70 - i) * 60 * 60 * 1000
+        ).toISOString(),
+      })
+    );
+
+    const planned = planReminders(events, 15, NOW);
+
+    expect(planned).toHaveLength(60);
+    expect(planned[0].eventId).toBe(1);
+    expect(planned[59].eventId).toBe(60);
+  });
+});
+
+describe('diffReminders', () => {
+  it('leaves reminders that are already scheduled alone', () => {
+    const planned = planReminders([makeEvent(1), makeEvent(2)], 15, NOW);
+
+    expect(diffReminders(toScheduled(planned), planned)).toEqual({
+      toSchedule: [],
+      toCancel: [],
+    });
+  });
+
+  it('cancels the reminder of a dropped RSVP', () => {
+    const before = planReminders([makeEvent(1), makeEvent(2)], 15, NOW);
+    const scheduled = toScheduled(before);
+
+    const { toSchedule, toCancel } = diffReminders(
+      scheduled,
+      planReminders([makeEvent(2)], 15, NOW)
+    );
+
+    expect(toSchedule).toEqual([]);
+    expect(toCancel).toEqual([scheduled[0]]);
+  });
+
+  it('replaces the reminder of a rescheduled event', () => {
+    const scheduled = toScheduled(planReminders([makeEvent(1)], 15, NOW));
+    const moved = planReminders(
+      [makeEvent(1, { start_time: '2025-06-02T10:00:00Z' })],
+      15,
+      NOW
+    );
+
+    const { toSchedule, toCancel } = diffReminders(scheduled, moved);
+
+    expect(toCancel).toEqual(scheduled);
+    expect(toSchedule).toEqual(moved);
+    expect(toSchedule[0].fireAt).toEqual(new Date('2025-06-02T09:45:00Z'));
+  });
+
+  it('cancels duplicate notifications for the same event', () => {
+    const planned = planReminders([makeEvent(1)], 15, NOW);
+    const [scheduled] = toScheduled(planned);
+    const duplicate = { ...scheduled, notificationId: 'notification-dup' };
+
+    const { toSchedule, toCancel } = diffReminders(
+      [scheduled, duplicate],
+      planned
+    );
+
+    expect(toSchedule).toEqual([]);
+    expect(toCancel).toEqual([duplicate]);
+  });
+});
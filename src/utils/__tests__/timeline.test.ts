@@ -0,0 +1,160 @@
+import { buildTimeline, getDayStart } from '../timeline';
+
+const makeEvent = (
+  id: number,
+  start_time: string,
+  end_time: string,
+  venue_id: number | null = 1
+) => ({ id, start_time, end_time, venue_id, track_id: null });
+
+const ROOMS = new Map([
+  [1, 'Main Hall'],
+  [2, 'Workshop Room'],
+]);
+
+const build = (
+  events: ReturnType<typeof makeEvent>[],
+  dateKey = '2025-06-10',
+  timezone = 'UTC',
+  now = Date.parse('2025-06-01T00:00:00Z')
+) =>
+  buildTimeline(events, {
+    dateKey,
+    timezone,
+    groupBy: 'venue',
+    columnTitles: ROOMS,
+    now,
+  });
+
+// Event id → [top, height, lane, laneCount] in the given column
+const layout = (column: ReturnType<typeof build>['columns'][number]) =>
+  Object.fromEntries(
+    column.blocks.map((block) => [
+      block.event.id,
+      [block.top, block.height, block.lane, block.laneCount],
+    ])
+  );
+
+describe('getDayStart', () => {
+  it('finds midnight in the display timezone', () => {
+    expect(new Date(getDayStart('2025-06-10', 'UTC')).toISOString()).toBe(
+      '2025-06-10T00:00:00.000Z'
+    );
+    expect(
+      new Date(getDayStart('2025-06-10', 'America/New_York')).toISOString()
+    ).toBe('2025-06-10T04:00:00.000Z');
+  });
+});
+
+describe('buildTimeline', () => {
+  it('puts overlapping events side by side', () => {
+    const timeline = build([
+      makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T11:00:00Z'),
+      makeEvent(2, '2025-06-10T10:00:00Z', '2025-06-10T12:00:00Z'),
+      // Starts when event 1 ends, so it reuses the first lane
+      makeEvent(3, '2025-06-10T11:00:00Z', '2025-06-10T12:30:00Z'),
+      makeEvent(4, '2025-06-10T13:00:00Z', '2025-06-10T14:00:00Z'),
+    ]);
+
+    expect(timeline.startHour).toBe(9);
+    expect(timeline.endHour).toBe(14);
+    expect(layout(timeline.columns[0])).toEqual({
+      1: [0, 120, 0, 2],
+      2: [60, 120, 1, 2],
+      3: [120, 90, 0, 2],
+      4: [240, 60, 0, 1],
+    });
+  });
+
+  it('gives short events room for a title', () => {
+    const timeline = build([
+      makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T09:05:00Z'),
+    ]);
+
+    expect(timeline.columns[0].blocks[0].height).toBe(20);
+  });
+
+  it('orders columns by room and collects the rest under Other', () => {
+    const timeline = build([
+      makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z', null),
+      makeEvent(2, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z', 2),
+      makeEvent(3, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z', 99),
+      makeEvent(4, '2025-06-10T09:00:00Z', '2025-06-10T10:00:00Z', 1),
+    ]);
+
+    expect(
+      timeline.columns.map((column) => [
+        column.title,
+        column.blocks.map((block) => block.event.id),
+      ])
+    ).toEqual([
+      ['Main Hall', [4]],
+      ['Workshop Room', [2]],
+      ['Other', [1, 3]],
+    ]);
+  });
+
+  it('clips events that cross midnight to the day shown', () => {
+    const events = [
+      makeEvent(1, '2025-06-10T22:00:00Z', '2025-06-11T02:00:00Z'),
+    ];
+
+    const evening = build(events, '2025-06-10');
+    expect(evening.startHour).toBe(22);
+    expect(evening.endHour).toBe(24);
+    expect(layout(evening.columns[0])).toEqual({ 1: [0, 120, 0, 1] });
+
+    const morning = build(events, '2025-06-11');
+    expect(morning.startHour).toBe(0);
+    expect(morning.endHour).toBe(2);
+    expect(layout(morning.columns[0])).toEqual({ 1: [0, 120, 0, 1] });
+  });
+
+  it('keeps blocks level with the hour labels when clocks spring forward', () => {
+    // 01:00 EST to 04:00 EDT is two hours, but spans three on the clock
+    const timeline = build(
+      [
+        makeEvent(1, '2025-03-09T06:00:00Z', '2025-03-09T08:00:00Z'),
+        makeEvent(2, '2025-03-09T13:00:00Z', '2025-03-09T14:00:00Z'),
+      ],
+      '2025-03-09',
+      'America/New_York'
+    );
+
+    expect(timeline.startHour).toBe(1);
+    expect(timeline.endHour).toBe(10);
+    // The 9:00 session sits on the 9 AM line, eight hours below 1 AM
+    expect(layout(timeline.columns[0])).toEqual({
+      1: [0, 180, 0, 1],
+      2: [480, 60, 0, 1],
+    });
+  });
+
+  it('keeps blocks level with the hour labels when clocks fall back', () => {
+    const timeline = build(
+      [makeEvent(1, '2025-11-02T14:00:00Z', '2025-11-02T15:00:00Z')],
+      '2025-11-02',
+      'America/New_York',
+      Date.parse('2025-11-02T14:30:00Z')
+    );
+
+    expect(timeline.startHour).toBe(9);
+    expect(layout(timeline.columns[0])).toEqual({ 1: [0, 60, 0, 1] });
+    expect(timeline.nowOffset).toBe(30);
+  });
+
+  it('shows the now line only within the shown hours', () => {
+    const events = [
+      makeEvent(1, '2025-06-10T09:00:00Z', '2025-06-10T11:00:00Z'),
+    ];
+
+    expect(
+      build(events, '2025-06-10', 'UTC', Date.parse('2025-06-10T10:15:00Z'))
+        .nowOffset
+    ).toBe(75);
+    expect(
+      build(events, '2025-06-10', 'UTC', Date.parse('2025-06-10T12:00:00Z'))
+        .nowOffset
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { Event, Venue, VenueOverride, VenueTimeslot } from '../../types';
+import {
+  buildDaySchedule,
+  formatOpeningHours,
+  getNowAndNext,
+  getOpeningHours,
+  getScheduleDays,
+  getWeeklyHours,
+} from '../venues';
+
+let nextId = 1;
+
+const slot = (
+  day_of_week: string,
+  start_at: string,
+  end_at: string,
+  disabled = false
+): VenueTimeslot => ({ id: nextId++, day_of_week, start_at, end_at, disabled });
+
+const override = (
+  day: string,
+  start_at: string | null,
+  end_at: string | null,
+  disabled = false
+): VenueOverride => ({ id: nextId++, day, start_at, end_at, disabled });
+
+const makeVenue = (
+  venue_timeslots?: VenueTimeslot[],
+  venue_overrides?: VenueOverride[]
+) => ({ id: 1, title: 'Main Hall', venue_timeslots, venue_overrides }) as Venue;
+
+const makeEvent = (id: number, start_time: string, end_time: string) =>
+  ({ id, title: `Event ${id}`, start_time, end_time, status: 'open' }) as Event;
+
+const toTime = (date: Date) => date.toISOString().slice(11, 16);
+
+// 2025-06-06 is a Friday
+const FRIDAY = '2025-06-06';
+const SATURDAY = '2025-06-07';
+
+describe('getOpeningHours', () => {
+  const venue = makeVenue([
+    slot('friday', '20:00:00', '02:00:00'),
+    slot('friday', '10:00:00', '14:00:00'),
+    slot('saturday', '12:00:00', '18:00:00', true),
+  ]);
+
+  it('keeps hours that run past midnight on the day they start', () => {
+    const hours = getOpeningHours(venue, FRIDAY);
+
+    expect(hours).toEqual({
+      open: true,
+      ranges: [
+        { start: '10:00', end: '14:00' },
+        { start: '20:00', end: '02:00' },
+      ],
+    });
+    expect(formatOpeningHours(hours!)).toBe('10:00–14:00, 20:00–02:00');
+  });
+
+  it('treats disabled and missing slots as closed', () => {
+    expect(getOpeningHours(venue, SATURDAY)).toEqual({
+      open: false,
+      ranges: [],
+    });
+    expect(getOpeningHours(venue, '2025-06-08')).toEqual({
+      open: false,
+      ranges: [],
+    });
+  });
+
+  it('lets a date override replace the weekly hours', () => {
+    const withOverride = makeVenue(venue.venue_timeslots, [
+      override(`${FRIDAY}T00:00:00`, '18:00:00', '03:00:00'),
+      override(SATURDAY, null, null, true),
+    ]);
+
+    expect(formatOpeningHours(getOpeningHours(withOverride, FRIDAY)!)).toBe(
+      '18:00–03:00'
+    );
+    expect(getOpeningHours(withOverride, SATURDAY)?.open).toBe(false);
+  });
+
+  it('returns null for venues without hours', () => {
+    expect(getOpeningHours(makeVenue(), FRIDAY)).toBeNull();
+  });
+});
+
+describe('getWeeklyHours', () => {
+  it('lists every weekday from Monday, past-midnight hours included', () => {
+    const weekly = getWeeklyHours(
+      makeVenue([
+        slot('Friday', '20:00', '02:00'),
+        slot('monday', '09:00', '17:00'),
+      ])
+    );
+
+    expect(weekly?.map((row) => row.day)).toEqual([
+      'Mon',
+      'Tue',
+      'Wed',
+      'Thu',
+      'Fri',
+      'Sat',
+      'Sun',
+    ]);
+    expect(weekly?.[0].hours).toBe('09:00–17:00');
+    expect(weekly?.[4].hours).toBe('20:00–02:00');
+    expect(weekly?.[5].hours).toBe('Closed');
+  });
+});
+
+describe('getScheduleDays', () => {
+  it('includes every day an event spans, in the display timezone', () => {
+    const lateNight = makeEvent(
+      1,
+      '2025-06-06T22:00:00Z',
+      '2025-06-07T01:00:00Z'
+    );
+
+    expect(getScheduleDays([lateNight], 'UTC')).toEqual([FRIDAY, SATURDAY]);
+    // Both ends fall on Friday evening in Los Angeles
+    expect(getScheduleDays([lateNight], 'America/Los_Angeles')).toEqual([
+      FRIDAY,
+    ]);
+  });
+
+  it('does not spill an event ending at midnight into the next day', () => {
+    expect(
+      getScheduleDays(
+        [makeEvent(1, '2025-06-06T20:00:00Z', '2025-06-07T00:00:00Z')],
+        'UTC'
+      )
+    ).toEqual([FRIDAY]);
+  });
+});
+
+describe('buildDaySchedule', () => {
+  const events = [
+    makeEvent(3, '2025-06-06T15:00:00Z', '2025-06-06T16:00:00Z'),
+    makeEvent(1, '2025-06-06T09:00:00Z', '2025-06-06T11:00:00Z'),
+    makeEvent(2, '2025-06-06T10:30:00Z', '2025-06-06T12:00:00Z'),
+    makeEvent(4, '2025-06-06T23:00:00Z', '2025-06-07T01:00:00Z'),
+  ];
+
+  it('orders sessions and shows the free time between them', () => {
+    const schedule = buildDaySchedule(
+      events,
+      FRIDAY,
+      'UTC',
+      Date.parse('2025-06-06T10:45:00Z')
+    );
+
+    expect(
+      schedule.map((entry) =>
+        entry.kind === 'event'
+          ? `${entry.event.id}:${entry.status}`
+          : `free ${toTime(entry.start)}-${toTime(entry.end)}`
+      )
+    ).toEqual([
+      '1:ongoing',
+      '2:ongoing',
+      'free 12:00-15:00',
+      '3:upcoming',
+      'free 16:00-23:00',
+      '4:upcoming',
+    ]);
+  });
+
+  it('shows a session that crosses midnight on the next day too', () => {
+    const schedule = buildDaySchedule(events, SATURDAY, 'UTC');
+
+    expect(schedule).toHaveLength(1);
+    expect(schedule[0]).toMatchObject({ kind: 'event', event: { id: 4 } });
+  });
+});
+
+describe('getNowAndNext', () => {
+  it('finds the current and the next session', () => {
+    const events = [
+      makeEvent(1, '2025-06-06T09:00:00Z', '2025-06-06T11:00:00Z'),
+      makeEvent(2, '2025-06-06T13:00:00Z', '2025-06-06T14:00:00Z'),
+      makeEvent(3, '2025-06-06T12:00:00Z', '2025-06-06T13:00:00Z'),
+    ];
+
+    const { current, next } = getNowAndNext(
+      events,
+      Date.parse('2025-06-06T10:00:00Z')
+    );
+
+    expect(current?.id).toBe(1);
+    expect(next?.id).toBe(3);
+  });
+});
@@ -0,0 +1,219 @@
+import { parseServerTime } from './timezone';
+
+interface CalendarSourceEvent {
+  id: number;
+  title: string;
+  start_time: string;
+  end_time: string;
+  timezone: string;
+  location: string | null;
+  formatted_address?: string | null;
+  meeting_url: string | null;
+  content: string | null;
+  status?: string | null;
+}
+
+// What gets written to the device calendar for one event
+export interface CalendarEventDetails {
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  timeZone: string;
+  location: string;
+  notes: string;
+  url?: string;
+}
+
+// The device calendar, behind an interface so the sync logic can run
+// against an in-memory calendar
+export interface CalendarAdapter {
+  // Whether calendar permission is already granted, without prompting
+  hasAccess(): Promise<boolean>;
+  requestAccess(): Promise<boolean>;
+  createEvent(details: CalendarEventDetails): Promise<string>;
+  updateEvent(
+    calendarEventId: string,
+    details: CalendarEventDetails
+  ): Promise<void>;
+  deleteEvent(calendarEventId: string): Promise<void>;
+  hasEvent(calendarEventId: string): Promise<boolean>;
+}
+
+// 'manual' entries were added from the event page; 'attending' entries
+// belong to "sync all attending" and leave the calendar with the RSVP
+export type CalendarLinkSource = 'manual' | 'attending';
+
+// A Social Layer event that has been written to the device calendar
+export interface CalendarLink {
+  calendarEventId: string;
+  signature: string;
+  source: CalendarLinkSource;
+  // Set when the user deleted the entry in their calendar app, so syncing
+  // does not put it back
+  dismissed?: boolean;
+}
+
+export type CalendarLinks = Record<number, CalendarLink>;
+
+export interface CalendarLinkStore {
+  load(): Promise<CalendarLinks>;
+  save(links: CalendarLinks): Promise<void>;
+}
+
+export const toCalendarEventDetails = (
+  event: CalendarSourceEvent
+): CalendarEventDetails => ({
+  title: event.title,
+  startDate: parseServerTime(event.start_time),
+  endDate: parseServerTime(event.end_time),
+  timeZone: event.timezone || 'UTC',
+  location: [event.location, event.formatted_address]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(', '),
+  notes: event.content?.trim() || '',
+  url: event.meeting_url || undefined,
+});
+
+// Changes whenever anything written to the calendar changes. Built only
+// from written fields, so the same event signs the same whichever query
+// loaded it
+export const getCalendarSignature = (event: CalendarSourceEvent) =>
+  [
+    event.title,
+    event.start_time,
+    event.end_time,
+    event.timezone,
+    event.location || '',
+    event.formatted_address || '',
+    event.meeting_url || '',
+  ].join('|');
+
+interface ReconcileInput<T extends CalendarSourceEvent> {
+  // Every event the app currently knows about, e.g. attending and starred
+  events: T[];
+  attendingIds: Set<number>;
+  syncAttending: boolean;
+  now?: Date;
+}
+
+export const createCalendarSync = (
+  adapter: CalendarAdapter,
+  store: CalendarLinkStore
+) => {
+  // Calendar writes run one at a time so a quick add and sync cannot both
+  // create an entry for the same event
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const writeEvent = async (
+    event: CalendarSourceEvent,
+    link: CalendarLink | undefined,
+    source: CalendarLinkSource
+  ): Promise<CalendarLink> => {
+    const details = toCalendarEventDetails(event);
+    if (
+      link &&
+      !link.dismissed &&
+      (await adapter.hasEvent(link.calendarEventId))
+    ) {
+      await adapter.updateEvent(link.calendarEventId, details);
+      return { ...link, signature: getCalendarSignature(event), source };
+    }
+    return {
+      calendarEventId: await adapter.createEvent(details),
+      signature: getCalendarSignature(event),
+      source,
+    };
+  };
+
+  const deleteLinked = async (link: CalendarLink) => {
+    if (!link.dismissed && (await adapter.hasEvent(link.calendarEventId))) {
+      await adapter.deleteEvent(link.calendarEventId);
+    }
+  };
+
+  return {
+    getLinks: () => store.load(),
+
+    // Adds the event, or refreshes the entry if it is already there
+    addEvent: (event: CalendarSourceEvent) =>
+      serial(async () => {
+        const links = await store.load();
+        const link = links[event.id];
+        const source = link && !link.dismissed ? link.source : 'manual';
+        links[event.id] = await writeEvent(event, link, source);
+        await store.save(links);
+        return links;
+      }),
+
+    removeEvent: (eventId: number) =>
+      serial(async () => {
+        const links = await store.load();
+        const link = links[eventId];
+        if (!link) return links;
+        await deleteLinked(link);
+        delete links[eventId];
+        await store.save(links);
+        return links;
+      }),
+
+    // Brings the device calendar in line with the app: changed events are
+    // updated, canceled events and dropped RSVPs are removed, and with
+    // `syncAttending` every upcoming attended event is added. Without
+    // calendar permission nothing is touched, since missing entries can't be
+    // told apart from ones the user deleted.
+    reconcile: <T extends CalendarSourceEvent>({
+      events,
+      attendingIds,
+      syncAttending,
+      now = new Date(),
+    }: ReconcileInput<T>) =>
+      serial(async () => {
+        const links = await store.load();
+        if (!(await adapter.hasAccess())) return links;
+        const byId = new Map(events.map((event) => [event.id, event]));
+
+        for (const [key, link] of Object.entries(links)) {
+          const eventId = Number(key);
+          const event = byId.get(eventId);
+          const leftAttending =
+            link.source === 'attending' &&
+            (!syncAttending || !attendingIds.has(eventId));
+
+          if (leftAttending || event?.status === 'cancel') {
+            await deleteLinked(link);
+            delete links[eventId];
+          } else if (link.dismissed) {
+            continue;
+          } else if (!(await adapter.hasEvent(link.calendarEventId))) {
+            links[eventId] = { ...link, dismissed: true };
+          } else if (event && getCalendarSignature(event) !== link.signature) {
+            links[eventId] = await writeEvent(event, link, link.source);
+          }
+        }
+
+        if (syncAttending) {
+          for (const event of events) {
+            const upcoming = parseServerTime(event.end_time) > now;
+            if (
+              attendingIds.has(event.id) &&
+              !links[event.id] &&
+              event.status !== 'cancel' &&
+              upcoming
+            ) {
+              links[event.id] = await writeEvent(event, undefined, 'attending');
+            }
+          }
+        }
+
+        await store.save(links);
+        return links;
+      }),
+  };
+};
+
+export type CalendarSync = ReturnType<typeof createCalendarSync>;
@@ -0,0 +1,71 @@
+// Check-in QR codes carry the event too, so a host scanning at one event
+// can't check someone in for another by mistake
+const CODE_PREFIX = 'sola-checkin';
+
+export const encodeCheckInCode = (eventId: number, participantId: number) =>
+  `${CODE_PREFIX}:${eventId}:${participantId}`;
+
+export function parseCheckInCode(
+  data: string
+): { eventId: number; participantId: number } | null {
+  const [prefix, eventId, participantId, ...rest] = data.trim().split(':');
+  if (prefix !== CODE_PREFIX || rest.length > 0) return null;
+
+  const parsed = {
+    eventId: Number(eventId),
+    participantId: Number(participantId),
+  };
+  return Number.isInteger(parsed.eventId) &&
+    Number.isInteger(parsed.participantId) &&
+    parsed.eventId > 0 &&
+    parsed.participantId > 0
+    ? parsed
+    : null;
+}
+
+interface CheckInParticipant {
+  id: number;
+  status: string | null;
+}
+
+export type ScanResult<T extends CheckInParticipant> =
+  | { kind: 'invalid' }
+  | { kind: 'wrong_event' }
+  | { kind: 'not_registered' }
+  | { kind: 'already_checked_in'; participant: T }
+  | { kind: 'ready'; participant: T };
+
+// What a scanned code means for this event's guest list. Check-ins still
+// waiting to be sent count as done, so a second scan isn't queued twice.
+export function classifyScan<T extends CheckInParticipant>(
+  data: string,
+  eventId: number,
+  participants: T[],
+  pendingParticipantIds: Set<number>
+): ScanResult<T> {
+  const code = parseCheckInCode(data);
+  if (!code) return { kind: 'invalid' };
+  if (code.eventId !== eventId) return { kind: 'wrong_event' };
+
+  const participant = participants.find((p) => p.id === code.participantId);
+  if (!participant || participant.status === 'cancelled') {
+    return { kind: 'not_registered' };
+  }
+  if (
+    participant.status === 'checked' ||
+    pendingParticipantIds.has(participant.id)
+  ) {
+    return { kind: 'already_checked_in', participant };
+  }
+  return { kind: 'ready', participant };
+}
+
+// Attendees checked in so far, including scans queued while offline
+export function countCheckedIn(
+  participants: CheckInParticipant[],
+  pendingParticipantIds: Set<number>
+): number {
+  return participants.filter(
+    (p) => p.status === 'checked' || pendingParticipantIds.has(p.id)
+  ).length;
+}
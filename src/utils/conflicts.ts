@@ -0,0 +1,53 @@
+import { parseServerTime } from './timezone';
+
+interface ScheduledEvent {
+  id: number;
+  start_time: string;
+  end_time: string;
+  status?: string | null;
+}
+
+const getRange = (event: ScheduledEvent) => ({
+  start: parseServerTime(event.start_time).getTime(),
+  end: parseServerTime(event.end_time).getTime(),
+});
+
+// Back-to-back sessions (one ends exactly when the next starts) do not clash
+export function eventsOverlap(a: ScheduledEvent, b: ScheduledEvent): boolean {
+  const rangeA = getRange(a);
+  const rangeB = getRange(b);
+  return rangeA.start < rangeB.end && rangeB.start < rangeA.end;
+}
+
+// Events in `schedule` that overlap `event`, soonest first. Canceled events
+// and events that have already ended are ignored.
+export function findConflicts<T extends ScheduledEvent>(
+  event: ScheduledEvent,
+  schedule: T[],
+  now: Date = new Date()
+): T[] {
+  if (event.status === 'cancel' || getRange(event).end <= now.getTime()) {
+    return [];
+  }
+
+  const seen = new Set<number>([event.id]);
+  return schedule
+    .filter((other) => {
+      if (seen.has(other.id) || other.status === 'cancel') return false;
+      seen.add(other.id);
+      return eventsOverlap(event, other);
+    })
+    .sort((a, b) => getRange(a).start - getRange(b).start);
+}
+
+// Attending and starred events, deduplicated, as the schedule to check against
+export function getMySchedule<T extends ScheduledEvent>(
+  myEvents: { attending: T[]; starred: T[] } | undefined
+): T[] {
+  if (!myEvents) return [];
+  const byId = new Map<number, T>();
+  [...myEvents.attending, ...myEvents.starred].forEach((event) => {
+    if (!byId.has(event.id)) byId.set(event.id, event);
+  });
+  return Array.from(byId.values());
+}
@@ -1,10 +1,18 @@
+import {
+  getDateKey,
+  getDeviceTimezone,
+  getTimezoneAbbreviation,
+  nextDateKey,
+  parseServerTime,
+} from './timezone';
+
 export function getEventStatus(
   startTime: string,
   endTime: string
 ): 'past' | 'ongoing' | 'upcoming' {
   const now = new Date();
-  const start = correctTime(new Date(startTime));
-  const end = correctTime(new Date(endTime));
+  const start = parseServerTime(startTime);
+  const end = parseServerTime(endTime);
 
   if (now > end) {
     return 'past';
@@ -15,30 +23,24 @@ export function getEventStatus(
   }
 }
 
-function correctTime(date: Date, correctionHours: number = -7): Date {
-  // The GraphQL API returns incorrect times, so we have to use this workaround
-  const correctionMs = correctionHours * 60 * 60 * 1000;
-  return new Date(date.getTime() + correctionMs);
-}
-
 export function formatEventTime(
   startTime: string,
-  timezone: string,
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): { date: string; time: string } {
-  const start = correctTime(new Date(startTime));
+  const start = parseServerTime(startTime);
 
-  // Don't use timeZone parameter since we already corrected the time manually
   const date = start.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
+    timeZone: timezone,
   });
 
   const time = start.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone: timezone,
   });
 
   return { date, time };
@@ -47,103 +49,93 @@ export function formatEventTime(
 export function formatEventDuration(
   startTime: string,
   endTime: string,
-  timezone: string,
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): string {
-  const start = correctTime(new Date(startTime));
-  const end = correctTime(new Date(endTime));
+  const start = parseServerTime(startTime);
+  const end = parseServerTime(endTime);
 
   const startDate = start.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
+    timeZone: timezone,
   });
 
   const endDate = end.toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
+    timeZone: timezone,
   });
 
   const startTime12 = start.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone: timezone,
   });
 
   const endTime12 = end.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone: timezone,
   });
 
+  const zone = getTimezoneAbbreviation(start, timezone);
+
   if (startDate === endDate) {
-    return `${startDate} • ${startTime12} - ${endTime12}`;
+    return `${startDate} • ${startTime12} - ${endTime12} ${zone}`;
   } else {
-    return `${startDate} ${startTime12} - ${endDate} ${endTime12}`;
+    return `${startDate} ${startTime12} - ${endDate} ${endTime12} ${zone}`;
   }
 }
 
 export function isToday(
   date: string,
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): boolean {
-  const today = new Date();
-  const eventDate = new Date(date);
-
-  const todayStr = today.toLocaleDateString('en-US', {
-    timeZone: localTimezone,
-  });
-  const eventStr = eventDate.toLocaleDateString('en-US', {
-    timeZone: localTimezone,
-  });
-
-  return todayStr === eventStr;
+  return (
+    getDateKey(new Date(), timezone) ===
+    getDateKey(parseServerTime(date), timezone)
+  );
 }
 
 export function isTomorrow(
   date: string,
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): boolean {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const eventDate = new Date(date);
-
-  const tomorrowStr = tomorrow.toLocaleDateString('en-US', {
-    timeZone: localTimezone,
-  });
-  const eventStr = eventDate.toLocaleDateString('en-US', {
-    timeZone: localTimezone,
-  });
-
-  return tomorrowStr === eventStr;
+  // Compared by calendar day, since a day isn't always 24 hours long
+  return (
+    nextDateKey(getDateKey(new Date(), timezone)) ===
+    getDateKey(parseServerTime(date), timezone)
+  );
 }
 
 export function getRelativeDate(
   date: string,
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): string {
-  if (isToday(date, localTimezone)) {
+  if (isToday(date, timezone)) {
     return 'Today';
-  } else if (isTomorrow(date, localTimezone)) {
+  } else if (isTomorrow(date, timezone)) {
     return 'Tomorrow';
   } else {
-    return new Date(date).toLocaleDateString('en-US', {
+    return parseServerTime(date).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
-      timeZone: localTimezone,
+      timeZone: timezone,
     });
   }
 }
 
 export function groupEventsByDate<T extends { start_time: string }>(
   events: T[],
-  localTimezone: string = 'America/Los_Angeles'
+  timezone: string = getDeviceTimezone()
 ): { date: string; dateLabel: string; data: T[] }[] {
   const groups: { [key: string]: T[] } = {};
 
   events.forEach((event) => {
-    const correctedDate = correctTime(new Date(event.start_time));
-    const dateKey = correctedDate.toDateString();
+    const dateKey = getDateKey(parseServerTime(event.start_time), timezone);
 
     if (!groups[dateKey]) {
       groups[dateKey] = [];
@@ -151,19 +143,57 @@ export function groupEventsByDate<T extends { start_time: string }>(
     groups[dateKey].push(event);
   });
 
+  // Keys are YYYY-MM-DD, so they sort chronologically as strings
   return Object.keys(groups)
-    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+    .sort()
     .map((dateKey) => {
-      const date = new Date(dateKey);
-      const dateLabel = getRelativeDate(date.toISOString(), localTimezone);
+      const data = groups[dateKey].sort(
+        (a, b) =>
+          parseServerTime(a.start_time).getTime() -
+          parseServerTime(b.start_time).getTime()
+      );
 
       return {
         date: dateKey,
-        dateLabel,
-        data: groups[dateKey].sort(
-          (a, b) =>
-            new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
-        ),
+        dateLabel: getRelativeDate(data[0].start_time, timezone),
+        data,
       };
     });
 }
+
+// Short "how long ago" label for sync and cache timestamps
+export function formatTimeAgo(isoTime: string, now: number = Date.now()) {
+  const minutes = Math.floor((now - new Date(isoTime).getTime()) / 60000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// "May 1 – May 5, 2025" for date-only (YYYY-MM-DD) ranges like a track's.
+// Read as UTC so the day never shifts with the device timezone.
+export function formatDateRange(
+  startDate: string | null,
+  endDate: string | null
+): string | null {
+  const format = (date: string, withYear: boolean) =>
+    new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: withYear ? 'numeric' : undefined,
+      timeZone: 'UTC',
+    });
+
+  if (startDate && endDate) {
+    if (startDate.slice(0, 10) === endDate.slice(0, 10)) {
+      return format(startDate, true);
+    }
+    const sameYear = startDate.slice(0, 4) === endDate.slice(0, 4);
+    return `${format(startDate, !sameYear)} – ${format(endDate, true)}`;
+  }
+  if (startDate) return `From ${format(startDate, true)}`;
+  if (endDate) return `Until ${format(endDate, true)}`;
+  return null;
+}
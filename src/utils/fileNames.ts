@@ -0,0 +1,9 @@
+// Lowercase, dash-separated form of a title for use in a file name, e.g.
+// "DevCon: Day 1" becomes "devcon-day-1". Empty when nothing usable is left.
+export function toFileNameSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+}
@@ -0,0 +1,164 @@
+import { Venue } from '../types';
+
+export interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapRegion extends Coordinate {
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Nearby markers merge into one cluster per grid cell; the grid is this many
+// cells across the visible region
+const CLUSTER_GRID_SIZE = 6;
+const MIN_REGION_DELTA = 0.01;
+// Members closer together than this (about 200 m) count as one place. Larger
+// than a grid cell at MIN_REGION_DELTA, so zooming in always splits the rest.
+const SAME_PLACE_DELTA = 0.002;
+
+export function parseCoordinate(
+  lat: string | number | null | undefined,
+  lng: string | number | null | undefined
+): Coordinate | null {
+  if (lat === null || lat === undefined || lng === null || lng === undefined) {
+    return null;
+  }
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180 ||
+    (latitude === 0 && longitude === 0)
+  ) {
+    return null;
+  }
+  return { latitude, longitude };
+}
+
+// Where an event takes place: its own coordinates, or else its venue's
+export function getEventCoordinate(
+  event: {
+    geo_lat: string | null;
+    geo_lng: string | null;
+    venue_id: number | null;
+  },
+  venuesById?: Map<number, Venue>
+): Coordinate | null {
+  const own = parseCoordinate(event.geo_lat, event.geo_lng);
+  if (own || !event.venue_id) return own;
+
+  const venue = venuesById?.get(event.venue_id);
+  return venue ? parseCoordinate(venue.geo_lat, venue.geo_lng) : null;
+}
+
+export interface MapPoint<T> {
+  item: T;
+  coordinate: Coordinate;
+}
+
+export interface MapCluster<T> {
+  id: string;
+  coordinate: Coordinate;
+  items: T[];
+  // Spread of the members, used to zoom in on the cluster
+  region: MapRegion;
+  // Every member is at the same place, e.g. one venue, so zooming in would
+  // never split the cluster
+  singleLocation: boolean;
+}
+
+// Groups points by grid cell of the visible region, so clusters split apart
+// as the user zooms in
+export function clusterPoints<T>(
+  points: MapPoint<T>[],
+  region: MapRegion,
+  gridSize: number = CLUSTER_GRID_SIZE
+): MapCluster<T>[] {
+  const cellLat = region.latitudeDelta / gridSize;
+  const cellLng = region.longitudeDelta / gridSize;
+  const cells = new Map<string, MapPoint<T>[]>();
+
+  points.forEach((point) => {
+    const key = `${Math.floor(point.coordinate.latitude / cellLat)}:${Math.floor(
+      point.coordinate.longitude / cellLng
+    )}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+
+  return Array.from(cells.entries()).map(([key, members]) => {
+    const coordinates = members.map((member) => member.coordinate);
+    const latitudes = coordinates.map((c) => c.latitude);
+    const longitudes = coordinates.map((c) => c.longitude);
+    return {
+      id: key,
+      coordinate: {
+        latitude:
+          coordinates.reduce((sum, c) => sum + c.latitude, 0) /
+          coordinates.length,
+        longitude:
+          coordinates.reduce((sum, c) => sum + c.longitude, 0) /
+          coordinates.length,
+      },
+      items: members.map((member) => member.item),
+      region: getRegionForCoordinates(coordinates),
+      singleLocation:
+        Math.max(...latitudes) - Math.min(...latitudes) < SAME_PLACE_DELTA &&
+        Math.max(...longitudes) - Math.min(...longitudes) < SAME_PLACE_DELTA,
+    };
+  });
+}
+
+// Smallest region showing every coordinate, with some padding around them
+export function getRegionForCoordinates(
+  coordinates: Coordinate[],
+  padding = 1.4
+): MapRegion {
+  const latitudes = coordinates.map((c) => c.latitude);
+  const longitudes = coordinates.map((c) => c.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * padding, MIN_REGION_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * padding, MIN_REGION_DELTA),
+  };
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+// Average walking pace, and how much longer real streets are than a straight line
+const WALKING_METERS_PER_MINUTE = 80;
+const WALKING_DETOUR_FACTOR = 1.3;
+
+// Great-circle (haversine) distance between two points, in meters
+export function getDistanceMeters(from: Coordinate, to: Coordinate): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export const estimateWalkingMinutes = (meters: number) =>
+  Math.max(
+    1,
+    Math.round((meters * WALKING_DETOUR_FACTOR) / WALKING_METERS_PER_MINUTE)
+  );
+
+// "350 m" below a kilometer, "1.2 km" up to ten, then whole kilometers
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  if (meters < 10000) return `${(meters / 1000).toFixed(1)} km`;
+  return `${Math.round(meters / 1000)} km`;
+}
@@ -0,0 +1,76 @@
+// Roles from least to most privileged. Group settings like `can_view_event`
+// name the least role that's allowed, e.g. "member" or "manager".
+const ROLE_RANK: Record<string, number> = {
+  member: 1,
+  issuer: 1,
+  manager: 2,
+  owner: 3,
+};
+
+interface AccessGroup {
+  can_view_event: string | null;
+  can_join_event: string | null;
+}
+
+interface AccessMembership {
+  role: string;
+  status?: string | null;
+}
+
+// Pending requests don't count until a manager accepts them
+export const isActiveMember = (
+  membership: AccessMembership | null | undefined
+): membership is AccessMembership =>
+  !!membership && membership.status !== 'pending';
+
+const meetsRequirement = (
+  requirement: string | null,
+  membership: AccessMembership | null | undefined
+) => {
+  const required = requirement ? ROLE_RANK[requirement] : undefined;
+  // "all", empty and unknown settings leave events open to everyone
+  if (!required) return true;
+  return (
+    isActiveMember(membership) && (ROLE_RANK[membership.role] ?? 0) >= required
+  );
+};
+
+export interface GroupAccess {
+  canViewEvents: boolean;
+  canJoinEvents: boolean;
+}
+
+export function getGroupAccess(
+  group: AccessGroup | null | undefined,
+  membership: AccessMembership | null | undefined
+): GroupAccess {
+  if (!group) return { canViewEvents: true, canJoinEvents: true };
+
+  const canViewEvents = meetsRequirement(group.can_view_event, membership);
+  return {
+    canViewEvents,
+    // Joining something you can't see makes no sense
+    canJoinEvents:
+      canViewEvents && meetsRequirement(group.can_join_event, membership),
+  };
+}
+
+export const isGroupManager = (
+  membership: AccessMembership | null | undefined
+) => isActiveMember(membership) && (ROLE_RANK[membership.role] ?? 0) >= 2;
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  issuer: 'Issuer',
+  member: 'Member',
+};
+
+export const getRoleLabel = (role: string) => ROLE_LABELS[role] || role;
+
+// Owners first, then managers, then everyone else in the order they joined
+export function sortMembers<T extends AccessMembership>(members: T[]): T[] {
+  return [...members].sort(
+    (a, b) => (ROLE_RANK[b.role] ?? 0) - (ROLE_RANK[a.role] ?? 0)
+  );
+}
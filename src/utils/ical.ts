@@ -0,0 +1,294 @@
+import { Event } from '../types';
+import {
+  getTimezoneAbbreviation,
+  getTimezoneOffsetMs,
+  isValidTimezone,
+  parseServerTime,
+} from './timezone';
+import { toFileNameSlug } from './fileNames';
+
+// iCalendar (RFC 5545) export. UIDs only depend on the event id, so
+// importing the same event again updates the existing entry.
+
+const PRODUCT_ID = '-//Social Layer//Social Layer Mobile//EN';
+const UID_DOMAIN = 'sola.day';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CalendarOptions {
+  // Shown as the calendar name by apps that support X-WR-CALNAME
+  name?: string;
+  // Web page for an event, used when it has no meeting URL
+  getEventUrl?: (event: Event) => string;
+  now?: Date;
+}
+
+export const getEventUid = (eventId: number) =>
+  `event-${eventId}@${UID_DOMAIN}`;
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets continue on the next line after a
+// space (RFC 5545 3.1). Counts UTF-8 bytes without splitting a character.
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Date-time as YYYYMMDDTHHMMSS, read from the UTC fields of `date`
+function formatDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+  );
+}
+
+const formatUtc = (date: Date) => `${formatDateTime(date)}Z`;
+
+// Wall-clock time of `instant` in a zone with the given offset
+const formatLocal = (instant: Date, offsetMs: number) =>
+  formatDateTime(new Date(instant.getTime() + offsetMs));
+
+function formatOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const minutes = Math.abs(Math.round(offsetMs / 60000));
+  return `${sign}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Zones that are written as UTC date-times instead of with a VTIMEZONE
+const isUtcZone = (timezone: string) =>
+  !timezone || /^(UTC|Etc\/UTC|GMT|Etc\/GMT)$/i.test(timezone);
+
+// Event timezone when it is usable, otherwise null (times are written in UTC)
+function getEventTimezone(event: Event): string | null {
+  if (isUtcZone(event.timezone) || !isValidTimezone(event.timezone)) {
+    return null;
+  }
+  return event.timezone;
+}
+
+interface Transition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+// Offset changes of `timezone` between two instants. Scans day by day, then
+// narrows each change down to the minute.
+function findTransitions(timezone: string, from: Date, to: Date): Transition[] {
+  const transitions: Transition[] = [];
+  let previous = from.getTime();
+  let previousOffset = getTimezoneOffsetMs(from, timezone);
+
+  for (let time = previous + DAY_MS; time <= to.getTime(); time += DAY_MS) {
+    const offset = getTimezoneOffsetMs(new Date(time), timezone);
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (
+          getTimezoneOffsetMs(new Date(middle), timezone) === previousOffset
+        ) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({
+        at: new Date(high),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+
+  return transitions;
+}
+
+// VTIMEZONE with every offset change in the years the events span, so
+// calendar apps that do not know the zone id still place events correctly
+export function buildTimezone(timezone: string, events: Event[]): string[] {
+  const years = events.flatMap((event) => [
+    parseServerTime(event.start_time).getUTCFullYear(),
+    parseServerTime(event.end_time).getUTCFullYear(),
+  ]);
+  const from = new Date(Date.UTC(Math.min(...years), 0, 1));
+  const to = new Date(Date.UTC(Math.max(...years) + 1, 0, 1));
+  const transitions = findTransitions(timezone, from, to);
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+  const observance = (
+    at: Date,
+    offsetFrom: number,
+    offsetTo: number,
+    isDaylight: boolean
+  ) => {
+    const kind = isDaylight ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatLocal(at, offsetFrom)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `TZNAME:${getTimezoneAbbreviation(at, timezone)}`,
+      `END:${kind}`
+    );
+  };
+
+  // The offset in force at the start of the range, so events before the
+  // first change are covered too
+  const initialOffset = getTimezoneOffsetMs(from, timezone);
+  observance(
+    from,
+    initialOffset,
+    initialOffset,
+    transitions.length > 0 && transitions[0].offsetTo < initialOffset
+  );
+  transitions.forEach(({ at, offsetFrom, offsetTo }) =>
+    observance(at, offsetFrom, offsetTo, offsetTo > offsetFrom)
+  );
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function formatEventTime(
+  property: 'DTSTART' | 'DTEND',
+  value: string,
+  timezone: string | null
+): string {
+  const instant = parseServerTime(value);
+  if (!timezone) {
+    return `${property}:${formatUtc(instant)}`;
+  }
+  const offset = getTimezoneOffsetMs(instant, timezone);
+  return `${property};TZID=${timezone}:${formatLocal(instant, offset)}`;
+}
+
+function buildEvent(
+  event: Event,
+  now: Date,
+  getEventUrl?: (event: Event) => string
+): string[] {
+  const timezone = getEventTimezone(event);
+  const url = event.meeting_url || getEventUrl?.(event);
+  const location = [event.location, event.formatted_address]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(', ');
+  const description = [
+    event.content?.trim(),
+    event.meeting_url && `Join: ${event.meeting_url}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event.id)}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    formatEventTime('DTSTART', event.start_time, timezone),
+    formatEventTime('DTEND', event.end_time, timezone),
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.updated_at) {
+    const updatedAt = parseServerTime(event.updated_at);
+    // Lets calendar apps tell a re-import carries newer details
+    lines.push(
+      `LAST-MODIFIED:${formatUtc(updatedAt)}`,
+      `SEQUENCE:${Math.max(0, Math.floor(updatedAt.getTime() / 1000))}`
+    );
+  }
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (event.geo_lat && event.geo_lng) {
+    const lat = Number(event.geo_lat);
+    const lng = Number(event.geo_lng);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      lines.push(`GEO:${lat};${lng}`);
+    }
+  }
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (url) lines.push(`URL:${url}`);
+  lines.push(
+    `STATUS:${event.status === 'cancel' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT'
+  );
+
+  return lines;
+}
+
+// A complete VCALENDAR for the given events, with CRLF line endings
+export function buildCalendar(
+  events: Event[],
+  { name, getEventUrl, now = new Date() }: CalendarOptions = {}
+): string {
+  const unique = events.filter(
+    (event, index) => events.findIndex((e) => e.id === event.id) === index
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (name) lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+
+  const byTimezone = new Map<string, Event[]>();
+  unique.forEach((event) => {
+    const timezone = getEventTimezone(event);
+    if (timezone) {
+      byTimezone.set(timezone, [...(byTimezone.get(timezone) || []), event]);
+    }
+  });
+  byTimezone.forEach((zoneEvents, timezone) => {
+    lines.push(...buildTimezone(timezone, zoneEvents));
+  });
+
+  unique.forEach((event) => {
+    lines.push(...buildEvent(event, now, getEventUrl));
+  });
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// File name for an export, e.g. "starred-events.ics"
+export function getCalendarFileName(title: string): string {
+  return `${toFileNameSlug(title) || 'events'}.ics`;
+}
@@ -0,0 +1,54 @@
+import { Event, Venue } from '../types';
+import { getEventStatus } from './dateUtils';
+import { Coordinate, getDistanceMeters, getEventCoordinate } from './geo';
+import { parseServerTime } from './timezone';
+
+// How far ahead "starting soon" reaches
+export const SOON_WINDOW_MINUTES = 120;
+
+export interface NearbyEvent {
+  event: Event;
+  distanceMeters: number;
+  status: 'ongoing' | 'upcoming';
+}
+
+// Ongoing events and events starting within the window, closest first.
+// Events at the same distance (e.g. one venue) are ordered by start time.
+export function rankNearbyEvents(
+  events: Event[],
+  origin: Coordinate,
+  venuesById?: Map<number, Venue>,
+  windowMinutes: number = SOON_WINDOW_MINUTES
+): NearbyEvent[] {
+  const windowEnd = Date.now() + windowMinutes * 60 * 1000;
+  const nearby: NearbyEvent[] = [];
+
+  events.forEach((event) => {
+    if (event.status === 'cancel') return;
+
+    const status = getEventStatus(event.start_time, event.end_time);
+    if (
+      status === 'past' ||
+      (status === 'upcoming' &&
+        parseServerTime(event.start_time).getTime() > windowEnd)
+    ) {
+      return;
+    }
+
+    const coordinate = getEventCoordinate(event, venuesById);
+    if (!coordinate) return;
+
+    nearby.push({
+      event,
+      distanceMeters: getDistanceMeters(origin, coordinate),
+      status,
+    });
+  });
+
+  return nearby.sort(
+    (a, b) =>
+      Math.round(a.distanceMeters) - Math.round(b.distanceMeters) ||
+      parseServerTime(a.event.start_time).getTime() -
+        parseServerTime(b.event.start_time).getTime()
+  );
+}
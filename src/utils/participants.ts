@@ -0,0 +1,139 @@
+import { toFileNameSlug } from './fileNames';
+
+export type ParticipantSort = 'status' | 'joined' | 'name';
+
+export interface ListParticipant {
+  id: number;
+  status: string | null;
+  created_at?: string | null;
+  payment_status?: string | null;
+  ticket_id?: number | null;
+  ticket?: { id: number; title: string } | null;
+  profile?: { nickname?: string | null; handle?: string | null } | null;
+}
+
+// Pending applications first, since those are the ones waiting on the host
+export const STATUS_ORDER = [
+  'applied',
+  'attending',
+  'checked',
+  'waitlisted',
+  'cancelled',
+];
+
+export const getParticipantName = (participant: ListParticipant) =>
+  participant.profile?.nickname || participant.profile?.handle || 'Anonymous';
+
+// Case-insensitive match on nickname or handle; a leading @ is ignored so
+// pasted handles work too
+export function searchParticipants<T extends ListParticipant>(
+  participants: T[],
+  query: string
+): T[] {
+  const needle = query.trim().toLowerCase().replace(/^@/, '');
+  if (!needle) return participants;
+
+  return participants.filter((participant) =>
+    [participant.profile?.nickname, participant.profile?.handle].some((value) =>
+      value?.toLowerCase().includes(needle)
+    )
+  );
+}
+
+const joinedAt = (participant: ListParticipant) =>
+  participant.created_at ? new Date(participant.created_at).getTime() : 0;
+
+const statusRank = (participant: ListParticipant) => {
+  const rank = STATUS_ORDER.indexOf(participant.status || '');
+  return rank === -1 ? STATUS_ORDER.length : rank;
+};
+
+export function sortParticipants<T extends ListParticipant>(
+  participants: T[],
+  sort: ParticipantSort
+): T[] {
+  return [...participants].sort((a, b) => {
+    switch (sort) {
+      case 'joined':
+        return joinedAt(a) - joinedAt(b);
+      case 'name':
+        return getParticipantName(a).localeCompare(getParticipantName(b));
+      case 'status':
+        return statusRank(a) - statusRank(b) || joinedAt(a) - joinedAt(b);
+    }
+  });
+}
+
+export interface TicketCount {
+  // Null counts people who joined without a ticket
+  ticketId: number | null;
+  title: string;
+  count: number;
+}
+
+// Headcount per ticket type, leaving out cancelled and waitlisted participants
+export function countByTicket(participants: ListParticipant[]): TicketCount[] {
+  const counts = new Map<number | null, TicketCount>();
+  participants
+    .filter(
+      (participant) =>
+        participant.status !== 'cancelled' &&
+        participant.status !== 'waitlisted'
+    )
+    .forEach((participant) => {
+      const ticketId = participant.ticket?.id ?? participant.ticket_id ?? null;
+      const existing = counts.get(ticketId);
+      if (existing) {
+        existing.count += 1;
+      } else {
+        counts.set(ticketId, {
+          ticketId,
+          title: participant.ticket?.title || 'No ticket',
+          count: 1,
+        });
+      }
+    });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+// Quotes a CSV field when it holds a comma, quote or line break (RFC 4180).
+// Names are user-supplied, so anything a spreadsheet would read as a formula
+// gets a leading apostrophe first to keep it plain text.
+const csvField = (value: string | null | undefined) => {
+  const raw = value ?? '';
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildParticipantsCsv(participants: ListParticipant[]): string {
+  const header = [
+    'Name',
+    'Handle',
+    'Status',
+    'Ticket',
+    'Payment Status',
+    'Checked In',
+    'Joined At',
+  ];
+  const rows = participants.map((participant) => [
+    getParticipantName(participant),
+    participant.profile?.handle,
+    participant.status,
+    participant.ticket?.title,
+    participant.payment_status,
+    participant.status === 'checked' ? 'yes' : 'no',
+    participant.created_at,
+  ]);
+
+  // CRLF line endings, which spreadsheet apps expect
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\r\n');
+}
+
+// File name for an export, e.g. "devcon-day-1-participants.csv"
+export function getParticipantsFileName(eventTitle: string): string {
+  const slug = toFileNameSlug(eventTitle);
+  return `${slug ? `${slug}-` : ''}participants.csv`;
+}
@@ -0,0 +1,99 @@
+import { parseServerTime } from './timezone';
+
+// iOS keeps at most 64 pending local notifications per app
+const MAX_SCHEDULED_REMINDERS = 60;
+
+export const REMINDER_LEAD_OPTIONS = [5, 15, 30, 60] as const;
+export type ReminderLeadMinutes = (typeof REMINDER_LEAD_OPTIONS)[number];
+
+interface ReminderEvent {
+  id: number;
+  title: string;
+  start_time: string;
+  location: string | null;
+  status?: string | null;
+}
+
+// A reminder the app wants to exist
+export interface PlannedReminder {
+  eventId: number;
+  title: string;
+  body: string;
+  fireAt: Date;
+  // Changes whenever anything the notification depends on changes, so a
+  // moved event gets its reminder replaced
+  signature: string;
+}
+
+// A reminder that is already scheduled with the OS
+export interface ScheduledReminder {
+  notificationId: string;
+  eventId: number;
+  signature: string;
+}
+
+const formatLead = (leadMinutes: number) =>
+  leadMinutes >= 60 && leadMinutes % 60 === 0
+    ? `${leadMinutes / 60} hour${leadMinutes === 60 ? '' : 's'}`
+    : `${leadMinutes} minutes`;
+
+// One reminder per event that still has its reminder time ahead of `now`,
+// soonest first. Events that are both starred and attended appear in both
+// lists, so they are deduplicated by id.
+export function planReminders(
+  events: ReminderEvent[],
+  leadMinutes: number,
+  now: Date = new Date()
+): PlannedReminder[] {
+  const planned = new Map<number, PlannedReminder>();
+
+  events.forEach((event) => {
+    if (planned.has(event.id) || event.status === 'cancel') return;
+
+    const start = parseServerTime(event.start_time);
+    const fireAt = new Date(start.getTime() - leadMinutes * 60 * 1000);
+    if (fireAt <= now) return;
+
+    planned.set(event.id, {
+      eventId: event.id,
+      title: event.title,
+      body: event.location
+        ? `Starts in ${formatLead(leadMinutes)} at ${event.location}`
+        : `Starts in ${formatLead(leadMinutes)}`,
+      fireAt,
+      signature: `${start.toISOString()}|${leadMinutes}|${event.title}|${event.location || ''}`,
+    });
+  });
+
+  return Array.from(planned.values())
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+}
+
+// What has to change to turn the scheduled reminders into the planned ones
+export function diffReminders(
+  scheduled: ScheduledReminder[],
+  planned: PlannedReminder[]
+): { toSchedule: PlannedReminder[]; toCancel: ScheduledReminder[] } {
+  const plannedByEvent = new Map(planned.map((p) => [p.eventId, p]));
+  const kept = new Set<number>();
+  const toCancel: ScheduledReminder[] = [];
+
+  scheduled.forEach((reminder) => {
+    const match = plannedByEvent.get(reminder.eventId);
+    if (
+      match &&
+      match.signature === reminder.signature &&
+      !kept.has(reminder.eventId)
+    ) {
+      kept.add(reminder.eventId);
+    } else {
+      toCancel.push(reminder);
+    }
+  });
+
+  return {
+    toSchedule: planned.filter((p) => !kept.has(p.eventId)),
+    toCancel,
+  };
+}
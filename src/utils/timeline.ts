@@ -0,0 +1,175 @@
+import {
+  getTimezoneOffsetMs,
+  nextDateKey,
+  parseServerTime,
+  zonedTimeToUtc,
+} from './timezone';
+
+export type TimelineGrouping = 'venue' | 'track';
+
+interface TimelineEvent {
+  id: number;
+  start_time: string;
+  end_time: string;
+  venue_id: number | null;
+  track_id: number | null;
+}
+
+export interface TimelineBlock<T> {
+  event: T;
+  // Minutes from the top of the timeline
+  top: number;
+  height: number;
+  // Side-by-side position among overlapping events in the same column
+  lane: number;
+  laneCount: number;
+}
+
+export interface TimelineColumn<T> {
+  // Null collects events without a venue or track
+  id: number | null;
+  title: string;
+  blocks: TimelineBlock<T>[];
+}
+
+export interface Timeline<T> {
+  startHour: number;
+  endHour: number;
+  columns: TimelineColumn<T>[];
+  // Minutes from the top for the "now" line, when now falls in the shown hours
+  nowOffset: number | null;
+}
+
+// Short events still need room for a title
+const MIN_BLOCK_MINUTES = 20;
+
+// Start of a YYYY-MM-DD day in the display timezone, as a real instant
+export function getDayStart(dateKey: string, timezone: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return zonedTimeToUtc(new Date(year, month - 1, day), timezone).getTime();
+}
+
+// Splits overlapping events into lanes, so they sit side by side instead of
+// on top of each other
+function assignLanes<T>(
+  blocks: Omit<TimelineBlock<T>, 'lane' | 'laneCount'>[]
+) {
+  const sorted = [...blocks].sort(
+    (a, b) => a.top - b.top || b.height - a.height
+  );
+  const result: TimelineBlock<T>[] = [];
+  let cluster: TimelineBlock<T>[] = [];
+  let laneEnds: number[] = [];
+
+  const closeCluster = () => {
+    cluster.forEach((block) => (block.laneCount = laneEnds.length));
+    result.push(...cluster);
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((block) => {
+    // Nothing still running: the next overlap group starts here
+    if (cluster.length && laneEnds.every((end) => end <= block.top)) {
+      closeCluster();
+    }
+    let lane = laneEnds.findIndex((end) => end <= block.top);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = block.top + block.height;
+    cluster.push({ ...block, lane, laneCount: 1 });
+  });
+  closeCluster();
+
+  return result;
+}
+
+// Lays out one day with a column per venue or track and time running down.
+// Columns follow the order of `columnTitles`, then an "Other" column if needed.
+export function buildTimeline<T extends TimelineEvent>(
+  events: T[],
+  {
+    dateKey,
+    timezone,
+    groupBy,
+    columnTitles,
+    now = Date.now(),
+  }: {
+    dateKey: string;
+    timezone: string;
+    groupBy: TimelineGrouping;
+    columnTitles: Map<number, string>;
+    now?: number;
+  }
+): Timeline<T> {
+  const dayStart = getDayStart(dateKey, timezone);
+  const dayStartOffset = getTimezoneOffsetMs(new Date(dayStart), timezone);
+  // Minutes since midnight on the local clock, so blocks stay level with the
+  // hour labels on days the clocks change
+  const toMinutes = (time: number) =>
+    (time -
+      dayStart +
+      getTimezoneOffsetMs(new Date(time), timezone) -
+      dayStartOffset) /
+    60000;
+  const dayMinutes = toMinutes(getDayStart(nextDateKey(dateKey), timezone));
+
+  const spans = events.map((event) => {
+    const start = Math.max(
+      0,
+      toMinutes(parseServerTime(event.start_time).getTime())
+    );
+    const end = Math.min(
+      dayMinutes,
+      toMinutes(parseServerTime(event.end_time).getTime())
+    );
+    return { event, start, end: Math.max(end, start + MIN_BLOCK_MINUTES) };
+  });
+
+  // Hours covering every event, e.g. 9 to 18
+  const startHour = spans.length
+    ? Math.floor(Math.min(...spans.map((span) => span.start)) / 60)
+    : 9;
+  const endHour = spans.length
+    ? Math.min(
+        Math.ceil(Math.max(...spans.map((span) => span.end)) / 60),
+        Math.ceil(dayMinutes / 60)
+      )
+    : 18;
+  const nowMinutes = toMinutes(now);
+
+  const byColumn = new Map<number | null, typeof spans>();
+  spans.forEach((span) => {
+    const key =
+      (groupBy === 'venue' ? span.event.venue_id : span.event.track_id) ?? null;
+    const id = key !== null && columnTitles.has(key) ? key : null;
+    byColumn.set(id, [...(byColumn.get(id) || []), span]);
+  });
+
+  const columnIds = [
+    ...Array.from(columnTitles.keys()).filter((id) => byColumn.has(id)),
+    ...(byColumn.has(null) ? [null] : []),
+  ];
+
+  return {
+    startHour,
+    endHour,
+    nowOffset:
+      nowMinutes >= startHour * 60 && nowMinutes < endHour * 60
+        ? nowMinutes - startHour * 60
+        : null,
+    columns: columnIds.map((id) => ({
+      id,
+      title: id !== null ? columnTitles.get(id)! : 'Other',
+      blocks: assignLanes(
+        byColumn.get(id)!.map((span) => ({
+          event: span.event,
+          top: span.start - startHour * 60,
+          height: span.end - span.start,
+        }))
+      ),
+    })),
+  };
+}
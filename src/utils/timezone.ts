@@ -0,0 +1,126 @@
+// Timezone helpers built on Intl, which Hermes supports on both platforms
+
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of `timezone` from UTC at the given instant, in milliseconds
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+// Pickers work in device time, so a picked Date carries the wall-clock time
+// the organizer meant in the event's timezone. Convert that to a real instant.
+export function zonedTimeToUtc(wallTime: Date, timezone: string): Date {
+  const wallAsUtc = Date.UTC(
+    wallTime.getFullYear(),
+    wallTime.getMonth(),
+    wallTime.getDate(),
+    wallTime.getHours(),
+    wallTime.getMinutes()
+  );
+
+  // Resolve twice so instants next to a DST transition land on the right side
+  const firstGuess =
+    wallAsUtc - getTimezoneOffsetMs(new Date(wallAsUtc), timezone);
+  const offset = getTimezoneOffsetMs(new Date(firstGuess), timezone);
+  return new Date(wallAsUtc - offset);
+}
+
+// Inverse of zonedTimeToUtc: a device-time Date showing the wall-clock time
+// of `instant` in `timezone`, for seeding pickers
+export function utcToZonedTime(instant: Date, timezone: string): Date {
+  const shifted = new Date(
+    instant.getTime() + getTimezoneOffsetMs(instant, timezone)
+  );
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes()
+  );
+}
+
+export function formatTimezoneLabel(timezone: string): string {
+  return timezone.replace(/_/g, ' ');
+}
+
+// Hasura serializes `timestamp` columns without an offset, e.g.
+// "2025-06-01T17:00:00". They are stored in UTC, but `new Date()` would read
+// them as device-local time, so make the UTC offset explicit before parsing.
+export function parseServerTime(value: string): Date {
+  const trimmed = value.trim().replace(' ', 'T');
+  const hasOffset = /(Z|[+-]\d{2}(:?\d{2})?)$/i.test(trimmed);
+  return new Date(hasOffset ? trimmed : `${trimmed}Z`);
+}
+
+// Calendar day of `date` in `timezone` as a sortable YYYY-MM-DD key
+export function getDateKey(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value;
+
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+// The day after a YYYY-MM-DD key
+export function nextDateKey(dateKey: string): string {
+  const next = new Date(`${dateKey}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Same key for a device-local Date, e.g. a cell in the calendar grid
+export function getLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Short zone name such as "PDT" or "GMT+2" for the given instant
+export function getTimezoneAbbreviation(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    timeZoneName: 'short',
+  }).formatToParts(date);
+  return parts.find((part) => part.type === 'timeZoneName')?.value || timezone;
+}
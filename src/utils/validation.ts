@@ -0,0 +1,84 @@
+import { SocialMedia } from '../types';
+
+const URL_PATTERN = /^https?:\/\/[^\s/$.?#][^\s]*\.[^\s]{2,}$/i;
+
+export function isValidUrl(value: string): boolean {
+  return URL_PATTERN.test(value.trim());
+}
+
+interface SocialLinkRule {
+  pattern: RegExp | null; // null: only full URLs are accepted
+  allowUrl: boolean;
+  hint: string;
+}
+
+// Handle formats as each platform documents them. Platforms with profile
+// pages also accept a pasted profile URL.
+const SOCIAL_LINK_RULES: Record<keyof SocialMedia, SocialLinkRule> = {
+  twitter: {
+    pattern: /^@?[A-Za-z0-9_]{1,15}$/,
+    allowUrl: true,
+    hint: 'up to 15 letters, numbers or underscores',
+  },
+  github: {
+    pattern: /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/,
+    allowUrl: true,
+    hint: 'letters, numbers and single hyphens',
+  },
+  discord: {
+    pattern: /^(?:[a-z0-9_.]{2,32}|.{2,32}#\d{4})$/,
+    allowUrl: false,
+    hint: 'a lowercase username such as alice_01',
+  },
+  ens: {
+    pattern: /^(?:[a-z0-9-]+\.)+eth$/i,
+    allowUrl: false,
+    hint: 'a name ending in .eth',
+  },
+  lens: {
+    pattern: /^@?(?:lens\/)?[a-z0-9_]{1,26}(?:\.lens)?$/i,
+    allowUrl: true,
+    hint: 'a handle such as alice.lens',
+  },
+  nostr: {
+    pattern: /^npub1[02-9ac-hj-np-z]{58}$/,
+    allowUrl: false,
+    hint: 'an npub public key',
+  },
+  website: {
+    pattern: null,
+    allowUrl: true,
+    hint: 'a URL starting with http:// or https://',
+  },
+  farcaster: {
+    pattern: /^@?[a-z0-9][a-z0-9-]{0,15}(?:\.eth)?$/,
+    allowUrl: true,
+    hint: 'a lowercase username',
+  },
+  telegram: {
+    pattern: /^@?[A-Za-z][A-Za-z0-9_]{4,31}$/,
+    allowUrl: true,
+    hint: '5-32 letters, numbers or underscores',
+  },
+};
+
+export function validateSocialLink(
+  platform: keyof SocialMedia,
+  value: string
+): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const rule = SOCIAL_LINK_RULES[platform];
+  if (rule.allowUrl && isValidUrl(trimmed)) return null;
+  if (rule.pattern && rule.pattern.test(trimmed)) return null;
+
+  return `Enter ${rule.hint}.`;
+}
+
+export function validateNickname(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 'Please enter a display name.';
+  if (trimmed.length > 50) return 'Display name must be 50 characters or less.';
+  return null;
+}
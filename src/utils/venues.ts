@@ -0,0 +1,196 @@
+import { Event, Venue } from '../types';
+import { getDateKey, parseServerTime } from './timezone';
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+// Free time shorter than this between two sessions isn't worth a row
+const MIN_GAP_MINUTES = 30;
+
+export interface OpeningHours {
+  open: boolean;
+  ranges: { start: string; end: string }[];
+}
+
+// Weekday (0 = Sunday) of a YYYY-MM-DD key, independent of the device timezone
+const getWeekday = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+// Hours for one date: a date-specific override wins over the weekly slots.
+// Null when the venue has no hours configured at all.
+export function getOpeningHours(
+  venue: Venue,
+  dateKey: string
+): OpeningHours | null {
+  const overrides = (venue.venue_overrides || []).filter(
+    (override) => override.day?.slice(0, 10) === dateKey
+  );
+  const slots = overrides.length
+    ? overrides
+    : (venue.venue_timeslots || []).filter(
+        (slot) =>
+          slot.day_of_week?.toLowerCase() === WEEKDAYS[getWeekday(dateKey)]
+      );
+
+  if (slots.length === 0) {
+    return overrides.length || venue.venue_timeslots?.length
+      ? { open: false, ranges: [] }
+      : null;
+  }
+
+  const ranges = slots
+    .filter((slot) => !slot.disabled && slot.start_at && slot.end_at)
+    .map((slot) => ({
+      start: slot.start_at!.slice(0, 5),
+      end: slot.end_at!.slice(0, 5),
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  return { open: ranges.length > 0, ranges };
+}
+
+// One row per weekday, Monday first, e.g. { day: 'Mon', hours: '09:00–18:00' }
+export function getWeeklyHours(
+  venue: Venue
+): { day: string; hours: string }[] | null {
+  if (!venue.venue_timeslots?.length) return null;
+
+  return [1, 2, 3, 4, 5, 6, 0].map((weekday) => {
+    const slots = venue.venue_timeslots!.filter(
+      (slot) =>
+        slot.day_of_week?.toLowerCase() === WEEKDAYS[weekday] &&
+        !slot.disabled &&
+        slot.start_at &&
+        slot.end_at
+    );
+    const name = WEEKDAYS[weekday];
+    return {
+      day: name.charAt(0).toUpperCase() + name.slice(1, 3),
+      hours: slots.length
+        ? slots
+            .map(
+              (slot) =>
+                `${slot.start_at!.slice(0, 5)}–${slot.end_at!.slice(0, 5)}`
+            )
+            .join(', ')
+        : 'Closed',
+    };
+  });
+}
+
+export const formatOpeningHours = (hours: OpeningHours) =>
+  hours.open
+    ? hours.ranges.map((range) => `${range.start}–${range.end}`).join(', ')
+    : 'Closed';
+
+// First and last instant of an event; one ending at midnight doesn't spill
+// into the next day
+const getEventSpan = (event: Event) => {
+  const start = parseServerTime(event.start_time).getTime();
+  const end = parseServerTime(event.end_time).getTime();
+  return { start, end, lastInstant: Math.max(start, end - 1) };
+};
+
+// Days (YYYY-MM-DD in the display timezone) on which any event takes place,
+// including every day a multi-day event spans
+export function getScheduleDays(events: Event[], timezone: string): string[] {
+  const days = new Set<string>();
+  events.forEach((event) => {
+    if (event.status === 'cancel') return;
+    const { start, lastInstant } = getEventSpan(event);
+    for (let t = start; t < lastInstant; t += 24 * 60 * 60 * 1000) {
+      days.add(getDateKey(new Date(t), timezone));
+    }
+    days.add(getDateKey(new Date(lastInstant), timezone));
+  });
+  return Array.from(days).sort();
+}
+
+export type ScheduleEntry =
+  | {
+      kind: 'event';
+      event: Event;
+      status: 'past' | 'ongoing' | 'upcoming';
+    }
+  | { kind: 'free'; start: Date; end: Date };
+
+// A room's day in time order, with the free stretches between sessions so
+// attendees can see when the room is available
+export function buildDaySchedule(
+  events: Event[],
+  dateKey: string,
+  timezone: string,
+  now: number = Date.now()
+): ScheduleEntry[] {
+  const dayEvents = events
+    .filter((event) => {
+      if (event.status === 'cancel') return false;
+      const { start, lastInstant } = getEventSpan(event);
+      return (
+        getDateKey(new Date(start), timezone) <= dateKey &&
+        getDateKey(new Date(lastInstant), timezone) >= dateKey
+      );
+    })
+    .sort((a, b) => getEventSpan(a).start - getEventSpan(b).start);
+
+  const entries: ScheduleEntry[] = [];
+  // Latest end so far, so overlapping sessions don't produce bogus gaps
+  let busyUntil: number | null = null;
+
+  dayEvents.forEach((event) => {
+    const { start, end } = getEventSpan(event);
+
+    if (
+      busyUntil !== null &&
+      start - busyUntil >= MIN_GAP_MINUTES * 60 * 1000
+    ) {
+      entries.push({
+        kind: 'free',
+        start: new Date(busyUntil),
+        end: new Date(start),
+      });
+    }
+
+    entries.push({
+      kind: 'event',
+      event,
+      status: now > end ? 'past' : now >= start ? 'ongoing' : 'upcoming',
+    });
+    busyUntil = busyUntil === null ? end : Math.max(busyUntil, end);
+  });
+
+  return entries;
+}
+
+// What's on in a room right now and what comes next, for the directory
+export function getNowAndNext(
+  events: Event[],
+  now: number = Date.now()
+): { current: Event | null; next: Event | null } {
+  let current: Event | null = null;
+  let next: Event | null = null;
+
+  events.forEach((event) => {
+    if (event.status === 'cancel') return;
+    const { start, end } = getEventSpan(event);
+
+    if (start <= now && end > now) {
+      if (!current || start > parseServerTime(current.start_time).getTime()) {
+        current = event;
+      }
+    } else if (start > now) {
+      if (!next || start < parseServerTime(next.start_time).getTime()) {
+        next = event;
+      }
+    }
+  });
+
+  return { current, next };
+}
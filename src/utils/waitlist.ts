@@ -0,0 +1,33 @@
+interface CapacityEvent {
+  max_participant: number | null;
+  participants_count: number;
+}
+
+// Events without a limit are never full
+export const isEventFull = (event: CapacityEvent) =>
+  !!event.max_participant && event.participants_count >= event.max_participant;
+
+// 1-based place in line, or null when the profile isn't on the waitlist.
+// The waitlist comes from the server already in order.
+export function getWaitlistPosition(
+  waitlist: { profile_id: number }[],
+  profileId: number
+): number | null {
+  const index = waitlist.findIndex((entry) => entry.profile_id === profileId);
+  return index === -1 ? null : index + 1;
+}
+
+// Events that were waitlisted last time and are now attended: those are the
+// ones where a spot opened up
+export function findPromotions(
+  previouslyWaitlisted: number[],
+  attendingIds: number[]
+): number[] {
+  const attending = new Set(attendingIds);
+  return previouslyWaitlisted.filter((eventId) => attending.has(eventId));
+}
+
+export const formatWaitlistPosition = (position: number) => {
+  if (position === 1) return "You're next in line";
+  return `You're #${position} in line`;
+};